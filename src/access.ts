@@ -0,0 +1,232 @@
+import * as fs from "node:fs"
+import {
+   RecipientEntry,
+   parseRecipientEntry,
+   formatRecipientEntry,
+   validatePublicKey,
+   loadRecipients,
+   RECIPIENT_METADATA_KEY,
+   SIGNATURE_METADATA_KEY,
+   validateRecipientLabel,
+   createMacUpdater,
+} from "./age.js"
+import { RecipientError, ValidationError } from "./errors.js"
+import { safeReadFile } from "./filesystem.js"
+import { parseEnvFile, getEnvPath, withLock, writeAtomicRaw } from "./parse.js"
+
+/** Name of the metadata key declaring a group member: `_GROUP=backend:age1...`. */
+export const GROUP_METADATA_KEY = "_GROUP"
+
+/** Name of the metadata key scoping a secret to groups: `_ACCESS=STRIPE_LIVE_KEY:backend,ops`. */
+export const ACCESS_METADATA_KEY = "_ACCESS"
+
+/** Name of the metadata key holding an access request: `_PENDING=<timestamp>|<label>|<public key>`. */
+export const PENDING_METADATA_KEY = "_PENDING"
+
+/** A public key waiting for an existing recipient to run `secenvs approve`. */
+export interface PendingRequest extends RecipientEntry {
+   requestedAt: string
+}
+
+const GROUP_NAME_REGEX = /^[a-z0-9][a-z0-9_-]*$/
+const MAX_GROUP_NAME_LENGTH = 64
+
+export function validateGroupName(name: string): string {
+   const trimmed = name.trim()
+   if (!GROUP_NAME_REGEX.test(trimmed) || trimmed.length > MAX_GROUP_NAME_LENGTH) {
+      throw new ValidationError(
+         `Invalid group name: '${name}'. Use lowercase letters, numbers, '-' and '_' (max ${MAX_GROUP_NAME_LENGTH} characters).`
+      )
+   }
+   return trimmed
+}
+
+function splitMetadataValue(value: string): [string, string] | null {
+   const colonIndex = value.indexOf(":")
+   if (colonIndex === -1) {
+      return null
+   }
+   return [value.slice(0, colonIndex).trim(), value.slice(colonIndex + 1).trim()]
+}
+
+/**
+ * Reads the recipient groups declared in a project's .secenvs, keyed by group name.
+ */
+export function loadGroups(projectDir: string): Map<string, RecipientEntry[]> {
+   const groups = new Map<string, RecipientEntry[]>()
+   for (const line of parseEnvFile(getEnvPath(projectDir)).lines) {
+      if (line.key !== GROUP_METADATA_KEY) continue
+      const parts = splitMetadataValue(line.value)
+      if (!parts) {
+         throw new RecipientError(`Invalid ${GROUP_METADATA_KEY} entry on line ${line.lineNumber}`)
+      }
+      const name = validateGroupName(parts[0])
+      const entry = parseRecipientEntry(parts[1])
+      const members = groups.get(name) ?? []
+      members.push({ ...entry, key: validatePublicKey(entry.key) })
+      groups.set(name, members)
+   }
+   return groups
+}
+
+/**
+ * Reads the per-key access declarations: secret name → groups allowed to read it.
+ * Secrets without a declaration are encrypted to every `_RECIPIENT`.
+ */
+export function loadKeyAccess(projectDir: string): Map<string, string[]> {
+   const access = new Map<string, string[]>()
+   for (const line of parseEnvFile(getEnvPath(projectDir)).lines) {
+      if (line.key !== ACCESS_METADATA_KEY) continue
+      const parts = splitMetadataValue(line.value)
+      if (!parts) {
+         throw new RecipientError(`Invalid ${ACCESS_METADATA_KEY} entry on line ${line.lineNumber}`)
+      }
+      access.set(
+         parts[0],
+         parts[1].split(",").map((name) => validateGroupName(name))
+      )
+   }
+   return access
+}
+
+/**
+ * Returns the union of the members of the given groups. `_GROUP` lines are not covered by the
+ * recipient signature, so every member must also be in `recipients`, the verified recipient list.
+ * Throws RecipientError if a group is unknown, has no members, or lists a key that is not a recipient.
+ */
+export function groupRecipients(
+   groups: Map<string, RecipientEntry[]>,
+   names: string[],
+   recipients: string[]
+): string[] {
+   const keys = new Set<string>()
+   for (const name of names) {
+      const members = groups.get(name)
+      if (!members || members.length === 0) {
+         throw new RecipientError(
+            `Group '${name}' has no members. Add one with 'secenvs group add ${name} <key>'.`
+         )
+      }
+      for (const member of members) {
+         if (!recipients.includes(member.key)) {
+            throw new RecipientError(
+               `Group '${name}' lists ${member.key}, which is not in the signed recipient list. Remove that ${GROUP_METADATA_KEY} line, or trust the key first.`
+            )
+         }
+         keys.add(member.key)
+      }
+   }
+   return [...keys]
+}
+
+/**
+ * Resolves who a secret is encrypted to: its groups' members if it is scoped, otherwise
+ * the project's full recipient list.
+ */
+export async function resolveKeyRecipients(projectDir: string, key: string): Promise<string[]> {
+   const groups = loadKeyAccess(projectDir).get(key)
+   const recipients = await loadRecipients(projectDir)
+   if (!groups) {
+      return recipients
+   }
+   return groupRecipients(loadGroups(projectDir), groups, recipients)
+}
+
+/**
+ * Replaces every line of one metadata key with the given values. New lines go where the first
+ * old one was, or below the recipient block if there were none.
+ *
+ * `_PENDING` lines are not covered by the `_MAC`, so writing them leaves it alone: the requester is
+ * not a recipient and must not re-sign the file.
+ */
+async function replaceMetadataLines(envPath: string, metadataKey: string, values: string[]): Promise<void> {
+   const updateMac =
+      metadataKey === PENDING_METADATA_KEY ? (content: string) => content : await createMacUpdater(envPath)
+   await withLock(envPath, async () => {
+      const content = fs.existsSync(envPath) ? safeReadFile(envPath) : ""
+      const lines = content.split("\n")
+      const isMetadataLine = (line: string, key: string) => line.trim().startsWith(`${key}=`)
+
+      let insertAt = lines.findIndex((line) => isMetadataLine(line, metadataKey))
+      if (insertAt === -1 && values.length === 0) {
+         return
+      }
+      if (insertAt === -1) {
+         const headerKeys = [
+            RECIPIENT_METADATA_KEY,
+            SIGNATURE_METADATA_KEY,
+            GROUP_METADATA_KEY,
+            ACCESS_METADATA_KEY,
+            PENDING_METADATA_KEY,
+         ]
+         let lastHeader = -1
+         lines.forEach((line, i) => {
+            if (headerKeys.some((key) => isMetadataLine(line, key))) lastHeader = i
+         })
+         insertAt = lastHeader + 1
+      }
+
+      const before = lines.slice(0, insertAt).filter((line) => !isMetadataLine(line, metadataKey))
+      const after = lines.slice(insertAt).filter((line) => !isMetadataLine(line, metadataKey))
+      const newLines = values.map((value) => `${metadataKey}=${value}`)
+
+      const finalContent =
+         [...before, ...newLines, ...after]
+            .join("\n")
+            .replace(/\n{3,}/g, "\n\n")
+            .trim() + "\n"
+      await writeAtomicRaw(envPath, updateMac(finalContent))
+   })
+}
+
+export async function saveGroups(projectDir: string, groups: Map<string, RecipientEntry[]>): Promise<void> {
+   const values: string[] = []
+   for (const [name, members] of groups) {
+      for (const member of members) {
+         values.push(`${validateGroupName(name)}:${formatRecipientEntry(member)}`)
+      }
+   }
+   await replaceMetadataLines(getEnvPath(projectDir), GROUP_METADATA_KEY, values)
+}
+
+/**
+ * Scopes a secret to the given groups, or removes its scoping when `groups` is null.
+ */
+export async function setKeyAccess(projectDir: string, key: string, groups: string[] | null): Promise<void> {
+   const access = loadKeyAccess(projectDir)
+   if (groups) {
+      access.set(
+         key,
+         groups.map((name) => validateGroupName(name))
+      )
+   } else {
+      access.delete(key)
+   }
+
+   const values = [...access].map(([secret, names]) => `${secret}:${names.join(",")}`)
+   await replaceMetadataLines(getEnvPath(projectDir), ACCESS_METADATA_KEY, values)
+}
+
+/**
+ * Reads the access requests recorded by `secenvs request-access`, oldest first.
+ */
+export function loadPendingRequests(projectDir: string): PendingRequest[] {
+   const requests: PendingRequest[] = []
+   for (const line of parseEnvFile(getEnvPath(projectDir)).lines) {
+      if (line.key !== PENDING_METADATA_KEY) continue
+      const [requestedAt, label, key] = line.value.split("|")
+      if (!requestedAt || key === undefined) {
+         throw new RecipientError(`Invalid ${PENDING_METADATA_KEY} entry on line ${line.lineNumber}`)
+      }
+      requests.push({ key: validatePublicKey(key), label: label || undefined, requestedAt })
+   }
+   return requests
+}
+
+export async function savePendingRequests(projectDir: string, requests: PendingRequest[]): Promise<void> {
+   const values = requests.map((request) => {
+      const label = request.label ? validateRecipientLabel(request.label) : ""
+      return `${request.requestedAt}|${label}|${validatePublicKey(request.key)}`
+   })
+   await replaceMetadataLines(getEnvPath(projectDir), PENDING_METADATA_KEY, values)
+}
@@ -1,30 +1,96 @@
 import * as age from "age-encryption"
+import * as crypto from "node:crypto"
 import * as fs from "node:fs"
 import * as path from "node:path"
 import * as os from "node:os"
+import * as readline from "node:readline"
+import { Writable } from "node:stream"
 import {
    IdentityNotFoundError,
    DecryptionError,
    EncryptionError,
    FileError,
+   IntegrityError,
    RecipientError,
+   ValidationError,
 } from "./errors.js"
 import { ensureSafeDir, sanitizePath, safeReadFile } from "./filesystem.js"
-import { parseEnvFile, getEnvPath, withLock, writeAtomicRaw } from "./parse.js"
+import {
+   parseEnvFile,
+   getEnvPath,
+   getEnvPaths,
+   getBaseEnvPath,
+   getEnvironmentOfPath,
+   withLock,
+   writeAtomicRaw,
+} from "./parse.js"
+import { isSshPublicKey, parseSshPublicKey, sshRecipient, loadSshIdentities } from "./ssh.js"
+import {
+   RecipientSignature,
+   FileMac,
+   deriveSigningKey,
+   signRecipientList,
+   verifyRecipientList,
+   signFileDigest,
+   verifyFileDigest,
+   parseRecipientSignature,
+   formatRecipientSignature,
+} from "./signing.js"
 
 const SECENV_DIR = ".secenvs"
 const KEYS_DIR = "keys"
-const DEFAULT_KEY_FILE = "default.key"
+const KEY_FILE_EXTENSION = ".key"
+const ACTIVE_IDENTITY_FILE = ".active"
+const ARCHIVE_DIR = "archive"
+const KNOWN_SIGNERS_FILE = "known-signers.json"
+const KNOWN_LISTS_FILE = "known-lists.json"
+
+/** Name of the identity used when nothing else selects one. */
+export const DEFAULT_IDENTITY_NAME = "default"
+
+/** Environment variable selecting a named identity, overriding project hints and `key use`. */
+export const IDENTITY_ENV_VAR = "SECENV_IDENTITY"
+
+/** Name of the metadata key used in .secenvs to pin the identity a project expects. */
+export const IDENTITY_HINT_METADATA_KEY = "_IDENTITY_HINT"
+
+const IDENTITY_NAME_REGEX = /^[a-z0-9][a-z0-9_-]*$/
+const MAX_IDENTITY_NAME_LENGTH = 64
 
 /** Name of the metadata key used in .secenvs to store recipients. */
 export const RECIPIENT_METADATA_KEY = "_RECIPIENT"
 
+/** Name of the metadata key holding the signature over the recipient list. */
+export const SIGNATURE_METADATA_KEY = "_SIGNATURE"
+
 /** Name of the metadata key used in .secenvs for audit log entries. */
 export const AUDIT_METADATA_KEY = "_AUDIT"
 
+/** Name of the metadata key holding the signature over the whole file. */
+export const MAC_METADATA_KEY = "_MAC"
+
+// Lines the _MAC does not cover: itself, the audit log (appended by every command and chained on
+// its own) and access requests (written by people who are not recipients yet, see access.ts)
+const UNSIGNED_METADATA_KEYS = [MAC_METADATA_KEY, AUDIT_METADATA_KEY, "_PENDING"]
+
+/** Environment variable holding the passphrase for a protected identity file. */
+export const PASSPHRASE_ENV_VAR = "SECENV_PASSPHRASE"
+
+/** First line of an ASCII-armored age file, used to detect passphrase-protected identities. */
+const ARMOR_HEADER = "-----BEGIN AGE ENCRYPTED FILE-----"
+
+/**
+ * Anything that can decrypt a value: an age secret key string, or an age Identity
+ * object such as an SSH private key.
+ */
+export type AgeIdentity = string | age.Identity
+
 /** Regex for a valid age X25519 public key (bech32 charset). */
 const AGE_PUBKEY_REGEX = /^age1[qpzry9x8gf2tvdw0s3jn54khce6mua7l]+$/
 
+/** Regex for an age hybrid ML-KEM-768 + X25519 post-quantum public key. */
+const AGE_PQ_PUBKEY_REGEX = /^age1pq1[qpzry9x8gf2tvdw0s3jn54khce6mua7l]+$/
+
 function stream(a: Uint8Array): ReadableStream<Uint8Array> {
    return new ReadableStream({
       start(controller) {
@@ -47,8 +113,151 @@ export function getKeysDir(): string {
    return path.join(sanitizedBase, SECENV_DIR, KEYS_DIR)
 }
 
+export interface IdentityInfo {
+   name: string
+   path: string
+   active: boolean
+}
+
+export function validateIdentityName(name: string): string {
+   const trimmed = name.trim()
+   if (!IDENTITY_NAME_REGEX.test(trimmed) || trimmed.length > MAX_IDENTITY_NAME_LENGTH) {
+      throw new ValidationError(
+         `Invalid identity name: '${name}'. Use lowercase letters, numbers, '-' and '_' (max ${MAX_IDENTITY_NAME_LENGTH} characters).`
+      )
+   }
+   return trimmed
+}
+
+export function getKeyPath(name: string): string {
+   return path.join(getKeysDir(), `${validateIdentityName(name)}${KEY_FILE_EXTENSION}`)
+}
+
+// The last hint read, with the state of the files it came from, so a command parses them only once
+let projectIdentityHint: { files: string; hint: string | null } | null = null
+
+function readProjectIdentityHint(): string | null {
+   let envPaths: string[]
+   try {
+      envPaths = getEnvPaths()
+   } catch {
+      // A broken .secenvs must not prevent locating the identity
+      return null
+   }
+   const files = envPaths
+      .map((envPath) => {
+         const stat = fs.statSync(envPath, { throwIfNoEntry: false })
+         return `${envPath}:${stat ? `${stat.mtimeMs}:${stat.size}` : "-"}`
+      })
+      .join("\n")
+   if (projectIdentityHint?.files === files) {
+      return projectIdentityHint.hint
+   }
+
+   let hint: string | null = null
+   try {
+      for (const envPath of envPaths) {
+         const line = parseEnvFile(envPath).lines.find((line) => line.key === IDENTITY_HINT_METADATA_KEY)
+         if (!line) continue
+         try {
+            hint = validateIdentityName(line.value)
+         } catch (error) {
+            // A bad hint must not stop every command; the identity is chosen as if it were absent
+            process.emitWarning(
+               `Ignoring ${IDENTITY_HINT_METADATA_KEY} in ${envPath}: ${(error as Error).message}`,
+               "SecenvIdentityWarning"
+            )
+         }
+         break
+      }
+   } catch {
+      // A broken .secenvs must not prevent locating the identity
+   }
+   projectIdentityHint = { files, hint }
+   return hint
+}
+
+/**
+ * Resolves which named identity is active, in priority order:
+ * SECENV_IDENTITY, the project's _IDENTITY_HINT, `secenvs key use`, then "default".
+ */
+export function getActiveIdentityName(): string {
+   const fromEnv = process.env[IDENTITY_ENV_VAR]
+   if (fromEnv) {
+      return validateIdentityName(fromEnv)
+   }
+
+   const hint = readProjectIdentityHint()
+   if (hint) {
+      return hint
+   }
+
+   const activeFile = path.join(getKeysDir(), ACTIVE_IDENTITY_FILE)
+   if (fs.existsSync(activeFile)) {
+      const selected = safeReadFile(activeFile).trim()
+      if (selected) {
+         return validateIdentityName(selected)
+      }
+   }
+
+   return DEFAULT_IDENTITY_NAME
+}
+
+/**
+ * Path to the active identity file (see getActiveIdentityName).
+ */
 export function getDefaultKeyPath(): string {
-   return path.join(getKeysDir(), DEFAULT_KEY_FILE)
+   return getKeyPath(getActiveIdentityName())
+}
+
+/**
+ * Persists the identity selected by `secenvs key use`.
+ */
+export function setActiveIdentity(name: string): void {
+   const normalized = validateIdentityName(name)
+   if (!fs.existsSync(getKeyPath(normalized))) {
+      throw new IdentityNotFoundError(getKeyPath(normalized))
+   }
+   ensureSecenvDir()
+   fs.writeFileSync(path.join(getKeysDir(), ACTIVE_IDENTITY_FILE), normalized, { mode: 0o600 })
+}
+
+export function listIdentities(): IdentityInfo[] {
+   const keysDir = getKeysDir()
+   if (!fs.existsSync(keysDir)) {
+      return []
+   }
+
+   const active = getActiveIdentityName()
+   return fs
+      .readdirSync(keysDir)
+      .filter((file) => file.endsWith(KEY_FILE_EXTENSION))
+      .map((file) => file.slice(0, -KEY_FILE_EXTENSION.length))
+      .filter((name) => IDENTITY_NAME_REGEX.test(name))
+      .sort()
+      .map((name) => ({
+         name,
+         path: path.join(keysDir, `${name}${KEY_FILE_EXTENSION}`),
+         active: name === active,
+      }))
+}
+
+/**
+ * Moves an identity file into keys/archive/ so values encrypted to a rotated key stay recoverable.
+ * Returns the archived path.
+ */
+export function archiveIdentity(name: string): string {
+   const keyPath = getKeyPath(name)
+   if (!fs.existsSync(keyPath)) {
+      throw new IdentityNotFoundError(keyPath)
+   }
+
+   const archiveDir = path.join(getKeysDir(), ARCHIVE_DIR)
+   ensureSafeDir(archiveDir)
+   const stamp = new Date().toISOString().replace(/[:.]/g, "-")
+   const archivedPath = path.join(archiveDir, `${validateIdentityName(name)}-${stamp}${KEY_FILE_EXTENSION}`)
+   fs.renameSync(keyPath, archivedPath)
+   return archivedPath
 }
 
 export function ensureSecenvDir(): void {
@@ -56,19 +265,191 @@ export function ensureSecenvDir(): void {
    ensureSafeDir(keysDir)
 }
 
-export async function generateIdentity(): Promise<string> {
-   return age.generateX25519Identity()
+/**
+ * Generates a new age identity. With `pq`, a hybrid ML-KEM-768 + X25519 identity is created
+ * so values encrypted to it resist harvest-now-decrypt-later attacks.
+ */
+export async function generateIdentity(options: { pq?: boolean } = {}): Promise<string> {
+   return options.pq ? age.generateHybridIdentity() : age.generateX25519Identity()
+}
+
+/**
+ * Returns true if the recipient is a post-quantum hybrid key (`age1pq1...`).
+ * X25519 and SSH recipients are classical-only.
+ */
+export function isPostQuantumRecipient(pubkey: string): boolean {
+   return AGE_PQ_PUBKEY_REGEX.test(pubkey.trim())
+}
+
+// Unwrapped identities keyed by their armored form, so scrypt only runs once per process.
+const unwrappedIdentities = new Map<string, string>()
+
+/**
+ * Returns true if the given identity file content is passphrase-protected
+ * (an armored age file encrypted to an scrypt recipient).
+ */
+export function isProtectedIdentity(content: string): boolean {
+   return content.trim().startsWith(ARMOR_HEADER)
+}
+
+/**
+ * Wraps a raw identity with an age scrypt recipient and returns the armored result.
+ */
+export async function wrapIdentity(identity: string, passphrase: string): Promise<string> {
+   if (!passphrase) {
+      throw new EncryptionError("Passphrase cannot be empty.")
+   }
+   try {
+      const encrypter = new age.Encrypter()
+      encrypter.setPassphrase(passphrase)
+      const encrypted = await encrypter.encrypt(identity.trim())
+      return age.armor.encode(encrypted)
+   } catch (error) {
+      throw new EncryptionError(`Failed to protect identity: ${error}`)
+   }
 }
 
-export async function saveIdentity(identity: string): Promise<string> {
+/**
+ * Unwraps a passphrase-protected identity. Throws DecryptionError on a wrong passphrase.
+ */
+export async function unwrapIdentity(wrapped: string, passphrase: string): Promise<string> {
+   try {
+      const decrypter = new age.Decrypter()
+      decrypter.addPassphrase(passphrase)
+      const identity = (await decrypter.decrypt(age.armor.decode(wrapped.trim()), "text")).trim()
+      unwrappedIdentities.set(wrapped, identity)
+      return identity
+   } catch (error) {
+      throw new DecryptionError("Failed to unlock identity: incorrect passphrase or corrupted key file.")
+   }
+}
+
+/**
+ * Encrypts text to an age scrypt recipient and returns the ASCII-armored result.
+ */
+export async function encryptWithPassphrase(plaintext: string, passphrase: string): Promise<string> {
+   if (!passphrase) {
+      throw new EncryptionError("Passphrase cannot be empty.")
+   }
+   try {
+      const encrypter = new age.Encrypter()
+      encrypter.setPassphrase(passphrase)
+      return age.armor.encode(await encrypter.encrypt(plaintext))
+   } catch (error) {
+      throw new EncryptionError(`Failed to encrypt with passphrase: ${error}`)
+   }
+}
+
+/**
+ * Decrypts an ASCII-armored age file encrypted to a passphrase. Throws DecryptionError on a wrong
+ * passphrase.
+ */
+export async function decryptWithPassphrase(armored: string, passphrase: string): Promise<string> {
+   try {
+      const decrypter = new age.Decrypter()
+      decrypter.addPassphrase(passphrase)
+      return await decrypter.decrypt(age.armor.decode(armored.trim()), "text")
+   } catch (error) {
+      throw new DecryptionError("Failed to decrypt: incorrect passphrase or corrupted file.")
+   }
+}
+
+/**
+ * Returns true if an ASCII-armored age file is encrypted to a passphrase rather than to public keys.
+ */
+export function isPassphraseEncrypted(armored: string): boolean {
+   try {
+      const header = Buffer.from(age.armor.decode(armored.trim())).toString("latin1")
+      return header.startsWith("age-encryption.org/v1\n-> scrypt ")
+   } catch {
+      return false
+   }
+}
+
+/** Converts a value returned by `encrypt` into an ASCII-armored age file. */
+export function armorEncrypted(encrypted: string): string {
+   return age.armor.encode(Buffer.from(encrypted, "base64"))
+}
+
+/** Converts an ASCII-armored age file into the form `decrypt` accepts. */
+export function dearmorEncrypted(armored: string): string {
+   try {
+      return Buffer.from(age.armor.decode(armored.trim())).toString("base64")
+   } catch (error) {
+      throw new DecryptionError(`Not an ASCII-armored age file: ${error}`)
+   }
+}
+
+/**
+ * Reads a passphrase from SECENV_PASSPHRASE, or from `envVar` for a passphrase that is not the
+ * identity's, falling back to a hidden TTY prompt.
+ * With `confirm`, an interactive prompt asks twice and rejects mismatches.
+ */
+export async function readPassphrase(
+   promptText: string,
+   options: { confirm?: boolean; envVar?: string } = {}
+): Promise<string> {
+   const envVar = options.envVar ?? PASSPHRASE_ENV_VAR
+   const fromEnv = process.env[envVar]
+   if (fromEnv) {
+      return fromEnv
+   }
+
+   if (!process.stdin.isTTY) {
+      throw new DecryptionError(`A passphrase is required. Set ${envVar} or run in an interactive terminal.`)
+   }
+
+   const passphrase = await promptHidden(promptText)
+   if (options.confirm) {
+      const again = await promptHidden("Confirm passphrase: ")
+      if (again !== passphrase) {
+         throw new EncryptionError("Passphrases do not match.")
+      }
+   }
+   if (!passphrase) {
+      throw new EncryptionError("Passphrase cannot be empty.")
+   }
+   return passphrase
+}
+
+function promptHidden(promptText: string): Promise<string> {
+   // Typed characters are echoed to a stream that discards them; only the prompt itself is shown
+   const muted = new Writable({
+      write(_chunk, _encoding, callback) {
+         callback()
+      },
+   })
+   const rl = readline.createInterface({ input: process.stdin, output: muted, terminal: true })
+   process.stderr.write(promptText)
+
+   return new Promise((resolve) => {
+      rl.question("", (answer) => {
+         rl.close()
+         process.stderr.write("\n")
+         resolve(answer)
+      })
+   })
+}
+
+export async function saveIdentity(
+   identity: string,
+   options: { passphrase?: string; name?: string } = {}
+): Promise<string> {
    ensureSecenvDir()
-   const keyPath = getDefaultKeyPath()
-   fs.writeFileSync(keyPath, identity, { mode: 0o600 })
+   const keyPath = options.name ? getKeyPath(options.name) : getDefaultKeyPath()
+   const content = options.passphrase ? await wrapIdentity(identity, options.passphrase) : identity
+   if (options.passphrase) {
+      unwrappedIdentities.set(content, identity)
+   }
+   fs.writeFileSync(keyPath, content, { mode: 0o600 })
    return keyPath
 }
 
-export async function loadIdentity(): Promise<string> {
-   const keyPath = getDefaultKeyPath()
+/**
+ * Returns the identity file exactly as stored on disk (wrapped if passphrase-protected).
+ */
+export function readIdentityFile(name?: string): string {
+   const keyPath = name ? getKeyPath(name) : getDefaultKeyPath()
 
    if (!fs.existsSync(keyPath)) {
       throw new IdentityNotFoundError(keyPath)
@@ -77,31 +458,360 @@ export async function loadIdentity(): Promise<string> {
    return fs.readFileSync(keyPath, "utf-8")
 }
 
+export async function loadIdentity(name?: string): Promise<string> {
+   const content = readIdentityFile(name)
+
+   if (isProtectedIdentity(content)) {
+      const cached = unwrappedIdentities.get(content)
+      if (cached) {
+         return cached
+      }
+      const keyPath = name ? getKeyPath(name) : getDefaultKeyPath()
+      const passphrase = await readPassphrase(`Passphrase for ${keyPath}: `)
+      return unwrapIdentity(content, passphrase)
+   }
+
+   return content
+}
+
+/**
+ * Loads every local identity that may decrypt the given .secenvs file, active identity first.
+ *
+ * When the file declares _RECIPIENT lines, only identities whose public key appears there are
+ * returned (falling back to all identities if none match, so decryption fails with a clear error).
+ * Other passphrase-protected identities are only tried when SECENV_PASSPHRASE is set, to avoid
+ * prompting once per key file.
+ */
+export async function loadIdentities(envPath?: string): Promise<AgeIdentity[]> {
+   const activeName = getActiveIdentityName()
+   const names = listIdentities()
+      .map((info) => info.name)
+      .sort((a, b) => (a === activeName ? -1 : b === activeName ? 1 : 0))
+
+   const loaded: { identity: AgeIdentity; pubkey: string }[] = []
+   for (const name of names) {
+      if (
+         name !== activeName &&
+         isProtectedIdentity(readIdentityFile(name)) &&
+         !process.env[PASSPHRASE_ENV_VAR]
+      ) {
+         continue
+      }
+      try {
+         const identity = (await loadIdentity(name)).trim()
+         loaded.push({ identity, pubkey: await getPublicKey(identity) })
+      } catch (error) {
+         if (name === activeName) throw error
+         // A broken secondary identity must not block the ones that work
+      }
+   }
+
+   for (const sshIdentity of loadSshIdentities()) {
+      loaded.push({ identity: sshIdentity, pubkey: sshIdentity.recipient })
+   }
+
+   if (loaded.length === 0) {
+      throw new IdentityNotFoundError(getDefaultKeyPath())
+   }
+
+   const recipients = envPath ? readRecipientKeys(envPath).map(normalizeRecipientKey) : []
+   const matching = loaded.filter((entry) => recipients.includes(entry.pubkey))
+   return (matching.length > 0 ? matching : loaded).map((entry) => entry.identity)
+}
+
 /**
- * Validates an age X25519 public key and returns the normalized (trimmed) version.
+ * Validates a recipient public key and returns the normalized version: the trimmed age X25519 key,
+ * or `ssh-ed25519 <base64>` / `ssh-rsa <base64>` with any trailing comment dropped.
  * Throws RecipientError if invalid.
  */
 export function validatePublicKey(pubkey: string): string {
    const trimmed = pubkey.trim()
-   if (!AGE_PUBKEY_REGEX.test(trimmed)) {
-      throw new RecipientError(`Invalid age public key: '${trimmed}'. Expected format: age1<bech32-string>`)
+   if (isSshPublicKey(trimmed)) {
+      return parseSshPublicKey(trimmed).normalized
+   }
+   if (!AGE_PUBKEY_REGEX.test(trimmed) && !AGE_PQ_PUBKEY_REGEX.test(trimmed)) {
+      throw new RecipientError(
+         `Invalid public key: '${trimmed}'. Expected format: age1<bech32-string>, age1pq1<bech32-string> or ssh-ed25519/ssh-rsa <base64>`
+      )
+   }
+   return trimmed
+}
+
+function normalizeRecipientKey(pubkey: string): string {
+   try {
+      return validatePublicKey(pubkey)
+   } catch {
+      return pubkey.trim()
+   }
+}
+
+/** A recipient public key with its optional human-readable label (e.g. "alice@laptop"). */
+export interface RecipientEntry {
+   key: string
+   label?: string
+}
+
+const RECIPIENT_LABEL_REGEX = /^[A-Za-z0-9._@+-]+$/
+const MAX_RECIPIENT_LABEL_LENGTH = 64
+
+// Structured `label:key` form; the key part must look like a public key so `age1...` is never split
+const LABELED_RECIPIENT_REGEX = /^([A-Za-z0-9._@+-]+):((?:age1|ssh-).*)$/
+
+export function validateRecipientLabel(label: string): string {
+   const trimmed = label.trim()
+   if (!RECIPIENT_LABEL_REGEX.test(trimmed) || trimmed.length > MAX_RECIPIENT_LABEL_LENGTH) {
+      throw new ValidationError(
+         `Invalid recipient label: '${label}'. Use letters, numbers, '.', '_', '@', '+' and '-' (max ${MAX_RECIPIENT_LABEL_LENGTH} characters).`
+      )
    }
    return trimmed
 }
 
+/**
+ * Parses a `_RECIPIENT` value. Three forms are accepted:
+ * `age1...` (bare key), `age1... # alice@laptop` (trailing label) and `alice@laptop:age1...`.
+ * The key is returned as written; callers validate it.
+ */
+export function parseRecipientEntry(value: string): RecipientEntry {
+   const trimmed = value.trim()
+
+   const hashIndex = trimmed.indexOf("#")
+   if (hashIndex !== -1) {
+      const label = trimmed.slice(hashIndex + 1).trim()
+      return { key: trimmed.slice(0, hashIndex).trim(), label: label || undefined }
+   }
+
+   const structured = LABELED_RECIPIENT_REGEX.exec(trimmed)
+   if (structured) {
+      return { key: structured[2].trim(), label: structured[1] }
+   }
+
+   return { key: trimmed }
+}
+
+/** Formats a recipient for a `_RECIPIENT` line, using the trailing `# label` form. */
+export function formatRecipientEntry(entry: RecipientEntry): string {
+   return entry.label ? `${entry.key} # ${entry.label}` : entry.key
+}
+
+function readRecipientEntries(envPath: string): RecipientEntry[] {
+   if (!fs.existsSync(envPath)) {
+      return []
+   }
+   return parseEnvFile(envPath)
+      .lines.filter((line) => line.key === RECIPIENT_METADATA_KEY)
+      .map((line) => parseRecipientEntry(line.value))
+}
+
+function readRecipientKeys(envPath: string): string[] {
+   return readRecipientEntries(envPath).map((entry) => entry.key)
+}
+
+/**
+ * Returns the file whose `_RECIPIENT` lines apply: the active environment's file if it declares
+ * any, otherwise the base .secenvs it is layered over.
+ */
+function getRecipientsPath(projectDir: string): string {
+   const envPath = getEnvPath(projectDir)
+   return readRecipientEntries(envPath).length > 0 ? envPath : getBaseEnvPath(projectDir)
+}
+
+/**
+ * Returns the recipients declared in a project's .secenvs with their labels.
+ * Unlike loadRecipients, there is no fallback to the local identity.
+ */
+export function loadRecipientEntries(projectDir: string): RecipientEntry[] {
+   return readRecipientEntries(getRecipientsPath(projectDir)).map((entry) => ({
+      ...entry,
+      key: validatePublicKey(entry.key),
+   }))
+}
+
+/**
+ * Finds the recipients matching a public key or a label. A label may match several keys,
+ * e.g. every key trusted from one person's GitHub keys file.
+ */
+export function findRecipients(entries: RecipientEntry[], keyOrLabel: string): RecipientEntry[] {
+   const ref = keyOrLabel.trim()
+   let key: string | null = null
+   try {
+      key = validatePublicKey(ref)
+   } catch {
+      // Not a key, match by label only
+   }
+   return entries.filter((entry) => (key !== null && entry.key === key) || entry.label === ref)
+}
+
+function readKnownSigners(): Record<string, string> {
+   const knownPath = path.join(getKeysDir(), KNOWN_SIGNERS_FILE)
+   if (!fs.existsSync(knownPath)) {
+      return {}
+   }
+   try {
+      return JSON.parse(fs.readFileSync(knownPath, "utf-8"))
+   } catch {
+      throw new FileError(`Could not read ${knownPath}. Delete it to start trusting signers afresh.`)
+   }
+}
+
+/**
+ * Pins the signing key a recipient signs with on this machine. A signer that is already pinned
+ * keeps its first key; returns false if that key differs.
+ */
+export function rememberRecipientSigner(signature: RecipientSignature): boolean {
+   const known = readKnownSigners()
+   const pinned = known[signature.signer]
+   if (pinned) {
+      return pinned === signature.signingKey
+   }
+   ensureSecenvDir()
+   known[signature.signer] = signature.signingKey
+   fs.writeFileSync(path.join(getKeysDir(), KNOWN_SIGNERS_FILE), JSON.stringify(known, null, 2) + "\n", {
+      mode: 0o600,
+   })
+   return true
+}
+
+function knownListsPath(): string {
+   return path.join(getKeysDir(), KNOWN_LISTS_FILE)
+}
+
+function readKnownLists(): Record<string, string[]> {
+   if (!fs.existsSync(knownListsPath())) {
+      return {}
+   }
+   try {
+      return JSON.parse(fs.readFileSync(knownListsPath(), "utf-8"))
+   } catch {
+      throw new FileError(`Could not read ${knownListsPath()}. Delete it to start trusting lists afresh.`)
+   }
+}
+
+/** The same file under one name however it is reached, e.g. through a symlinked directory. */
+function knownListId(source: string): string {
+   const resolved = path.resolve(source)
+   return fs.existsSync(resolved) ? fs.realpathSync(resolved) : resolved
+}
+
+/**
+ * Records a recipient list this machine accepted or signed, kept at `source` (the file it lives in):
+ * its keys and its signer are who may sign the next version of it.
+ */
+export function rememberRecipientList(source: string, signature: RecipientSignature, keys: string[]): void {
+   const members = [...new Set([...keys, signature.signer])]
+   const lists = readKnownLists()
+   const id = knownListId(source)
+   if (JSON.stringify(lists[id]) === JSON.stringify(members)) {
+      return
+   }
+   ensureSecenvDir()
+   lists[id] = members
+   fs.writeFileSync(knownListsPath(), JSON.stringify(lists, null, 2) + "\n", { mode: 0o600 })
+}
+
+/**
+ * Returns the `_SIGNATURE` of a project's recipient list, or null if it is unsigned.
+ */
+export function readRecipientSignature(projectDir: string): RecipientSignature | null {
+   return readSignatureOf(getRecipientsPath(projectDir))
+}
+
+function readSignatureOf(envPath: string): RecipientSignature | null {
+   if (!fs.existsSync(envPath)) {
+      return null
+   }
+   const lines = parseEnvFile(envPath).lines.filter((line) => line.key === SIGNATURE_METADATA_KEY)
+   if (lines.length > 1) {
+      throw new RecipientError(`${envPath} has more than one ${SIGNATURE_METADATA_KEY} line`)
+   }
+   if (lines.length === 0) {
+      return null
+   }
+   const signature = parseRecipientSignature(lines[0].value)
+   if (!signature) {
+      throw new RecipientError(`Invalid ${SIGNATURE_METADATA_KEY} entry on line ${lines[0].lineNumber}`)
+   }
+   return signature
+}
+
+/**
+ * Checks that a project's recipient list is signed, unmodified since, and signed by someone this
+ * machine trusts. Throws RecipientError otherwise.
+ *
+ * A signer's key is pinned the first time it is seen. Once this machine has accepted a version of
+ * the list, the next one must be signed by a pinned key that was on it: anyone else, even with a
+ * list of only their own keys, has to be reviewed with `secenvs recipients sign`. A list this
+ * machine has not accepted before (a fresh clone) is accepted from a new signer only when none of
+ * its recipients has signed here either.
+ */
+export function verifyRecipientSignature(projectDir: string): RecipientSignature {
+   return verifySignatureOf(getRecipientsPath(projectDir))
+}
+
+function verifySignatureOf(envPath: string): RecipientSignature {
+   return checkRecipientSignature(
+      envPath,
+      readSignatureOf(envPath),
+      readRecipientKeys(envPath).map((k) => validatePublicKey(k)),
+      `The recipient list in ${envPath}`,
+      "Review the _RECIPIENT lines, then run 'secenvs recipients sign'."
+   )
+}
+
+/**
+ * Applies the rules of verifyRecipientSignature to any signed recipient list, e.g. a shared vault's.
+ * `source` is the file the list is kept in, `list` names it in error messages and `review` says
+ * how to accept it.
+ */
+export function checkRecipientSignature(
+   source: string,
+   signature: RecipientSignature | null,
+   keys: string[],
+   list: string,
+   review: string
+): RecipientSignature {
+   if (!signature) {
+      throw new RecipientError(`${list} is not signed. ${review}`)
+   }
+   if (!verifyRecipientList(signature, keys)) {
+      throw new RecipientError(`${list} was changed after it was signed. ${review}`)
+   }
+
+   const known = readKnownSigners()
+   const accepted = readKnownLists()[knownListId(source)]
+   if (!known[signature.signer] && (accepted || keys.some((key) => known[key]))) {
+      throw new RecipientError(
+         `${list} was signed by ${signature.signer}, who has not signed a list on this machine before. ${review}`
+      )
+   }
+   if (accepted && !accepted.includes(signature.signer)) {
+      throw new RecipientError(
+         `${list} was signed by ${signature.signer}, who was not a recipient of the version this machine accepted. ${review}`
+      )
+   }
+   if (!rememberRecipientSigner(signature)) {
+      throw new RecipientError(
+         `${list} claims to be signed by ${signature.signer}, but with a different signing key than before. ${review}`
+      )
+   }
+   rememberRecipientList(source, signature, keys)
+   return signature
+}
+
+/**
+ * Returns the recipients a project's secrets are encrypted to. A declared recipient list must
+ * carry a valid signature (see verifyRecipientSignature); without one, the local identity is
+ * the only recipient. An environment file without `_RECIPIENT` lines uses the base file's list.
+ */
 export async function loadRecipients(projectDir: string): Promise<string[]> {
-   const envPath = path.join(projectDir, ".secenvs")
+   const envPath = getRecipientsPath(projectDir)
 
    // 1. Load from .secenvs
-   if (fs.existsSync(envPath)) {
-      const parsed = parseEnvFile(envPath)
-      const keys = parsed.lines
-         .filter((line) => line.key === RECIPIENT_METADATA_KEY)
-         .map((line) => line.value.trim())
-
-      if (keys.length > 0) {
-         return keys.map((k) => validatePublicKey(k))
-      }
+   const keys = readRecipientKeys(envPath)
+   if (keys.length > 0) {
+      const validated = keys.map((k) => validatePublicKey(k))
+      verifyRecipientSignature(projectDir)
+      return validated
    }
 
    // 2. Fallback: single-recipient from local identity
@@ -114,32 +824,71 @@ export async function loadRecipients(projectDir: string): Promise<string[]> {
 }
 
 /**
- * Writes the recipients list directly into the .secenvs file.
+ * Writes the recipients list directly into the .secenvs file of the active environment.
  * This preserves comments and existing secrets while updating the recipient block.
+ * Keys passed without a label keep the label they already have in the file.
+ *
+ * The list is signed with `options.identity`, or the active identity if there is one; without
+ * an identity it is written unsigned and loadRecipients will refuse it until it is signed.
  */
-export async function saveRecipients(projectDir: string, pubkeys: string[]): Promise<void> {
-   const normalizedKeys = pubkeys.map((k) => validatePublicKey(k))
-   const envPath = path.join(projectDir, ".secenvs")
+export async function saveRecipients(
+   projectDir: string,
+   pubkeys: (string | RecipientEntry)[],
+   options: { identity?: string } = {}
+): Promise<void> {
+   const entries = pubkeys.map((k) => (typeof k === "string" ? { key: k } : k))
+   const normalizedEntries = entries.map((entry) => ({
+      key: validatePublicKey(entry.key),
+      label: entry.label !== undefined ? validateRecipientLabel(entry.label) : undefined,
+   }))
+   const envPath = getEnvPath(projectDir)
+
+   const identity = options.identity ?? (identityExists() ? await loadIdentity() : null)
+   const signature =
+      identity && normalizedEntries.length > 0
+         ? signRecipientList(
+              deriveSigningKey(identity),
+              await getPublicKey(identity.trim()),
+              normalizedEntries.map((entry) => entry.key)
+           )
+         : null
+
+   const updateMac = await createMacUpdater(envPath, { identity: identity ?? undefined })
 
    await withLock(envPath, async () => {
       const content = fs.existsSync(envPath) ? safeReadFile(envPath) : ""
       const lines = content.split("\n")
 
-      // 1. Remove existing _RECIPIENT lines
+      const existingLabels = new Map<string, string>()
+      for (const line of lines) {
+         const trimmed = line.trim()
+         if (!trimmed.startsWith(`${RECIPIENT_METADATA_KEY}=`)) continue
+         const entry = parseRecipientEntry(trimmed.slice(RECIPIENT_METADATA_KEY.length + 1))
+         if (entry.label) {
+            existingLabels.set(normalizeRecipientKey(entry.key), entry.label)
+         }
+      }
+
+      // 1. Remove existing _RECIPIENT lines and the signature over them
       const otherLines = lines.filter((line) => {
          const trimmed = line.trim()
          if (!trimmed || trimmed.startsWith("#")) return true
          const eqIndex = trimmed.indexOf("=")
          if (eqIndex === -1) return true
-         return trimmed.slice(0, eqIndex).trim() !== RECIPIENT_METADATA_KEY
+         const key = trimmed.slice(0, eqIndex).trim()
+         return key !== RECIPIENT_METADATA_KEY && key !== SIGNATURE_METADATA_KEY
       })
 
       // 2. Add new _RECIPIENT lines (usually at the top for visibility, but we'll append for safety if not found)
       // Actually, let's put them at the top after any initial comments
       const newLines: string[] = []
 
-      for (const key of normalizedKeys) {
-         newLines.push(`${RECIPIENT_METADATA_KEY}=${key}`)
+      for (const entry of normalizedEntries) {
+         const label = entry.label ?? existingLabels.get(entry.key)
+         newLines.push(`${RECIPIENT_METADATA_KEY}=${formatRecipientEntry({ key: entry.key, label })}`)
+      }
+      if (signature) {
+         newLines.push(`${SIGNATURE_METADATA_KEY}=${formatRecipientSignature(signature)}`)
       }
 
       const finalLines = [...newLines, ...otherLines]
@@ -150,14 +899,244 @@ export async function saveRecipients(projectDir: string, pubkeys: string[]): Pro
             .replace(/\n{3,}/g, "\n\n") // Cleanup excessive whitespace
             .trim() + "\n"
 
-      await writeAtomicRaw(envPath, finalContent)
+      await writeAtomicRaw(envPath, updateMac(finalContent))
+   })
+
+   if (signature) {
+      rememberRecipientSigner(signature)
+      rememberRecipientList(
+         envPath,
+         signature,
+         normalizedEntries.map((entry) => entry.key)
+      )
+   }
+}
+
+function splitEntries(content: string): [string, string][] {
+   const entries: [string, string][] = []
+   for (const line of content.split("\n")) {
+      const trimmed = line.trim()
+      const eqIndex = trimmed.indexOf("=")
+      if (!trimmed || trimmed.startsWith("#") || eqIndex === -1) continue
+      entries.push([trimmed.slice(0, eqIndex), trimmed.slice(eqIndex + 1)])
+   }
+   return entries
+}
+
+/**
+ * Hashes every line the `_MAC` covers. Lines are sorted, so reordering the file or editing
+ * comments does not invalidate it.
+ */
+function fileDigest(content: string): string {
+   const lines = splitEntries(content)
+      .filter(([key]) => !UNSIGNED_METADATA_KEYS.includes(key))
+      .map(([key, value]) => `${key}=${value}`)
+      .sort()
+   return crypto.createHash("sha256").update(lines.join("\n")).digest("hex")
+}
+
+/**
+ * Returns the file holding the `_RECIPIENT` lines that apply to a file with this content: the
+ * file itself, or the base file. Null if neither declares any.
+ */
+function macRecipientsPath(envPath: string, content: string): string | null {
+   if (splitEntries(content).some(([key]) => key === RECIPIENT_METADATA_KEY)) {
+      return envPath
+   }
+   const basePath = getBaseEnvPath(path.dirname(envPath))
+   return fs.existsSync(basePath) && readRecipientKeys(basePath).length > 0 ? basePath : null
+}
+
+/**
+ * The keys allowed to sign a file: its own `_RECIPIENT` lines, or the base file's, plus whoever
+ * signed that recipient list (who may have just removed themselves from it).
+ */
+function macSignerKeys(envPath: string, content: string): string[] {
+   const listPath = macRecipientsPath(envPath, content)
+   if (!listPath) {
+      return []
+   }
+   const source = splitEntries(listPath === envPath ? content : safeReadFile(listPath))
+   const keys = source
+      .filter(([key]) => key === RECIPIENT_METADATA_KEY)
+      .map(([, value]) => normalizeRecipientKey(parseRecipientEntry(value).key))
+   const listSigner = source.find(([key]) => key === SIGNATURE_METADATA_KEY)
+   const signer = listSigner ? parseRecipientSignature(listSigner[1])?.signer : undefined
+   return signer ? [...keys, signer] : keys
+}
+
+function replaceMacLine(content: string, value: string): string {
+   const lines = content.split("\n")
+   const isMacLine = (line: string) => line.trim().startsWith(`${MAC_METADATA_KEY}=`)
+   let insertAt = lines.findIndex(isMacLine)
+   if (insertAt === -1) {
+      // Below the recipient block, or at the top
+      lines.forEach((line, i) => {
+         const trimmed = line.trim()
+         if (
+            trimmed.startsWith(`${RECIPIENT_METADATA_KEY}=`) ||
+            trimmed.startsWith(`${SIGNATURE_METADATA_KEY}=`)
+         ) {
+            insertAt = i
+         }
+      })
+      insertAt++
+   }
+   const before = lines.slice(0, insertAt).filter((line) => !isMacLine(line))
+   const after = lines.slice(insertAt).filter((line) => !isMacLine(line))
+   return [...before, `${MAC_METADATA_KEY}=${value}`, ...after].join("\n")
+}
+
+/**
+ * Returns a function that refreshes the `_MAC` line of a .secenvs file's new content, for the
+ * `updateMac` option of setKey and deleteKey.
+ *
+ * The MAC is signed with `options.identity` or the active identity. Only a recipient of the file
+ * can make a valid one, so when there is no identity, or it is not in the file's recipient list,
+ * the content is returned unchanged.
+ */
+export async function createMacUpdater(
+   envPath: string,
+   options: { identity?: string } = {}
+): Promise<(content: string) => string> {
+   const identity = options.identity ?? (identityExists() ? await loadIdentity() : null)
+   if (!identity) {
+      return (content) => content
+   }
+   const signingKey = deriveSigningKey(identity)
+   const signer = await getPublicKey(identity.trim())
+   const environment = getEnvironmentOfPath(envPath)
+
+   return (content) => {
+      const recipients = macSignerKeys(envPath, content)
+      if (recipients.length > 0 && !recipients.includes(signer)) {
+         return content
+      }
+      const mac = signFileDigest(signingKey, signer, environment, fileDigest(content))
+      rememberRecipientSigner(mac)
+      return replaceMacLine(content, formatRecipientSignature(mac))
+   }
+}
+
+/**
+ * Signs the current content of a .secenvs file, e.g. after reviewing a change that made its
+ * `_MAC` invalid.
+ */
+export async function refreshFileMac(envPath: string, options: { identity?: string } = {}): Promise<void> {
+   const updateMac = await createMacUpdater(envPath, options)
+   await withLock(envPath, async () => {
+      const content = fs.existsSync(envPath) ? safeReadFile(envPath) : ""
+      await writeAtomicRaw(envPath, updateMac(content))
    })
 }
 
+/**
+ * Returns the `_MAC` of a .secenvs file, or null if it has none.
+ */
+export function readFileMac(envPath: string): FileMac | null {
+   const lines = parseEnvFile(envPath).lines.filter((line) => line.key === MAC_METADATA_KEY)
+   if (lines.length > 1) {
+      throw new IntegrityError(`${envPath} has more than one ${MAC_METADATA_KEY} line`)
+   }
+   if (lines.length === 0) {
+      return null
+   }
+   const mac = parseRecipientSignature(lines[0].value)
+   if (!mac) {
+      throw new IntegrityError(`Invalid ${MAC_METADATA_KEY} entry on line ${lines[0].lineNumber}`)
+   }
+   return mac
+}
+
+/**
+ * Checks a .secenvs file against its `_MAC`: no key was added, removed or replaced since a
+ * recipient of the file signed it. Returns null if the file has no `_MAC` and throws
+ * IntegrityError if it does not match.
+ *
+ * The signer must be in the file's recipient list, and that list must pass
+ * verifyRecipientSignature first, since anyone can add a `_RECIPIENT` line or replace the whole
+ * list. Its signing key must be pinned on this machine, as the list's signer is once the list
+ * verifies: a key the file supplies for a signer seen for the first time proves nothing, so such a
+ * file needs `secenvs recipients sign`.
+ * A file without `_RECIPIENT` lines can only be signed by a signer this machine already knows,
+ * unless it knows none (a fresh checkout, e.g. in CI).
+ */
+export function verifyFileMac(envPath: string): FileMac | null {
+   const mac = readFileMac(envPath)
+   if (!mac) {
+      return null
+   }
+
+   const content = safeReadFile(envPath)
+   const review = "Review the changes, then run 'secenvs recipients sign' to accept them."
+   if (!verifyFileDigest(mac, getEnvironmentOfPath(envPath), fileDigest(content))) {
+      throw new IntegrityError(
+         `${envPath} does not match its ${MAC_METADATA_KEY}: a key was added, removed or replaced since it was signed. ${review}`
+      )
+   }
+
+   const listPath = macRecipientsPath(envPath, content)
+   if (listPath) {
+      try {
+         verifySignatureOf(listPath)
+      } catch (error) {
+         if (!(error instanceof RecipientError)) {
+            throw error
+         }
+         throw new IntegrityError(`${envPath} cannot be verified: ${error.message}`)
+      }
+      if (!macSignerKeys(envPath, content).includes(mac.signer)) {
+         throw new IntegrityError(
+            `${envPath} was signed by ${mac.signer}, who is not one of its recipients. ${review}`
+         )
+      }
+      if (!readKnownSigners()[mac.signer]) {
+         throw new IntegrityError(
+            `${envPath} was signed by ${mac.signer}, whose signing key this machine has not seen before. ${review}`
+         )
+      }
+   }
+
+   const known = readKnownSigners()
+   if (!listPath && !known[mac.signer] && Object.keys(known).length > 0) {
+      throw new IntegrityError(
+         `${envPath} was signed by ${mac.signer}, who is not one of its recipients. ${review}`
+      )
+   }
+   if (known[mac.signer] && known[mac.signer] !== mac.signingKey) {
+      throw new IntegrityError(
+         `${envPath} claims to be signed by ${mac.signer}, but with a different signing key than before. ${review}`
+      )
+   }
+   return mac
+}
+
+/**
+ * Pins the signing key behind a .secenvs file's current `_MAC` once someone has reviewed the file
+ * with `secenvs recipients sign`, so later changes by the same recipient verify. Returns false if
+ * that recipient is pinned to a different key; a `_MAC` that does not match, or whose signer is
+ * not a recipient, is ignored.
+ */
+export function rememberFileMacSigner(envPath: string): boolean {
+   const mac = fs.existsSync(envPath) ? readFileMac(envPath) : null
+   if (!mac) {
+      return true
+   }
+   const content = safeReadFile(envPath)
+   if (
+      !verifyFileDigest(mac, getEnvironmentOfPath(envPath), fileDigest(content)) ||
+      !macSignerKeys(envPath, content).includes(mac.signer)
+   ) {
+      return true
+   }
+   return rememberRecipientSigner(mac)
+}
+
 /**
  * Encrypt plaintext to one or more age public-key recipients.
  *
- * @param recipients - Age X25519 public keys (e.g. "age1...").
+ * @param recipients - Age X25519 or post-quantum hybrid public keys (e.g. "age1...", "age1pq1..."),
+ *                     or SSH public keys ("ssh-ed25519 ...").
  *                     Pass a single-element array for the Phase-1 / single-recipient path.
  * @param plaintext  - Data to encrypt.
  *
@@ -176,7 +1155,7 @@ export async function encrypt(
    const encrypter = new age.Encrypter()
    for (const pubkey of recipients) {
       const normalized = validatePublicKey(pubkey)
-      encrypter.addRecipient(normalized)
+      encrypter.addRecipient(isSshPublicKey(normalized) ? sshRecipient(normalized) : normalized)
    }
 
    const data = typeof plaintext === "string" ? Buffer.from(plaintext) : plaintext
@@ -187,10 +1166,29 @@ export async function encrypt(
    return Buffer.from(encryptedBytes).toString("base64")
 }
 
-export async function decrypt(identity: string, encryptedMessage: string): Promise<Buffer> {
+// What age reports when a file is not encrypted to any of the identities it was given
+const NO_MATCHING_IDENTITY_MESSAGE = "no identity matched any of the file's recipients"
+
+/**
+ * Returns true if `decrypt` failed because the value is not encrypted to any of the identities,
+ * rather than because it is corrupted.
+ */
+export function isNoMatchingIdentityError(error: unknown): boolean {
+   return error instanceof DecryptionError && error.message.includes(NO_MATCHING_IDENTITY_MESSAGE)
+}
+
+/**
+ * Decrypt a value with one identity, or with the first of several identities that matches.
+ */
+export async function decrypt(
+   identity: AgeIdentity | AgeIdentity[],
+   encryptedMessage: string
+): Promise<Buffer> {
    try {
       const decrypter = new age.Decrypter()
-      decrypter.addIdentity(identity)
+      for (const candidate of Array.isArray(identity) ? identity : [identity]) {
+         decrypter.addIdentity(candidate)
+      }
       const armoredStream = stream(Buffer.from(encryptedMessage, "base64"))
       const decryptedStream = await decrypter.decrypt(armoredStream)
       const decryptedBytes = await readAll(decryptedStream)
@@ -200,7 +1198,10 @@ export async function decrypt(identity: string, encryptedMessage: string): Promi
    }
 }
 
-export async function decryptString(identity: string, encryptedMessage: string): Promise<string> {
+export async function decryptString(
+   identity: AgeIdentity | AgeIdentity[],
+   encryptedMessage: string
+): Promise<string> {
    const buffer = await decrypt(identity, encryptedMessage)
    return buffer.toString("utf-8")
 }
@@ -2,7 +2,7 @@ import * as fs from "node:fs"
 import * as crypto from "node:crypto"
 import { AUDIT_METADATA_KEY, getPublicKey, identityExists, loadIdentity } from "./age.js"
 import { safeReadFile } from "./filesystem.js"
-import { getEnvPath, withLock, writeAtomicRaw } from "./parse.js"
+import { getEnvPath, isEnvFilePath, withLock, writeAtomicRaw } from "./parse.js"
 
 export interface AuditEntry {
    hash: string
@@ -32,7 +32,7 @@ function computeHash(
 export async function appendAuditLog(action: string, key: string = "-", filePath?: string): Promise<void> {
    const envPath = filePath || getEnvPath()
    // If it's the global vault or a non-standard file, use a sidecar audit file to avoid corrupting binary data
-   const auditFilePath = filePath && !filePath.endsWith(".secenvs") ? `${envPath}.audit` : envPath
+   const auditFilePath = filePath && !isEnvFilePath(filePath) ? `${envPath}.audit` : envPath
 
    if (!fs.existsSync(envPath) && !filePath) return
 
@@ -70,7 +70,7 @@ export async function appendAuditLog(action: string, key: string = "-", filePath
  */
 export function readAuditLog(filePath?: string): AuditEntry[] {
    const envPath = filePath || getEnvPath()
-   const auditFilePath = filePath && !filePath.endsWith(".secenvs") ? `${envPath}.audit` : envPath
+   const auditFilePath = filePath && !isEnvFilePath(filePath) ? `${envPath}.audit` : envPath
 
    if (!fs.existsSync(auditFilePath)) return []
 
@@ -0,0 +1,148 @@
+import * as fs from "node:fs"
+import {
+   encrypt,
+   decryptString,
+   encryptWithPassphrase,
+   decryptWithPassphrase,
+   isPassphraseEncrypted,
+   armorEncrypted,
+   dearmorEncrypted,
+   loadIdentity,
+   loadIdentities,
+   getPublicKey,
+   getActiveIdentityName,
+   getKeyPath,
+   saveIdentity,
+   setActiveIdentity,
+   identityExists,
+   validateIdentityName,
+   validatePublicKey,
+} from "./age.js"
+import { ValidationError } from "./errors.js"
+import { loadVault, validateVaultName } from "./vault.js"
+
+/**
+ * Vault bundles move vaults, and optionally the identity, to another machine in one age file:
+ * `secenvs vault export` writes one encrypted to a public key or a passphrase, and
+ * `secenvs vault import` merges it into the local vaults. A bundle holds the current value of each
+ * key; history and the recipients a vault is shared with stay on the machine it came from.
+ */
+
+/**
+ * Environment variable holding a bundle's passphrase. It is deliberately not SECENV_PASSPHRASE, so
+ * an identity passphrase kept in the environment never protects a bundle without anyone asking.
+ */
+export const BUNDLE_PASSPHRASE_ENV_VAR = "SECENV_BUNDLE_PASSPHRASE"
+
+const BUNDLE_FORMAT = "secenvs-vault-bundle"
+const BUNDLE_VERSION = 1
+
+export interface VaultBundle {
+   format: string
+   version: number
+   createdAt: string
+   /** Keys and values, by vault name. */
+   vaults: Record<string, Record<string, string>>
+   identity?: { name: string; key: string }
+}
+
+/** Who can open a bundle: the holder of a public key, or anyone who knows the passphrase. */
+export type BundleTarget = { recipient: string } | { passphrase: string }
+
+/**
+ * Collects the given vaults, and the active identity if asked, into a bundle.
+ */
+export async function createVaultBundle(
+   names: string[],
+   options: { includeIdentity?: boolean } = {}
+): Promise<VaultBundle> {
+   const vaults: Record<string, Record<string, string>> = {}
+   for (const name of names) {
+      vaults[name] = Object.fromEntries(await loadVault(name))
+   }
+
+   const bundle: VaultBundle = {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      createdAt: new Date().toISOString(),
+      vaults,
+   }
+   if (options.includeIdentity) {
+      bundle.identity = { name: getActiveIdentityName(), key: (await loadIdentity()).trim() }
+   }
+   return bundle
+}
+
+/**
+ * Encrypts a bundle and returns it as an ASCII-armored age file.
+ */
+export async function encryptVaultBundle(bundle: VaultBundle, target: BundleTarget): Promise<string> {
+   const content = JSON.stringify(bundle)
+   if ("passphrase" in target) {
+      return encryptWithPassphrase(content, target.passphrase)
+   }
+   return armorEncrypted(await encrypt([validatePublicKey(target.recipient)], content))
+}
+
+/**
+ * Decrypts a bundle with the local identities, or with the passphrase from `readPassphrase` if it
+ * was encrypted to one.
+ */
+export async function decryptVaultBundle(
+   armored: string,
+   readPassphrase: () => Promise<string>
+): Promise<VaultBundle> {
+   const content = isPassphraseEncrypted(armored)
+      ? await decryptWithPassphrase(armored, await readPassphrase())
+      : await decryptString(await loadIdentities(), dearmorEncrypted(armored))
+   return parseVaultBundle(content)
+}
+
+function parseVaultBundle(content: string): VaultBundle {
+   let bundle: VaultBundle
+   try {
+      bundle = JSON.parse(content) as VaultBundle
+   } catch {
+      throw new ValidationError("Not a secenvs vault bundle.")
+   }
+   if (bundle?.format !== BUNDLE_FORMAT || typeof bundle.vaults !== "object" || !bundle.vaults) {
+      throw new ValidationError("Not a secenvs vault bundle.")
+   }
+   if (bundle.version > BUNDLE_VERSION) {
+      throw new ValidationError(
+         `Vault bundle version ${bundle.version} is newer than this secenvs supports (${BUNDLE_VERSION}). Upgrade secenvs.`
+      )
+   }
+   for (const name of Object.keys(bundle.vaults)) {
+      validateVaultName(name)
+   }
+   if (bundle.identity) {
+      validateIdentityName(bundle.identity.name)
+   }
+   return bundle
+}
+
+/**
+ * Installs the identity carried by a bundle under its original name, protected with the passphrase
+ * from `readPassphrase` if one is given and stored unencrypted otherwise. An identity already stored
+ * under that name is never overwritten: the result is "present" if it is the same key and
+ * "conflict" if it is a different one. An installed identity becomes the active one if there is none.
+ */
+export async function installBundleIdentity(
+   identity: NonNullable<VaultBundle["identity"]>,
+   readPassphrase?: () => Promise<string>
+): Promise<"installed" | "present" | "conflict"> {
+   const publicKey = await getPublicKey(identity.key)
+   if (fs.existsSync(getKeyPath(identity.name))) {
+      const existing = await loadIdentity(identity.name)
+         .then((key) => getPublicKey(key.trim()))
+         .catch(() => null)
+      return existing === publicKey ? "present" : "conflict"
+   }
+   const passphrase = readPassphrase ? await readPassphrase() : undefined
+   await saveIdentity(identity.key, { name: identity.name, passphrase })
+   if (!identityExists()) {
+      setActiveIdentity(identity.name)
+   }
+   return "installed"
+}
@@ -1,6 +1,7 @@
 import * as fs from "node:fs"
 import * as path from "node:path"
 import * as readline from "node:readline"
+import { isUtf8 } from "node:buffer"
 import {
    generateIdentity,
    saveIdentity,
@@ -14,18 +15,95 @@ import {
    loadRecipients,
    saveRecipients,
    validatePublicKey,
+   readIdentityFile,
+   isProtectedIdentity,
+   wrapIdentity,
+   readPassphrase,
+   loadIdentities,
+   listIdentities,
+   setActiveIdentity,
+   getKeyPath,
+   validateIdentityName,
+   IDENTITY_HINT_METADATA_KEY,
+   isPostQuantumRecipient,
+   unwrapIdentity,
+   getKeysDir,
+   getActiveIdentityName,
+   archiveIdentity,
+   AgeIdentity,
+   RecipientEntry,
+   parseRecipientEntry,
+   validateRecipientLabel,
+   loadRecipientEntries,
+   findRecipients,
+   RECIPIENT_METADATA_KEY,
+   readRecipientSignature,
+   verifyRecipientSignature,
+   createMacUpdater,
+   refreshFileMac,
+   verifyFileMac,
+   rememberFileMacSigner,
+   rememberRecipientSigner,
 } from "./age.js"
-import { vaultGet, vaultSet, vaultDelete, listVaultKeys, getVaultPath } from "./vault.js"
+import { verifyRecipientList } from "./signing.js"
+import { sealValue, openValue, openEnvelope, isSealedValue, OpenedValue } from "./envelope.js"
+import {
+   vaultGet,
+   vaultSet,
+   vaultDelete,
+   listVaultKeys,
+   listVaults,
+   getVaultPath,
+   rekeyVault,
+   vaultTrust,
+   vaultUntrust,
+   vaultSign,
+   readVaultSignature,
+   linkVault,
+   vaultHistory,
+   vaultRestore,
+   vaultImport,
+   VaultConflictChoice,
+   listVaultRecipients,
+   validateVaultName,
+   DEFAULT_VAULT_NAME,
+} from "./vault.js"
 import {
    parseEnvFile,
    setKey,
    deleteKey,
    findKey,
    getEnvPath,
+   getEnvPaths,
+   getProjectDir,
+   resolveProjectDir,
+   ENV_FILE_ENV_VAR,
+   getBaseEnvPath,
+   listEnvironments,
+   validateEnvironmentName,
+   ENVIRONMENT_ENV_VAR,
+   getEnvironmentOfPath,
+   ParsedLine,
+   KeyAnnotations,
    isEncryptedValue,
+   isVaultReference,
+   parseVaultReference,
    writeAtomic,
+   writeAtomicRaw,
+   withLock,
    cleanupTempFiles,
 } from "./parse.js"
+import { formatEnvContent } from "./format.js"
+import { recordVaultUsage, findVaultUsages } from "./registry.js"
+import {
+   createVaultBundle,
+   encryptVaultBundle,
+   decryptVaultBundle,
+   installBundleIdentity,
+   BundleTarget,
+   BUNDLE_PASSPHRASE_ENV_VAR,
+} from "./bundle.js"
+import { safeReadFile } from "./filesystem.js"
 import { parseDotenvFallback, DotenvLine } from "./dotenv-parser.js"
 import {
    IdentityNotFoundError,
@@ -39,11 +117,60 @@ import {
    RecipientError,
    VaultError,
 } from "./errors.js"
-import { validateKey, validateValue } from "./validators.js"
+import { validateKey, validateValue, validateBinaryValue } from "./validators.js"
 import { installHooks, uninstallHooks } from "./hooks.js"
+import { findReferences } from "./interpolate.js"
 import { appendAuditLog, readAuditLog } from "./audit.js"
+import {
+   loadGroups,
+   loadKeyAccess,
+   saveGroups,
+   setKeyAccess,
+   groupRecipients,
+   resolveKeyRecipients,
+   validateGroupName,
+   loadPendingRequests,
+   savePendingRequests,
+   PendingRequest,
+} from "./access.js"
+import {
+   splitSecret,
+   combineShares,
+   encodeShare,
+   decodeShare,
+   publicKeyFingerprint,
+   IdentityShare,
+} from "./shamir.js"
 
 const ENCRYPTED_PREFIX = "enc:age:"
+const BACKUP_WORDS_PER_LINE = 8
+
+/**
+ * Encrypts a value bound to its key name and to the environment of the file it goes into, and
+ * returns the full `enc:age:` value.
+ */
+async function encryptSecret(
+   recipients: string[],
+   key: string,
+   envPath: string,
+   value: string | Uint8Array,
+   options: { binary?: boolean } = {}
+): Promise<string> {
+   const sealed = sealValue(key, getEnvironmentOfPath(envPath), value, options)
+   return `${ENCRYPTED_PREFIX}${await encryptValue(recipients, sealed)}`
+}
+
+/**
+ * Decrypts an `enc:age:` line read from `envPath`, checking that it was encrypted for that key.
+ */
+async function decryptSecret(
+   identities: AgeIdentity[],
+   line: ParsedLine,
+   envPath: string
+): Promise<OpenedValue> {
+   const plaintext = await decryptValue(identities, line.value.slice(ENCRYPTED_PREFIX.length))
+   return openEnvelope(line.key, getEnvironmentOfPath(envPath), plaintext)
+}
 
 function print(msg: string, color: string = "reset", isError: boolean = false) {
    const colors: Record<string, string> = {
@@ -74,20 +201,25 @@ function printInfo(msg: string) {
    print(`ℹ ${msg}`, "cyan")
 }
 
+function readStdin(): Promise<string> {
+   return new Promise((resolve, reject) => {
+      let data = ""
+      process.stdin.setEncoding("utf-8")
+      process.stdin.on("data", (chunk) => {
+         data += chunk
+      })
+      process.stdin.on("end", () => {
+         resolve(data)
+      })
+      process.stdin.on("error", reject)
+   })
+}
+
 async function promptSecret(promptText: string): Promise<string> {
    if (!process.stdin.isTTY) {
       // For piped input, read everything from stdin asynchronously
-      return new Promise((resolve, reject) => {
-         let data = ""
-         process.stdin.setEncoding("utf-8")
-         process.stdin.on("data", (chunk) => {
-            data += chunk
-         })
-         process.stdin.on("end", () => {
-            resolve(data.replace(/\r?\n$/, "")) // Remove only the last newline
-         })
-         process.stdin.on("error", reject)
-      })
+      const data = await readStdin()
+      return data.replace(/\r?\n$/, "") // Remove only the last newline
    }
 
    const rl = readline.createInterface({
@@ -124,24 +256,33 @@ async function confirm(message: string): Promise<boolean> {
    return answer.toLowerCase() === "y" || answer.toLowerCase() === "yes"
 }
 
-async function cmdInit() {
+async function cmdInit(usePassphrase: boolean = false, pq: boolean = false) {
    if (identityExists()) {
       printWarning('Identity already exists. Run "secenvs doctor" to check.')
       return
    }
 
-   printInfo("Generating identity key...")
-   const identity = await generateIdentity()
-   const keyPath = await saveIdentity(identity)
-   printSuccess(`Identity created at ${keyPath}`)
+   const passphrase = usePassphrase
+      ? await readPassphrase("Passphrase to protect your identity: ", { confirm: true })
+      : undefined
+
+   printInfo(pq ? "Generating post-quantum hybrid identity key..." : "Generating identity key...")
+   const identity = await generateIdentity({ pq })
+   const keyPath = await saveIdentity(identity, { passphrase })
+   printSuccess(`Identity created at ${keyPath}${passphrase ? " (passphrase-protected)" : ""}`)
 
    const envPath = getEnvPath()
+   const { dir, reason } = resolveProjectDir()
    if (!fs.existsSync(envPath)) {
       await writeAtomic(envPath, "")
       printSuccess(`Created ${envPath}`)
+   } else if (dir !== process.cwd()) {
+      printInfo(
+         `Using the existing ${envPath} (${reason}). To keep this directory's secrets separate, create an empty .secenvs here.`
+      )
    }
 
-   const gitignorePath = path.join(process.cwd(), ".gitignore")
+   const gitignorePath = path.join(getProjectDir(), ".gitignore")
    let gitignoreContent = ""
    if (fs.existsSync(gitignorePath)) {
       gitignoreContent = fs.readFileSync(gitignorePath, "utf-8")
@@ -164,8 +305,18 @@ async function cmdInit() {
    await appendAuditLog("INIT")
 }
 
-async function cmdSet(key: string, value?: string, isBase64: boolean = false) {
+/** Reads a value for `set --file`, unchanged (newlines and binary content included). */
+function readValueFile(filePath: string): Buffer {
+   try {
+      return fs.readFileSync(filePath)
+   } catch (error: any) {
+      throw new FileError(`Failed to read ${filePath}: ${error.message}`)
+   }
+}
+
+async function cmdSet(key: string, value?: string | Buffer, isBase64: boolean = false, groups?: string[]) {
    validateKey(key)
+   const scope = groups?.map((name) => validateGroupName(name))
 
    if (!identityExists()) {
       throw new IdentityNotFoundError(getDefaultKeyPath())
@@ -176,64 +327,148 @@ async function cmdSet(key: string, value?: string, isBase64: boolean = false) {
    if (secretValue === undefined) {
       secretValue = await promptSecret(`Enter value for ${key}: `)
    }
+   if (Buffer.isBuffer(secretValue) && isUtf8(secretValue)) {
+      secretValue = secretValue.toString("utf-8")
+   }
 
-   validateValue(secretValue, { isBase64 })
-
-   const recipients = await loadRecipients(process.cwd())
-   const dataToEncrypt = isBase64 ? Buffer.from(secretValue, "base64") : secretValue
-   const encrypted = await encryptValue(recipients, dataToEncrypt)
-   const encryptedValue = `${ENCRYPTED_PREFIX}${encrypted}`
+   let dataToEncrypt: string | Buffer
+   if (Buffer.isBuffer(secretValue)) {
+      validateBinaryValue(secretValue)
+      dataToEncrypt = secretValue
+   } else {
+      validateValue(secretValue, { isBase64, multiline: true })
+      dataToEncrypt = isBase64 ? Buffer.from(secretValue, "base64") : secretValue
+   }
+   // Bytes that are not UTF-8 text are marked binary so get() does not corrupt them
+   const binary = Buffer.isBuffer(dataToEncrypt) && !isUtf8(dataToEncrypt)
 
    const envPath = getEnvPath()
-   await setKey(envPath, key, encryptedValue)
+   const projectRecipients = await loadRecipients(getProjectDir())
+   const ownKey = await getPublicKey(await loadIdentity())
+   // A list that no longer holds your key would take every secret you set from you
+   if (!projectRecipients.includes(ownKey)) {
+      throw new RecipientError(
+         `Your identity (${ownKey}) is not in the recipient list of ${envPath}, so you could not read ${key} back. Check the _RECIPIENT lines; if you are waiting for access, ask a recipient to run 'secenvs approve'.`
+      )
+   }
+   const recipients = scope
+      ? groupRecipients(loadGroups(getProjectDir()), scope, projectRecipients)
+      : await resolveKeyRecipients(getProjectDir(), key)
+   verifyFileMac(envPath)
+   const encryptedValue = await encryptSecret(recipients, key, envPath, dataToEncrypt, { binary })
+
+   await setKey(envPath, key, encryptedValue, { updateMac: await createMacUpdater(envPath) })
+   if (scope) {
+      await setKeyAccess(getProjectDir(), key, scope)
+   }
+   if (typeof secretValue === "string" && isVaultReference(secretValue)) {
+      // The registry is only an index for `vault usages`; failing to update it must not fail the write
+      await recordVaultUsage(envPath, key, secretValue).catch(() => {})
+   }
    await appendAuditLog("SET", key)
    printSuccess(
-      `Encrypted and stored ${key} (${recipients.length} recipient${recipients.length > 1 ? "s" : ""})`
+      `Encrypted and stored ${key}${binary ? " as binary" : ""} (${recipients.length} recipient${recipients.length > 1 ? "s" : ""})`
    )
+
+   if (scope) {
+      if (!recipients.includes(ownKey)) {
+         printWarning(`You are not in group ${scope.join(", ")}; you will not be able to read ${key}.`)
+      }
+   }
 }
 
-async function cmdGet(key: string) {
+/**
+ * Prints a value. Binary values are printed base64-encoded unless `raw` is set, which writes the
+ * exact bytes (for `secenvs get KEY --raw > cert.p12`).
+ */
+async function cmdGet(key: string, raw: boolean = false) {
    validateKey(key)
 
-   if (!identityExists()) {
-      throw new IdentityNotFoundError(getDefaultKeyPath())
-   }
-
-   const identity = await loadIdentity()
    const envPath = getEnvPath()
-
-   if (!fs.existsSync(envPath)) {
-      throw new SecretNotFoundError(key)
+   const identities = await loadIdentities(envPath)
+
+   // The environment's file overrides the base .secenvs, and each overrides the files it includes
+   let line: ParsedLine | null = null
+   let sourcePath = envPath
+   for (const candidate of getEnvPaths()) {
+      if (!fs.existsSync(candidate)) continue
+      line = findKey(parseEnvFile(candidate, { followIncludes: true }), key)
+      if (line) {
+         sourcePath = line.source ?? candidate
+         break
+      }
    }
 
-   const parsed = parseEnvFile(envPath)
-   const line = findKey(parsed, key)
-
    if (!line) {
       throw new SecretNotFoundError(key)
    }
 
    if (line.encrypted) {
-      const decrypted = await decryptValue(identity, line.value.slice(ENCRYPTED_PREFIX.length))
-      process.stdout.write(decrypted.toString("utf-8"))
+      const { value, binary } = await decryptSecret(identities, line, sourcePath)
+      process.stdout.write(raw ? value : value.toString(binary ? "base64" : "utf-8"))
    } else {
       process.stdout.write(line.value)
    }
 }
 
-async function cmdList() {
-   const envPath = getEnvPath()
+/** `doctor` warns about secrets whose `@expires` date is this close. */
+const EXPIRY_WARNING_DAYS = 30
 
-   if (!fs.existsSync(envPath)) {
-      return
+/** Whole days from today (UTC) until an `@expires` date; negative once it has passed. */
+function daysUntilExpiry(expires: string): number {
+   const today = new Date().toISOString().slice(0, 10)
+   return Math.round((Date.parse(expires) - Date.parse(today)) / 86_400_000)
+}
+
+function formatAnnotations(annotations: KeyAnnotations): string {
+   const parts: string[] = []
+   if (annotations.description) parts.push(annotations.description)
+   if (annotations.owner) parts.push(`owner: ${annotations.owner}`)
+   if (annotations.expires) {
+      const expired = daysUntilExpiry(annotations.expires) < 0
+      parts.push(`expires: ${annotations.expires}${expired ? " (expired)" : ""}`)
    }
+   if (annotations.tags?.length) parts.push(`tags: ${annotations.tags.join(", ")}`)
+   return parts.join(" · ")
+}
 
-   const parsed = parseEnvFile(envPath)
+async function cmdList() {
+   const [envPath, basePath] = getEnvPaths()
+   const listed = new Set<string>()
+   const printAnnotations = (line: ParsedLine) => {
+      if (line.annotations) print(`   ${formatAnnotations(line.annotations)}`)
+      for (const warning of line.annotationWarnings ?? []) printWarning(`${line.key}: ${warning}`)
+   }
+   const printInherited = (line: ParsedLine, sourcePath: string) => {
+      const status = line.encrypted ? "[encrypted]" : "[plaintext]"
+      print(`${line.key}  ${status}  (from ${path.relative(process.cwd(), sourcePath)})`)
+      printAnnotations(line)
+      listed.add(line.key)
+   }
 
-   for (const line of parsed.lines) {
-      if (line.key) {
-         const status = line.encrypted ? "[encrypted]" : "[plaintext]"
-         print(`${line.key}  ${status}`)
+   if (fs.existsSync(envPath)) {
+      const parsed = parseEnvFile(envPath, { followIncludes: true })
+      const access = loadKeyAccess(getProjectDir())
+
+      for (const line of parsed.lines) {
+         if (line.source) {
+            printInherited(line, line.source)
+         } else if (line.key) {
+            const status = line.encrypted ? "[encrypted]" : "[plaintext]"
+            const groups = access.get(line.key)
+            print(`${line.key}  ${status}${groups ? `  (group: ${groups.join(", ")})` : ""}`)
+            printAnnotations(line)
+            listed.add(line.key)
+         }
+      }
+   }
+
+   // Keys the environment inherits from the base .secenvs and the files it includes
+   if (basePath && fs.existsSync(basePath)) {
+      for (const line of parseEnvFile(basePath, { followIncludes: true }).lines) {
+         if (line.key && !line.key.startsWith("_") && !listed.has(line.key)) {
+            printInherited(line, line.source ?? basePath)
+         }
       }
    }
 }
@@ -254,7 +489,11 @@ async function cmdDelete(key: string) {
       throw new SecretNotFoundError(key)
    }
 
-   await deleteKey(envPath, key)
+   verifyFileMac(envPath)
+   await deleteKey(envPath, key, { updateMac: await createMacUpdater(envPath) })
+   if (loadKeyAccess(getProjectDir()).has(key)) {
+      await setKeyAccess(getProjectDir(), key, null)
+   }
    await appendAuditLog("DELETE", key)
    printSuccess(`Deleted ${key}`)
 }
@@ -284,49 +523,191 @@ async function cmdRotate(key: string, newValue?: string) {
 
 /**
  * Re-encrypts every encrypted secret in .secenvs using the given recipients list.
- * Used internally by trust/untrust to atomically rotate the recipient set.
+ * Secrets scoped with `_ACCESS` are encrypted to their groups' members instead.
+ * Used internally by trust/untrust to atomically rotate the recipient set, and by
+ * `key rotate`, which passes the project path and both the old and new identities.
  */
-async function reEncryptAllSecrets(recipients: string[]): Promise<number> {
-   const envPath = getEnvPath()
+async function reEncryptAllSecrets(
+   recipients: string[],
+   envPath: string = getEnvPath(),
+   identities?: AgeIdentity[]
+): Promise<number> {
    if (!fs.existsSync(envPath)) {
       return 0
    }
 
-   const identity = await loadIdentity()
+   identities = identities ?? (await loadIdentities(envPath))
    const parsed = parseEnvFile(envPath)
+   const groups = loadGroups(path.dirname(envPath))
+   const access = loadKeyAccess(path.dirname(envPath))
+   const updateMac = await createMacUpdater(envPath)
    let count = 0
 
    for (const line of parsed.lines) {
       if (!line.key || !line.encrypted) continue
-      const decrypted = await decryptValue(identity, line.value.slice(ENCRYPTED_PREFIX.length))
-      const reEncrypted = await encryptValue(recipients, decrypted)
-      await setKey(envPath, line.key, `${ENCRYPTED_PREFIX}${reEncrypted}`)
-      await appendAuditLog("RE-ENCRYPT", line.key)
+      const scope = access.get(line.key)
+      let plaintext: Buffer
+      try {
+         plaintext = await decryptValue(identities, line.value.slice(ENCRYPTED_PREFIX.length))
+      } catch (error) {
+         if (!scope) throw error
+         // Only group members can re-encrypt a scoped secret. Adding a recipient leaves it as is;
+         // removals are refused up front by assertScopedKeysReEncryptable
+         printWarning(
+            `Skipped ${line.key}: only group ${scope.join(", ")} can read it, so it is still encrypted to its previous members.`
+         )
+         continue
+      }
+      // Never re-encrypt a value moved from another key; unbound legacy values get bound here
+      const { value, binary } = openEnvelope(line.key, getEnvironmentOfPath(envPath), plaintext)
+      const reEncrypted = await encryptSecret(
+         scope ? groupRecipients(groups, scope, recipients) : recipients,
+         line.key,
+         envPath,
+         value,
+         { binary }
+      )
+      await setKey(envPath, line.key, reEncrypted, { updateMac })
+      await appendAuditLog("RE-ENCRYPT", line.key, envPath)
       count++
    }
    return count
 }
 
-async function cmdTrust(pubkey: string) {
-   const normalized = validatePublicKey(pubkey)
+/**
+ * Re-encrypts values written before key binding existed, so each is bound to its key name and
+ * environment. Values that are already bound are left untouched.
+ */
+async function cmdUpgradeFormat() {
+   const envPath = getEnvPath()
+   if (!fs.existsSync(envPath)) {
+      throw new FileError(`No .secenvs file found at ${envPath}`)
+   }
+
+   const identities = await loadIdentities(envPath)
+   const access = loadKeyAccess(getProjectDir())
+   const updateMac = await createMacUpdater(envPath)
+   let upgraded = 0
+
+   for (const line of parseEnvFile(envPath).lines) {
+      if (!line.key || !line.encrypted) continue
+      let plaintext: Buffer
+      try {
+         plaintext = await decryptValue(identities, line.value.slice(ENCRYPTED_PREFIX.length))
+      } catch (error) {
+         const scope = access.get(line.key)
+         if (!scope) throw error
+         printWarning(`Skipped ${line.key}: only group ${scope.join(", ")} can read it.`)
+         continue
+      }
+      if (isSealedValue(plaintext)) continue
+
+      const recipients = await resolveKeyRecipients(getProjectDir(), line.key)
+      await setKey(envPath, line.key, await encryptSecret(recipients, line.key, envPath, plaintext), {
+         updateMac,
+      })
+      await appendAuditLog("UPGRADE_FORMAT", line.key)
+      upgraded++
+   }
+
+   if (upgraded === 0) {
+      printInfo("Every readable value is already bound to its key name.")
+   } else {
+      printSuccess(
+         `Bound ${upgraded} value${upgraded !== 1 ? "s" : ""} to ${upgraded !== 1 ? "their key names" : "its key name"}`
+      )
+   }
+}
+
+/**
+ * Rewrites the .secenvs file into the canonical layout of formatEnvContent. With `check`, only
+ * reports whether it is formatted and exits non-zero if not, for CI.
+ */
+async function cmdFmt(check: boolean = false) {
+   const envPath = getEnvPath()
+   if (!fs.existsSync(envPath)) {
+      throw new FileError(`No .secenvs file found at ${envPath}`)
+   }
+   // Refuse to reorder a file with invalid lines
+   parseEnvFile(envPath)
+
+   const displayPath = path.relative(process.cwd(), envPath) || envPath
+   const content = safeReadFile(envPath)
+   if (formatEnvContent(content) === content) {
+      printInfo(`${displayPath} is already formatted.`)
+      return
+   }
+
+   if (check) {
+      printError(`${displayPath} is not formatted. Run 'secenvs fmt' to rewrite it.`)
+      process.exit(1)
+   }
+
+   await withLock(envPath, async () => {
+      await writeAtomicRaw(envPath, formatEnvContent(safeReadFile(envPath)))
+   })
+   printSuccess(`Formatted ${displayPath}`)
+}
+
+/**
+ * Reads recipient keys from an authorized_keys-style file (e.g. a saved https://github.com/<user>.keys).
+ * Blank lines, comments and unsupported key types are skipped with a warning.
+ */
+function readKeysFile(filePath: string): string[] {
+   if (!fs.existsSync(filePath)) {
+      throw new FileError(`File not found: ${filePath}`)
+   }
+
+   const keys: string[] = []
+   const lines = fs.readFileSync(filePath, "utf-8").split(/\r?\n/)
+   for (const [index, line] of lines.entries()) {
+      const trimmed = line.trim()
+      if (!trimmed || trimmed.startsWith("#")) continue
+      try {
+         keys.push(validatePublicKey(trimmed))
+      } catch (error) {
+         printWarning(`Skipping unsupported key on line ${index + 1} of ${filePath}`)
+      }
+   }
+
+   if (keys.length === 0) {
+      throw new RecipientError(`No supported public keys found in ${filePath}`)
+   }
+   return keys
+}
+
+async function cmdTrust(pubkeys: string[], label?: string) {
+   const entries: RecipientEntry[] = pubkeys.map((k) => {
+      const parsed = parseRecipientEntry(k)
+      return {
+         key: validatePublicKey(parsed.key),
+         label: label !== undefined ? validateRecipientLabel(label) : parsed.label,
+      }
+   })
 
    if (!identityExists()) {
       throw new IdentityNotFoundError(getDefaultKeyPath())
    }
 
    // Build the current recipients list (seeded from identity if file doesn't exist yet)
-   const currentRecipients = await loadRecipients(process.cwd())
+   const currentRecipients = await loadRecipients(getProjectDir())
 
-   if (currentRecipients.includes(normalized)) {
+   const added = entries.filter(
+      (entry, i) =>
+         !currentRecipients.includes(entry.key) && entries.findIndex((e) => e.key === entry.key) === i
+   )
+   if (added.length === 0) {
       printWarning(`Public key is already in .secenvs — nothing to do.`)
       return
    }
 
-   const newRecipients = [...currentRecipients, normalized]
-   await saveRecipients(process.cwd(), newRecipients)
-   await appendAuditLog("TRUST", normalized)
+   const newRecipients = [...currentRecipients, ...added.map((entry) => entry.key)]
+   await saveRecipients(getProjectDir(), [...currentRecipients, ...added])
+   for (const entry of added) {
+      await appendAuditLog("TRUST", entry.key)
+   }
    printSuccess(
-      `Added key to .secenvs (${newRecipients.length} total recipient${newRecipients.length > 1 ? "s" : ""})`
+      `Added ${added.length > 1 ? `${added.length} keys` : "key"} to .secenvs (${newRecipients.length} total recipient${newRecipients.length > 1 ? "s" : ""})`
    )
 
    printInfo("Re-encrypting all secrets to the new recipient set...")
@@ -334,21 +715,28 @@ async function cmdTrust(pubkey: string) {
    printSuccess(`Re-encrypted ${count} secret${count !== 1 ? "s" : ""}`)
 }
 
-async function cmdUntrust(pubkey: string) {
-   const normalized = validatePublicKey(pubkey)
-
+async function cmdUntrust(keyOrLabel: string) {
    if (!identityExists()) {
       throw new IdentityNotFoundError(getDefaultKeyPath())
    }
 
-   const currentRecipients = await loadRecipients(process.cwd())
-
-   if (!currentRecipients.includes(normalized)) {
-      printWarning(`Public key not found in .secenvs — nothing to do.`)
+   const currentRecipients = await loadRecipients(getProjectDir())
+   const entries = loadRecipientEntries(getProjectDir())
+   const removed = findRecipients(
+      entries.length > 0 ? entries : currentRecipients.map((key) => ({ key })),
+      keyOrLabel
+   ).map((entry) => entry.key)
+
+   if (removed.length === 0) {
+      // Neither a known key nor a label; surface malformed keys instead of a silent no-op
+      if (keyOrLabel.startsWith("age1") || keyOrLabel.startsWith("ssh-")) {
+         validatePublicKey(keyOrLabel)
+      }
+      printWarning(`Public key or label not found in .secenvs — nothing to do.`)
       return
    }
 
-   const newRecipients = currentRecipients.filter((k) => k !== normalized)
+   const newRecipients = currentRecipients.filter((k) => !removed.includes(k))
 
    if (newRecipients.length === 0) {
       throw new RecipientError(
@@ -356,15 +744,335 @@ async function cmdUntrust(pubkey: string) {
       )
    }
 
-   await saveRecipients(process.cwd(), newRecipients)
-   await appendAuditLog("UNTRUST", normalized)
-   printSuccess(`Removed key from .secenvs (${newRecipients.length} remaining)`)
+   // Removed keys leave every group too; refuse if that strands a group-scoped secret
+   const groups = loadGroups(getProjectDir())
+   const affectedGroups = [...groups]
+      .filter(([, members]) => members.some((member) => removed.includes(member.key)))
+      .map(([name]) => name)
+   for (const [name, members] of groups) {
+      groups.set(
+         name,
+         members.filter((member) => !removed.includes(member.key))
+      )
+   }
+   assertScopedKeysReadable(groups)
+   await assertScopedKeysReEncryptable(affectedGroups)
+
+   await saveRecipients(getProjectDir(), newRecipients)
+   await saveGroups(getProjectDir(), groups)
+   for (const key of removed) {
+      await appendAuditLog("UNTRUST", key)
+   }
+   printSuccess(
+      `Removed ${removed.length > 1 ? `${removed.length} keys` : "key"} from .secenvs (${newRecipients.length} remaining)`
+   )
 
    printInfo("Re-encrypting all secrets with the updated recipient set...")
    const count = await reEncryptAllSecrets(newRecipients)
    printSuccess(`Re-encrypted ${count} secret${count !== 1 ? "s" : ""}`)
 }
 
+/**
+ * Refuses to remove a member from the given groups while this identity cannot decrypt a secret
+ * scoped to them: it could not re-encrypt it, so the removed key would keep reading it.
+ */
+async function assertScopedKeysReEncryptable(affectedGroups: string[]): Promise<void> {
+   const envPath = getEnvPath()
+   if (!fs.existsSync(envPath) || affectedGroups.length === 0) {
+      return
+   }
+
+   const access = loadKeyAccess(getProjectDir())
+   const identities = await loadIdentities(envPath)
+   const stranded: string[] = []
+   const readers = new Set<string>()
+   for (const line of parseEnvFile(envPath).lines) {
+      const scope = line.key ? access.get(line.key) : undefined
+      if (!line.encrypted || !scope || !scope.some((group) => affectedGroups.includes(group))) continue
+      try {
+         await decryptValue(identities, line.value.slice(ENCRYPTED_PREFIX.length))
+      } catch {
+         stranded.push(line.key!)
+         scope.forEach((group) => readers.add(group))
+      }
+   }
+   if (stranded.length > 0) {
+      throw new RecipientError(
+         `You cannot read ${stranded.join(", ")}, so it could not be re-encrypted and the removed key would keep access. Ask a member of group ${[...readers].join(", ")} to run this instead.`
+      )
+   }
+}
+
+function assertScopedKeysReadable(groups: Map<string, RecipientEntry[]>): void {
+   for (const [key, scope] of loadKeyAccess(getProjectDir())) {
+      if (scope.some((name) => !groups.get(name)?.length)) {
+         throw new RecipientError(
+            `${key} is only readable by group ${scope.join(", ")}, which would have no members left.`
+         )
+      }
+   }
+}
+
+/**
+ * Adds recipients (matched by key or label) to a group and re-encrypts so scoped secrets
+ * become readable by them.
+ */
+async function cmdGroupAdd(group: string, keyOrLabel: string) {
+   const name = validateGroupName(group)
+   const currentRecipients = await loadRecipients(getProjectDir())
+   const entries = loadRecipientEntries(getProjectDir())
+   const matches = findRecipients(
+      entries.length > 0 ? entries : currentRecipients.map((key) => ({ key })),
+      keyOrLabel
+   )
+   if (matches.length === 0) {
+      throw new RecipientError(`'${keyOrLabel}' is not a recipient. Run 'secenvs trust' first.`)
+   }
+
+   const groups = loadGroups(getProjectDir())
+   const members = groups.get(name) ?? []
+   const added = matches.filter((match) => !members.some((member) => member.key === match.key))
+   if (added.length === 0) {
+      printWarning(`Already a member of group '${name}' — nothing to do.`)
+      return
+   }
+
+   groups.set(name, [...members, ...added])
+   await saveGroups(getProjectDir(), groups)
+   for (const entry of added) {
+      await appendAuditLog("GROUP_ADD", `${name}:${entry.key}`)
+   }
+   printSuccess(`Added ${added.length > 1 ? `${added.length} keys` : "key"} to group '${name}'`)
+
+   const count = await reEncryptAllSecrets(currentRecipients)
+   printSuccess(`Re-encrypted ${count} secret${count !== 1 ? "s" : ""}`)
+}
+
+async function cmdGroupRemove(group: string, keyOrLabel: string) {
+   const name = validateGroupName(group)
+   const groups = loadGroups(getProjectDir())
+   const members = groups.get(name) ?? []
+   const removed = findRecipients(members, keyOrLabel)
+   if (removed.length === 0) {
+      printWarning(`Not a member of group '${name}' — nothing to do.`)
+      return
+   }
+
+   groups.set(
+      name,
+      members.filter((member) => !removed.includes(member))
+   )
+   assertScopedKeysReadable(groups)
+   await assertScopedKeysReEncryptable([name])
+   await saveGroups(getProjectDir(), groups)
+   for (const entry of removed) {
+      await appendAuditLog("GROUP_REMOVE", `${name}:${entry.key}`)
+   }
+   printSuccess(`Removed ${removed.length > 1 ? `${removed.length} keys` : "key"} from group '${name}'`)
+
+   const count = await reEncryptAllSecrets(await loadRecipients(getProjectDir()))
+   printSuccess(`Re-encrypted ${count} secret${count !== 1 ? "s" : ""}`)
+}
+
+async function cmdGroupList() {
+   const groups = loadGroups(getProjectDir())
+   if (groups.size === 0) {
+      printInfo("No groups defined. Create one with 'secenvs group add <group> <key-or-label>'.")
+      return
+   }
+
+   const access = loadKeyAccess(getProjectDir())
+   for (const [name, members] of groups) {
+      const keys = [...access].filter(([, scope]) => scope.includes(name)).map(([key]) => key)
+      print(`${name} (${keys.length > 0 ? keys.join(", ") : "no keys"})`, "cyan")
+      for (const member of members) {
+         print(`  ${(member.label ?? "-").padEnd(24)} ${member.key}`)
+      }
+   }
+}
+
+async function cmdRecipientsList() {
+   const entries = loadRecipientEntries(getProjectDir())
+   if (entries.length === 0) {
+      printInfo("No _RECIPIENT entries in .secenvs; secrets are encrypted to your identity only.")
+   }
+
+   for (const entry of entries) {
+      print(`${(entry.label ?? "-").padEnd(24)} ${entry.key}`)
+   }
+
+   const pending = loadPendingRequests(getProjectDir())
+   if (pending.length > 0) {
+      print("")
+      printInfo(`Pending access requests (run 'secenvs approve <label-or-key>'):`)
+      for (const request of pending) {
+         print(`${(request.label ?? "-").padEnd(24)} ${request.key}  (requested ${request.requestedAt})`)
+      }
+   }
+}
+
+async function cmdRequestAccess(label?: string) {
+   const normalizedLabel = label !== undefined ? validateRecipientLabel(label) : undefined
+   if (!identityExists()) {
+      throw new IdentityNotFoundError(getDefaultKeyPath())
+   }
+   const envPath = getEnvPath()
+   if (!fs.existsSync(envPath)) {
+      throw new FileError(`No .secenvs file found in ${getProjectDir()}`)
+   }
+
+   const pubkey = await getPublicKey(await loadIdentity())
+   if (loadRecipientEntries(getProjectDir()).some((entry) => entry.key === pubkey)) {
+      printWarning("You are already a recipient of this project — nothing to do.")
+      return
+   }
+
+   const pending = loadPendingRequests(getProjectDir())
+   if (pending.some((request) => request.key === pubkey)) {
+      printWarning("An access request for your key is already pending.")
+      return
+   }
+
+   pending.push({ key: pubkey, label: normalizedLabel, requestedAt: new Date().toISOString() })
+   await savePendingRequests(getProjectDir(), pending)
+   await appendAuditLog("REQUEST_ACCESS", normalizedLabel ?? pubkey)
+   printSuccess("Access request added to .secenvs")
+   printInfo("Commit and push .secenvs, then ask an existing recipient to run 'secenvs approve'.")
+}
+
+/**
+ * Picks the pending request matching a label or key; with no argument, the only pending request.
+ */
+async function resolvePendingRequest(keyOrLabel?: string): Promise<PendingRequest> {
+   if (!identityExists()) {
+      throw new IdentityNotFoundError(getDefaultKeyPath())
+   }
+   // Without _RECIPIENT lines loadRecipients falls back to the caller's own key, so a requester
+   // must also be kept from approving themselves.
+   const ownKey = await getPublicKey(await loadIdentity())
+   const pending = loadPendingRequests(getProjectDir())
+   if (
+      !(await loadRecipients(getProjectDir())).includes(ownKey) ||
+      pending.some((request) => request.key === ownKey)
+   ) {
+      throw new RecipientError(
+         "Only an existing recipient of this project can approve or reject access requests."
+      )
+   }
+
+   if (pending.length === 0) {
+      throw new RecipientError("There are no pending access requests.")
+   }
+   if (keyOrLabel === undefined) {
+      if (pending.length > 1) {
+         throw new RecipientError(
+            `${pending.length} requests are pending; name one: ${pending.map((r) => r.label ?? r.key).join(", ")}`
+         )
+      }
+      return pending[0]
+   }
+
+   const matches = findRecipients(pending, keyOrLabel)
+   if (matches.length !== 1) {
+      throw new RecipientError(
+         matches.length === 0
+            ? `No pending request matches '${keyOrLabel}'.`
+            : `Several pending requests match '${keyOrLabel}'; use the public key instead.`
+      )
+   }
+   return matches[0] as PendingRequest
+}
+
+async function removePendingRequest(request: PendingRequest): Promise<void> {
+   await savePendingRequests(
+      getProjectDir(),
+      loadPendingRequests(getProjectDir()).filter((r) => r.key !== request.key)
+   )
+}
+
+async function cmdApprove(keyOrLabel?: string) {
+   const request = await resolvePendingRequest(keyOrLabel)
+   await cmdTrust([request.key], request.label)
+   await removePendingRequest(request)
+   await appendAuditLog("APPROVE", request.label ?? request.key)
+   printSuccess(`Approved access for ${request.label ?? "key"}`)
+}
+
+async function cmdReject(keyOrLabel?: string) {
+   const request = await resolvePendingRequest(keyOrLabel)
+   await removePendingRequest(request)
+   await appendAuditLog("REJECT", request.label ?? request.key)
+   printSuccess(`Rejected access request from ${request.label ?? request.key}`)
+}
+
+async function cmdRecipientsRename(keyOrLabel: string, newLabel: string) {
+   const label = validateRecipientLabel(newLabel)
+   // Renaming re-signs the list, so it must not turn an unreviewed list into a signed one
+   verifyRecipientSignature(getProjectDir())
+   const entries = loadRecipientEntries(getProjectDir())
+   const matches = findRecipients(entries, keyOrLabel)
+   if (matches.length === 0) {
+      throw new RecipientError(`No recipient matching '${keyOrLabel}' in .secenvs`)
+   }
+
+   await saveRecipients(
+      getProjectDir(),
+      entries.map((entry) => (matches.includes(entry) ? { key: entry.key, label } : entry))
+   )
+   await appendAuditLog("LABEL_RECIPIENT", label)
+   printSuccess(`Labeled ${matches.length > 1 ? `${matches.length} recipients` : "recipient"} '${label}'`)
+}
+
+/**
+ * Accepts the current recipient list after review: pins the signing key of whoever signed it
+ * last, then signs it with the active identity.
+ */
+async function cmdRecipientsSign() {
+   if (!identityExists()) {
+      throw new IdentityNotFoundError(getDefaultKeyPath())
+   }
+   const entries = loadRecipientEntries(getProjectDir())
+   if (entries.length === 0) {
+      // Nothing to sign but the file itself
+      await refreshFileMac(getEnvPath())
+      await appendAuditLog("SIGN_FILE")
+      printSuccess(`No _RECIPIENT entries; signed the contents of ${getEnvPath()}`)
+      return
+   }
+
+   const previous = readRecipientSignature(getProjectDir())
+   if (
+      previous &&
+      verifyRecipientList(
+         previous,
+         entries.map((entry) => entry.key)
+      ) &&
+      !rememberRecipientSigner(previous)
+   ) {
+      printWarning(`The previous signature used a different signing key than ${previous.signer} had before.`)
+   }
+   if (!rememberFileMacSigner(getEnvPath())) {
+      printWarning(`The file's _MAC used a different signing key than its signer had before.`)
+   }
+
+   await saveRecipients(getProjectDir(), entries)
+   const signer = await getPublicKey(await loadIdentity())
+   await appendAuditLog("SIGN_RECIPIENTS", signer)
+   const label = entries.find((entry) => entry.key === signer)?.label
+   printSuccess(`Signed ${entries.length} recipient${entries.length !== 1 ? "s" : ""} as ${label ?? signer}`)
+   if (!label && !entries.some((entry) => entry.key === signer)) {
+      printWarning("Your identity is not in this recipient list.")
+   }
+}
+
+/** Multiline values are exported double-quoted with `\\n` escapes, as dotenv parsers expect. */
+function formatExportValue(value: string): string {
+   if (!value.includes("\n") && !value.includes("\r")) {
+      return value
+   }
+   return `"${value.replace(/"/g, '\\"').replace(/\r?\n/g, "\\n")}"`
+}
+
 async function cmdExport(force: boolean = false) {
    if (!force) {
       const confirmed = await confirm("WARNING: You are about to export ALL secrets in PLAINTEXT")
@@ -374,12 +1082,8 @@ async function cmdExport(force: boolean = false) {
       }
    }
 
-   if (!identityExists()) {
-      throw new IdentityNotFoundError(getDefaultKeyPath())
-   }
-
-   const identity = await loadIdentity()
    const envPath = getEnvPath()
+   const identities = await loadIdentities(envPath)
 
    if (!fs.existsSync(envPath)) {
       print("No .secenvs file found.")
@@ -392,12 +1096,12 @@ async function cmdExport(force: boolean = false) {
       if (line.key && !line.key.startsWith("_")) {
          let value: string
          if (line.encrypted) {
-            const decrypted = await decryptValue(identity, line.value.slice(ENCRYPTED_PREFIX.length))
-            value = decrypted.toString("utf-8")
+            const decrypted = await decryptSecret(identities, line, envPath)
+            value = decrypted.value.toString(decrypted.binary ? "base64" : "utf-8")
          } else {
             value = line.value
          }
-         print(`${line.key}=${value}`)
+         print(`${line.key}=${formatExportValue(value)}`)
       }
    }
 }
@@ -425,19 +1129,41 @@ async function cmdDoctor() {
          print(`✓ Identity: ${identityPath}`, "green", false)
          passed++
       } catch (error) {
-         print(`✗ Identity: ${identityPath} (invalid)`, "red", false)
+         if (error instanceof DecryptionError) {
+            print(`✗ Identity: ${identityPath} (${error.message})`, "red", false)
+         } else {
+            print(`✗ Identity: ${identityPath} (invalid)`, "red", false)
+         }
       }
    } else {
       print(`✗ Identity: ${identityPath} (not found)`, "red", false)
    }
 
+   checks++
+   if (identityExists()) {
+      if (isProtectedIdentity(readIdentityFile())) {
+         print(`✓ Protection: identity is passphrase-protected`, "green", false)
+      } else {
+         print(
+            `⚠ Protection: identity is stored unencrypted (use 'secenvs init --passphrase' for new identities)`,
+            "yellow",
+            false
+         )
+      }
+      passed++
+   } else {
+      print(`Protection: (skipped - no identity)`, "reset", false)
+      passed++
+   }
+
    checks++
    const envPath = getEnvPath()
+   const { reason } = resolveProjectDir()
    if (fs.existsSync(envPath)) {
-      print(`✓ File: ${envPath} (exists)`, "green", false)
+      print(`✓ File: ${envPath} (exists, ${reason})`, "green", false)
       passed++
    } else {
-      print(`⚠ File: ${envPath} (not found)`, "yellow", false)
+      print(`⚠ File: ${envPath} (not found, ${reason})`, "yellow", false)
       passed++
    }
 
@@ -464,26 +1190,71 @@ async function cmdDoctor() {
    }
 
    checks++
+   let unboundKeys: string[] | null = null
+   // Plaintext and decrypted `vault:` values, checked against the vaults below
+   const vaultReferences: { key: string; reference: string }[] = []
+   // Plaintext and decrypted values, checked for `${KEY}` references that do not resolve
+   const readableValues: { key: string; value: string }[] = []
    if (identityExists() && fs.existsSync(envPath)) {
       try {
-         const identity = await loadIdentity()
+         const identities = await loadIdentities(envPath)
          const parsed = parseEnvFile(envPath)
+         const access = loadKeyAccess(getProjectDir())
          let decryptedCount = 0
          let failedCount = 0
+         let scopedCount = 0
+         const movedKeys: string[] = []
+         unboundKeys = []
 
          for (const line of parsed.lines) {
+            if (line.key && !line.key.startsWith("_") && isVaultReference(line.value)) {
+               vaultReferences.push({ key: line.key, reference: line.value })
+            }
+            if (line.key && !line.key.startsWith("_") && !line.encrypted) {
+               readableValues.push({ key: line.key, value: line.value })
+            }
             if (line.encrypted) {
+               let plaintext: Buffer
                try {
-                  await decryptValue(identity, line.value.slice(ENCRYPTED_PREFIX.length))
-                  decryptedCount++
+                  plaintext = await decryptValue(identities, line.value.slice(ENCRYPTED_PREFIX.length))
                } catch (error) {
-                  failedCount++
+                  // Secrets scoped to a group you are not in are expected to be unreadable
+                  if (access.has(line.key)) {
+                     scopedCount++
+                  } else {
+                     failedCount++
+                  }
+                  continue
+               }
+               try {
+                  const value = openValue(line.key, getEnvironmentOfPath(envPath), plaintext).toString(
+                     "utf-8"
+                  )
+                  if (isVaultReference(value)) {
+                     vaultReferences.push({ key: line.key, reference: value })
+                  }
+                  readableValues.push({ key: line.key, value })
+                  decryptedCount++
+                  if (!isSealedValue(plaintext)) unboundKeys.push(line.key)
+               } catch {
+                  movedKeys.push(line.key)
                }
             }
          }
 
-         if (failedCount === 0) {
-            print(`✓ Decryption: ${decryptedCount}/${decryptedCount} keys verified`, "green", false)
+         if (movedKeys.length > 0) {
+            print(
+               `✗ Decryption: ${movedKeys.join(", ")} ${movedKeys.length > 1 ? "were" : "was"} encrypted for a different key or environment`,
+               "red",
+               false
+            )
+         } else if (failedCount === 0) {
+            const scopedNote = scopedCount > 0 ? ` (${scopedCount} group-scoped not readable by you)` : ""
+            print(
+               `✓ Decryption: ${decryptedCount}/${decryptedCount} keys verified${scopedNote}`,
+               "green",
+               false
+            )
             passed++
          } else {
             print(`✗ Decryption: ${decryptedCount} succeeded, ${failedCount} failed`, "red", false)
@@ -496,6 +1267,206 @@ async function cmdDoctor() {
       passed++
    }
 
+   checks++
+   if (unboundKeys === null) {
+      print(`Key binding: (skipped - no identity or file)`, "reset", false)
+   } else if (unboundKeys.length > 0) {
+      print(
+         `⚠ Key binding: ${unboundKeys.length} value(s) not bound to their key name (run 'secenvs upgrade-format')`,
+         "yellow",
+         false
+      )
+   } else {
+      print(`✓ Key binding: every readable value is bound to its key name`, "green", false)
+   }
+   passed++
+
+   checks++
+   try {
+      if (unboundKeys === null) {
+         print(`References: (skipped - no identity or file)`, "reset", false)
+      } else {
+         // Values written before `${KEY}` expansion may hold a literal `${` that now fails to resolve
+         const defined = new Set(
+            getEnvPaths().flatMap((filePath) => [...parseEnvFile(filePath, { followIncludes: true }).keys])
+         )
+         const unresolved = readableValues.flatMap(({ key, value }) =>
+            findReferences(value)
+               .filter((name) => !defined.has(name) && process.env[name] === undefined)
+               .map((name) => `${key} references \${${name}}`)
+         )
+         if (unresolved.length > 0) {
+            print(
+               `⚠ References: ${unresolved.join(", ")}, which ${unresolved.length > 1 ? "are" : "is"} not set. Write $\${ for a literal \${.`,
+               "yellow",
+               false
+            )
+         } else {
+            print(`✓ References: every \${KEY} reference resolves`, "green", false)
+         }
+      }
+   } catch {
+      print(`References: (skipped - file could not be parsed)`, "reset", false)
+   }
+   passed++
+
+   checks++
+   try {
+      const expiring: string[] = []
+      const seen = new Set<string>()
+      for (const filePath of getEnvPaths()) {
+         for (const line of parseEnvFile(filePath).lines) {
+            if (!line.key || seen.has(line.key)) continue
+            seen.add(line.key)
+            for (const warning of line.annotationWarnings ?? []) {
+               expiring.push(`${line.key} in ${path.basename(filePath)}: ${warning}`)
+            }
+            const expires = line.annotations?.expires
+            if (!expires) continue
+            const days = daysUntilExpiry(expires)
+            if (days < 0) {
+               expiring.push(`${line.key} expired on ${expires}`)
+            } else if (days <= EXPIRY_WARNING_DAYS) {
+               expiring.push(
+                  `${line.key} expires ${days === 0 ? "today" : `in ${days} day${days !== 1 ? "s" : ""}`}`
+               )
+            }
+         }
+      }
+      if (expiring.length > 0) {
+         print(`⚠ Expiry: ${expiring.join(", ")}`, "yellow", false)
+      } else {
+         print(`✓ Expiry: no secret expires in the next ${EXPIRY_WARNING_DAYS} days`, "green", false)
+      }
+   } catch {
+      print(`Expiry: (skipped - file could not be parsed)`, "reset", false)
+   }
+   passed++
+
+   checks++
+   if (fs.existsSync(envPath)) {
+      try {
+         const entries = loadRecipientEntries(getProjectDir())
+         if (entries.length === 0) {
+            print(`✓ Signature: no _RECIPIENT list (secrets are encrypted to your identity)`, "green", false)
+         } else {
+            const signature = verifyRecipientSignature(getProjectDir())
+            const label = entries.find((entry) => entry.key === signature.signer)?.label
+            print(
+               `✓ Signature: recipient list signed by ${label ? `${label} (${signature.signer})` : signature.signer}`,
+               "green",
+               false
+            )
+         }
+         passed++
+      } catch (error) {
+         print(`✗ Signature: ${error instanceof SecenvError ? error.message : error}`, "red", false)
+      }
+   } else {
+      print(`Signature: (no file)`, "reset", false)
+      passed++
+   }
+
+   checks++
+   if (fs.existsSync(envPath)) {
+      try {
+         const mac = verifyFileMac(envPath)
+         if (mac) {
+            const label = loadRecipientEntries(getProjectDir()).find(
+               (entry) => entry.key === mac.signer
+            )?.label
+            print(
+               `✓ Integrity: _MAC signed by ${label ? `${label} (${mac.signer})` : mac.signer}`,
+               "green",
+               false
+            )
+         } else {
+            print(`⚠ Integrity: no _MAC line (run 'secenvs recipients sign' to add one)`, "yellow", false)
+         }
+         passed++
+      } catch (error) {
+         print(`✗ Integrity: ${error instanceof SecenvError ? error.message : error}`, "red", false)
+      }
+   } else {
+      print(`Integrity: (no file)`, "reset", false)
+      passed++
+   }
+
+   checks++
+   if (identityExists() || fs.existsSync(envPath)) {
+      try {
+         const recipients = await loadRecipients(getProjectDir())
+         const classical = recipients.filter((r) => !isPostQuantumRecipient(r))
+         if (classical.length === 0) {
+            print(
+               `✓ Post-quantum: all ${recipients.length} recipients use hybrid ML-KEM keys`,
+               "green",
+               false
+            )
+         } else {
+            print(
+               `⚠ Post-quantum: ${classical.length}/${recipients.length} recipient${recipients.length > 1 ? "s are" : " is"} classical-only (use 'secenvs init --pq' keys)`,
+               "yellow",
+               false
+            )
+         }
+         passed++
+      } catch (error) {
+         if (error instanceof IdentityNotFoundError) {
+            print(`Post-quantum: (skipped - no identity or recipients)`, "reset", false)
+            passed++
+         } else {
+            print(`✗ Post-quantum: ${error instanceof SecenvError ? error.message : error}`, "red", false)
+         }
+      }
+   } else {
+      print(`Post-quantum: (skipped - no identity or file)`, "reset", false)
+      passed++
+   }
+
+   checks++
+   if (fs.existsSync(envPath)) {
+      try {
+         const groups = loadGroups(getProjectDir())
+         const access = loadKeyAccess(getProjectDir())
+         const recipients = await loadRecipients(getProjectDir())
+         const problems: string[] = []
+         for (const [name, members] of groups) {
+            const outsiders = members.filter((member) => !recipients.includes(member.key))
+            if (outsiders.length > 0) {
+               problems.push(`group '${name}' has ${outsiders.length} member(s) that are not recipients`)
+            }
+         }
+         for (const [key, scope] of access) {
+            try {
+               groupRecipients(groups, scope, recipients)
+            } catch (error) {
+               problems.push(`${key}: ${error instanceof SecenvError ? error.message : error}`)
+            }
+         }
+
+         if (problems.length > 0) {
+            print(`✗ Access: ${problems.join("; ")}`, "red", false)
+         } else if (groups.size === 0 && access.size === 0) {
+            print(`✓ Access: every key is readable by all recipients`, "green", false)
+            passed++
+         } else {
+            print(`✓ Access: ${groups.size} group(s), ${access.size} group-scoped key(s)`, "green", false)
+            passed++
+         }
+      } catch (error) {
+         if (error instanceof IdentityNotFoundError) {
+            print(`Access: (skipped - no identity or recipients)`, "reset", false)
+            passed++
+         } else {
+            print(`✗ Access: ${error instanceof SecenvError ? error.message : error}`, "red", false)
+         }
+      }
+   } else {
+      print(`Access: (no file)`, "reset", false)
+      passed++
+   }
+
    checks++
    if (fs.existsSync(envPath)) {
       const logs = readAuditLog(envPath)
@@ -532,10 +1503,144 @@ async function cmdDoctor() {
       passed++
    }
 
+   checks++
+   const dangling: string[] = []
+   for (const { key, reference } of vaultReferences) {
+      const { vault, key: vaultKey } = parseVaultReference(reference)
+      try {
+         if ((await vaultGet(vaultKey, vault)) === undefined) {
+            dangling.push(`${key} -> ${reference}`)
+         }
+      } catch {
+         dangling.push(`${key} -> ${reference} (vault unreadable)`)
+      }
+   }
+   if (dangling.length > 0) {
+      print(`⚠ Vault references: ${dangling.join(", ")} not found`, "yellow", false)
+   } else if (vaultReferences.length > 0) {
+      print(`✓ Vault references: ${vaultReferences.length} resolved`, "green", false)
+   } else {
+      print(`✓ Vault references: (none)`, "green", false)
+   }
+   passed++
+
    print("")
    print(`Doctor: ${passed}/${checks} checks passed`)
 }
 
+/** How messages name a vault: "global vault" for the default one, "vault 'work'" for named ones. */
+function vaultLabel(name: string = DEFAULT_VAULT_NAME): string {
+   return name === DEFAULT_VAULT_NAME ? "global vault" : `vault '${name}'`
+}
+
+/** How `vault import` settles keys that hold a different value locally. */
+type VaultMergeStrategy = "prefer-local" | "prefer-incoming" | "interactive"
+
+async function cmdVaultExport(to: string, names: string[], includeIdentity: boolean = false) {
+   if (names.length === 0) {
+      throw new VaultError("There is no vault to export.")
+   }
+   const target: BundleTarget =
+      to === "passphrase"
+         ? {
+              passphrase: await readPassphrase("Passphrase to protect the bundle: ", {
+                 confirm: true,
+                 envVar: BUNDLE_PASSPHRASE_ENV_VAR,
+              }),
+           }
+         : { recipient: validatePublicKey(to) }
+   const bundle = await createVaultBundle(names, { includeIdentity })
+   process.stdout.write(await encryptVaultBundle(bundle, target))
+}
+
+async function cmdVaultImport(
+   file: string,
+   strategy: VaultMergeStrategy | null,
+   only?: string,
+   usePassphrase: boolean = false
+) {
+   if (!fs.existsSync(file)) {
+      throw new FileError(`File not found: ${file}`)
+   }
+   if (strategy === "interactive" && !process.stdin.isTTY) {
+      throw new ValidationError(
+         "--interactive needs a terminal. Use --prefer-local or --prefer-incoming instead."
+      )
+   }
+
+   const bundle = await decryptVaultBundle(safeReadFile(file), () =>
+      readPassphrase("Passphrase for the bundle: ", { envVar: BUNDLE_PASSPHRASE_ENV_VAR })
+   )
+
+   let names = Object.keys(bundle.vaults)
+   if (only !== undefined) {
+      if (!names.includes(only)) {
+         throw new VaultError(`The bundle does not contain ${vaultLabel(only)}`)
+      }
+      names = [only]
+   }
+
+   // Conflicts are settled before anything is written, so a refused import leaves every vault, and the
+   // identities, as they were
+   const choices = new Map<string, Map<string, VaultConflictChoice>>()
+   const conflicts: string[] = []
+   for (const name of names) {
+      choices.set(name, new Map())
+      for (const [key, value] of Object.entries(bundle.vaults[name]).sort()) {
+         const local = await vaultGet(key, name)
+         if (local === undefined || local === value) continue
+         conflicts.push(name === DEFAULT_VAULT_NAME ? key : `${name}/${key}`)
+         if (strategy === "interactive") {
+            const choice = await promptSelect(
+               `${key} in ${vaultLabel(name)} differs from the bundle. Which value should it keep?`,
+               ["Keep the local value", "Take the value from the bundle"]
+            )
+            choices.get(name)!.set(key, choice === 0 ? "local" : "incoming")
+         }
+      }
+   }
+   if (conflicts.length > 0 && !strategy) {
+      throw new VaultError(
+         `${conflicts.length} key(s) differ from the bundle: ${conflicts.join(", ")}. Choose --prefer-local, --prefer-incoming or --interactive.`
+      )
+   }
+
+   if (bundle.identity) {
+      const { name } = bundle.identity
+      const status = await installBundleIdentity(
+         bundle.identity,
+         usePassphrase
+            ? () => readPassphrase(`Passphrase to protect identity '${name}': `, { confirm: true })
+            : undefined
+      )
+      if (status === "installed") {
+         printSuccess(
+            `Installed identity '${name}' from the bundle${usePassphrase ? " (passphrase-protected)" : ""}`
+         )
+         if (!usePassphrase) {
+            printWarning(
+               `${getKeyPath(name)} is stored unencrypted. Import with --passphrase to protect it with a passphrase.`
+            )
+         }
+      } else if (status === "conflict") {
+         printWarning(
+            `Identity '${name}' already exists with a different key; the bundle's identity was not installed.`
+         )
+      }
+   }
+
+   for (const name of names) {
+      const result = await vaultImport(
+         bundle.vaults[name],
+         (key) => choices.get(name)!.get(key) ?? (strategy === "prefer-local" ? "local" : "incoming"),
+         name
+      )
+      printSuccess(
+         `Imported ${vaultLabel(name)}: ${result.added.length} added, ${result.replaced.length} replaced, ${result.kept.length} kept, ${result.unchanged.length} unchanged`
+      )
+   }
+}
+
 async function cmdLog(options?: { global?: boolean }) {
    const filePath = options?.global ? getVaultPath() : getEnvPath()
    const entries = readAuditLog(filePath)
@@ -573,6 +1678,390 @@ async function cmdLog(options?: { global?: boolean }) {
    }
 }
 
+async function cmdKeyGenerate(name: string, usePassphrase: boolean = false, pq: boolean = false) {
+   const normalized = validateIdentityName(name)
+   const keyPath = getKeyPath(normalized)
+   if (fs.existsSync(keyPath)) {
+      throw new FileError(`Identity '${normalized}' already exists at ${keyPath}`)
+   }
+
+   const passphrase = usePassphrase
+      ? await readPassphrase("Passphrase to protect the identity: ", { confirm: true })
+      : undefined
+
+   const identity = await generateIdentity({ pq })
+   await saveIdentity(identity, { passphrase, name: normalized })
+   printSuccess(
+      `Identity '${normalized}' created at ${keyPath}${passphrase ? " (passphrase-protected)" : ""}`
+   )
+   printInfo(`Public key: ${await getPublicKey(identity)}`)
+   printInfo(`Run 'secenvs key use ${normalized}' to make it the active identity.`)
+}
+
+async function cmdKeyList() {
+   const identities = listIdentities()
+   if (identities.length === 0) {
+      printInfo("No identities found. Run 'secenvs init' to create one.")
+      return
+   }
+
+   for (const info of identities) {
+      const marker = info.active ? "*" : " "
+      const stored = readIdentityFile(info.name)
+      let pubkey = "(passphrase-protected)"
+      if (!isProtectedIdentity(stored)) {
+         try {
+            pubkey = await getPublicKey(stored.trim())
+         } catch {
+            pubkey = "(invalid)"
+         }
+      }
+      print(`${marker} ${info.name.padEnd(16)} ${pubkey}`, info.active ? "green" : "reset")
+   }
+}
+
+async function cmdKeyUse(name: string, pinProject: boolean = false) {
+   const normalized = validateIdentityName(name)
+   if (pinProject) {
+      if (!fs.existsSync(getKeyPath(normalized))) {
+         throw new IdentityNotFoundError(getKeyPath(normalized))
+      }
+      const envPath = getEnvPath()
+      await setKey(envPath, IDENTITY_HINT_METADATA_KEY, normalized, {
+         updateMac: await createMacUpdater(envPath),
+      })
+      await appendAuditLog("IDENTITY_HINT", normalized)
+      printSuccess(`Pinned identity '${normalized}' for this project`)
+      return
+   }
+
+   setActiveIdentity(normalized)
+   printSuccess(`Active identity is now '${normalized}'`)
+}
+
+async function cmdKeyBackup(shares: number, threshold: number, name?: string) {
+   const normalized = validateIdentityName(name ?? getActiveIdentityName())
+   const identity = await loadIdentity(normalized)
+   const fingerprint = publicKeyFingerprint(await getPublicKey(identity))
+   const split = splitSecret(Buffer.from(identity, "utf-8"), fingerprint, shares, threshold)
+
+   // Written as plain `#` comments and words so `key backup > shares.txt` can be fed to `key recover`
+   process.stdout.write(
+      `# Identity '${normalized}' split into ${shares} shares; any ${threshold} of them recover it.\n` +
+         "# Store each share in a different place. Fewer than the threshold reveal nothing.\n"
+   )
+   for (const share of split) {
+      const words = encodeShare(share).split(" ")
+      const lines = [
+         `# secenvs identity share ${share.index}/${shares} (${threshold} needed, fingerprint ${fingerprint})`,
+      ]
+      for (let i = 0; i < words.length; i += BACKUP_WORDS_PER_LINE) {
+         lines.push(words.slice(i, i + BACKUP_WORDS_PER_LINE).join(" "))
+      }
+      process.stdout.write(`\n${lines.join("\n")}\n`)
+   }
+}
+
+/**
+ * Splits pasted backup text into shares: `#` lines are ignored and shares are separated by blank lines.
+ */
+function parseShareText(text: string): IdentityShare[] {
+   return text
+      .split(/\r?\n/)
+      .filter((line) => !line.trim().startsWith("#"))
+      .join("\n")
+      .split(/\n\s*\n/)
+      .map((block) => block.trim())
+      .filter(Boolean)
+      .map((block, i) => {
+         try {
+            return decodeShare(block)
+         } catch (error) {
+            throw new ValidationError(`Share ${i + 1}: ${(error as Error).message}`)
+         }
+      })
+}
+
+async function cmdKeyRecover(usePassphrase: boolean = false, name?: string) {
+   const normalized = validateIdentityName(name ?? getActiveIdentityName())
+   const keyPath = getKeyPath(normalized)
+   if (fs.existsSync(keyPath)) {
+      throw new FileError(`Identity '${normalized}' already exists at ${keyPath}`)
+   }
+
+   if (process.stdin.isTTY) {
+      printInfo("Paste your shares separated by blank lines, then press Ctrl-D.")
+   }
+   const { secret, fingerprint } = combineShares(parseShareText(await readStdin()))
+   const identity = secret.toString("utf-8")
+
+   let publicKey: string
+   try {
+      publicKey = await getPublicKey(identity)
+   } catch {
+      throw new ValidationError(
+         "Recovered data is not a valid identity. The shares may be from different backups."
+      )
+   }
+   if (publicKeyFingerprint(publicKey) !== fingerprint) {
+      throw new ValidationError("Recovered identity does not match the fingerprint recorded in the shares.")
+   }
+
+   const passphrase = usePassphrase
+      ? await readPassphrase("Passphrase to protect the identity: ", { confirm: true })
+      : undefined
+   await saveIdentity(identity, { passphrase, name: normalized })
+   printSuccess(
+      `Identity '${normalized}' recovered to ${keyPath}${passphrase ? " (passphrase-protected)" : ""}`
+   )
+   printInfo(`Public key: ${publicKey}`)
+}
+
+/**
+ * Progress of `secenvs key rotate`, persisted after every step so an interrupted
+ * rotation can pick up where it stopped with `--resume`.
+ */
+interface KeyRotationState {
+   name: string
+   oldPublicKey: string
+   newPublicKey: string
+   projects: string[]
+   completed: string[]
+   vaultDone: boolean
+   startedAt: string
+}
+
+function getRotationStatePath(): string {
+   return path.join(getKeysDir(), "rotation.json")
+}
+
+function getPendingKeyPath(name: string): string {
+   return `${getKeyPath(name)}.pending`
+}
+
+function readRotationState(): KeyRotationState | null {
+   const statePath = getRotationStatePath()
+   if (!fs.existsSync(statePath)) {
+      return null
+   }
+   try {
+      return JSON.parse(fs.readFileSync(statePath, "utf-8")) as KeyRotationState
+   } catch {
+      throw new FileError(`Rotation state at ${statePath} is corrupt. Remove it to start over.`)
+   }
+}
+
+async function writeRotationState(state: KeyRotationState): Promise<void> {
+   await writeAtomic(getRotationStatePath(), JSON.stringify(state, null, 2) + "\n")
+}
+
+/**
+ * Creates the replacement identity next to the current one (as `<name>.key.pending`), protected
+ * with a passphrase if the current identity is, and records the projects to migrate.
+ */
+async function startKeyRotation(name: string, projectDirs: string[]): Promise<KeyRotationState> {
+   const projects = [...new Set(projectDirs.map((dir) => path.resolve(dir)))]
+   for (const dir of projects) {
+      if (listEnvironments(dir).length === 0) {
+         throw new FileError(`No .secenvs file found in ${dir}`)
+      }
+   }
+
+   const oldIdentity = await loadIdentity(name)
+   const oldPublicKey = await getPublicKey(oldIdentity)
+   const newIdentity = await generateIdentity({ pq: isPostQuantumRecipient(oldPublicKey) })
+
+   let stored = newIdentity
+   if (isProtectedIdentity(readIdentityFile(name))) {
+      const passphrase = await readPassphrase("Passphrase to protect the new identity: ", { confirm: true })
+      stored = await wrapIdentity(newIdentity, passphrase)
+   }
+   fs.writeFileSync(getPendingKeyPath(name), stored, { mode: 0o600 })
+
+   const state: KeyRotationState = {
+      name,
+      oldPublicKey,
+      newPublicKey: await getPublicKey(newIdentity),
+      projects,
+      completed: [],
+      vaultDone: false,
+      startedAt: new Date().toISOString(),
+   }
+   await writeRotationState(state)
+   return state
+}
+
+async function loadPendingIdentity(name: string): Promise<string> {
+   const pendingPath = getPendingKeyPath(name)
+   if (!fs.existsSync(pendingPath)) {
+      throw new IdentityNotFoundError(pendingPath)
+   }
+   const stored = fs.readFileSync(pendingPath, "utf-8")
+   if (isProtectedIdentity(stored)) {
+      return unwrapIdentity(stored, await readPassphrase(`Passphrase for ${pendingPath}: `))
+   }
+   return stored.trim()
+}
+
+async function cmdKeyRotate(projectDirs: string[], resume: boolean = false, name?: string) {
+   let state = readRotationState()
+   if (state && !resume) {
+      throw new Error(
+         `A rotation of identity '${state.name}' is already in progress. Run 'secenvs key rotate --resume' to finish it.`
+      )
+   }
+   if (!state && resume) {
+      throw new Error("No interrupted rotation to resume.")
+   }
+
+   if (!state) {
+      const normalized = validateIdentityName(name ?? getActiveIdentityName())
+      state = await startKeyRotation(normalized, projectDirs)
+      printInfo(`Rotating identity '${normalized}'`)
+   } else {
+      printInfo(
+         `Resuming rotation of identity '${state.name}' (${state.completed.length}/${state.projects.length} projects done)`
+      )
+   }
+
+   // Both keys decrypt during rotation, so a project interrupted halfway can be re-encrypted again
+   const oldIdentity = await loadIdentity(state.name)
+   const newIdentity = await loadPendingIdentity(state.name)
+   const identities = [newIdentity, oldIdentity]
+
+   if (!state.vaultDone) {
+      for (const vault of listVaults()) {
+         // Any other failure stops the rotation before the old key is archived, so --resume retries
+         const result = await rekeyVault(identities, state.oldPublicKey, newIdentity, vault)
+         if (result === "rekeyed") {
+            await appendAuditLog("ROTATE_IDENTITY", state.newPublicKey, getVaultPath(vault))
+            printSuccess(`Re-encrypted ${vaultLabel(vault)}`)
+         } else if (result === "not-recipient") {
+            printWarning(`Skipping ${vaultLabel(vault)}: it is not encrypted to identity '${state.name}'`)
+         }
+      }
+      state.vaultDone = true
+      await writeRotationState(state)
+   }
+
+   for (const dir of state.projects) {
+      if (state.completed.includes(dir)) continue
+
+      // The base .secenvs sorts first, so environment files inheriting its recipients see the new key
+      for (const environment of listEnvironments(dir)) {
+         await withEnvironment(environment, () => rotateProjectFile(dir, state!, newIdentity, identities))
+      }
+
+      state.completed.push(dir)
+      await writeRotationState(state)
+   }
+
+   const archivedPath = archiveIdentity(state.name)
+   fs.renameSync(getPendingKeyPath(state.name), getKeyPath(state.name))
+   fs.unlinkSync(getRotationStatePath())
+
+   printSuccess(`Identity '${state.name}' rotated. Old key archived at ${archivedPath}`)
+   printInfo(`New public key: ${state.newPublicKey}`)
+}
+
+/**
+ * Replaces the rotated key in one .secenvs file of a project (the active environment's) and
+ * re-encrypts its secrets.
+ */
+async function rotateProjectFile(
+   dir: string,
+   state: KeyRotationState,
+   newIdentity: string,
+   identities: AgeIdentity[]
+): Promise<void> {
+   const envPath = getEnvPath(dir)
+   const recipients = await loadRecipients(dir)
+   if (!recipients.includes(state.oldPublicKey) && !recipients.includes(state.newPublicKey)) {
+      printWarning(`Skipping ${envPath}: identity '${state.name}' is not a recipient`)
+      return
+   }
+
+   const newRecipients = recipients.map((k) => (k === state.oldPublicKey ? state.newPublicKey : k))
+   const inheritsRecipients =
+      envPath !== getBaseEnvPath(dir) &&
+      !parseEnvFile(envPath).lines.some((line) => line.key === RECIPIENT_METADATA_KEY)
+   if (!inheritsRecipients) {
+      const label = loadRecipientEntries(dir).find((entry) => entry.key === state.oldPublicKey)?.label
+      await saveRecipients(
+         dir,
+         newRecipients.map((key) => (key === state.newPublicKey ? { key, label } : key)),
+         { identity: newIdentity }
+      )
+   }
+
+   const groups = loadGroups(dir)
+   for (const members of groups.values()) {
+      for (const member of members) {
+         if (member.key === state.oldPublicKey) member.key = state.newPublicKey
+      }
+   }
+   await saveGroups(dir, groups)
+   const count = await reEncryptAllSecrets(newRecipients, envPath, identities)
+   await refreshFileMac(envPath, { identity: newIdentity })
+   await appendAuditLog("ROTATE_IDENTITY", state.newPublicKey, envPath)
+   printSuccess(`Re-encrypted ${count} secret${count !== 1 ? "s" : ""} in ${envPath}`)
+}
+
+/**
+ * Runs `fn` with SECENV_ENV set to `environment`, or unset for the base .secenvs.
+ */
+async function withEnvironment<T>(environment: string | null, fn: () => Promise<T>): Promise<T> {
+   const previous = process.env[ENVIRONMENT_ENV_VAR]
+   if (environment) {
+      process.env[ENVIRONMENT_ENV_VAR] = environment
+   } else {
+      delete process.env[ENVIRONMENT_ENV_VAR]
+   }
+   try {
+      return await fn()
+   } finally {
+      if (previous === undefined) {
+         delete process.env[ENVIRONMENT_ENV_VAR]
+      } else {
+         process.env[ENVIRONMENT_ENV_VAR] = previous
+      }
+   }
+}
+
+/**
+ * Removes a global `--file <path>` option given before the command and exports it as SECENV_FILE.
+ * Only the leading position counts, since `set KEY --file <path>` reads a value from a file.
+ */
+function applyFileOption(args: string[]): string[] {
+   if (args[0] !== "--file") {
+      return args
+   }
+   const filePath = args[1]
+   if (!filePath) {
+      throw new Error("Missing file argument. Usage: secenvs --file <path/to/.secenvs> <command>")
+   }
+   process.env[ENV_FILE_ENV_VAR] = path.resolve(filePath)
+   return args.slice(2)
+}
+
+/**
+ * Removes a global `--env <name>` option (anywhere before `--`) and exports it as SECENV_ENV, so the
+ * SDK and commands started by `secenvs run` use the same environment.
+ */
+function applyEnvironmentOption(args: string[]): string[] {
+   const end = args.includes("--") ? args.indexOf("--") : args.length
+   const index = args.slice(0, end).indexOf("--env")
+   if (index === -1) {
+      return args
+   }
+   const name = args[index + 1]
+   if (!name || index + 1 >= end) {
+      throw new Error("Missing environment name. Usage: secenvs --env <name> <command>")
+   }
+   process.env[ENVIRONMENT_ENV_VAR] = validateEnvironmentName(name)
+   return [...args.slice(0, index), ...args.slice(index + 2)]
+}
+
 async function cmdMigrate(filePath: string = ".env", auto: boolean = false) {
    if (!fs.existsSync(filePath)) {
       throw new FileError(`File not found: ${filePath}`)
@@ -614,18 +2103,10 @@ async function cmdMigrate(filePath: string = ".env", auto: boolean = false) {
       }
 
       const hasNewlines = value.includes("\n") || value.includes("\r")
-      let processValue = value
-      let isBase64 = false
-
-      if (hasNewlines) {
-         printWarning(`Key '${key}' contains newlines. It will be Base64-encoded automatically.`)
-         processValue = Buffer.from(value).toString("base64")
-         isBase64 = true
-      }
 
       if (auto) {
          printInfo(`Auto-encrypting '${key}' locally...`)
-         await cmdSet(key, processValue, isBase64)
+         await cmdSet(key, value)
          migratedCount++
       } else {
          print("")
@@ -638,21 +2119,30 @@ async function cmdMigrate(filePath: string = ".env", auto: boolean = false) {
 
          switch (choice) {
             case 0:
-               await cmdSet(key, processValue, isBase64)
+               await cmdSet(key, value)
                migratedCount++
                break
             case 1:
-               await vaultSet(key, processValue)
+               await vaultSet(key, value)
                // Automatically create the vault reference in local .secenvs
                const vaultRef = `vault:${key}`
-               await setKey(envPath, key, vaultRef)
+               await setKey(envPath, key, vaultRef, { updateMac: await createMacUpdater(envPath) })
+               await recordVaultUsage(envPath, key, vaultRef).catch(() => {})
                await appendAuditLog("SET", key)
                printSuccess(`Stored ${key} in global vault and linked in .secenvs`)
                migratedCount++
                break
             case 2:
-               // Validated plaintext appending
-               await setKey(envPath, key, processValue)
+               // Plaintext lines cannot span lines, so multiline values are encrypted instead
+               if (hasNewlines) {
+                  printWarning(
+                     `Key '${key}' contains newlines and cannot be kept as plaintext. Encrypting it.`
+                  )
+                  await cmdSet(key, value)
+                  migratedCount++
+                  break
+               }
+               await setKey(envPath, key, value, { updateMac: await createMacUpdater(envPath) })
                await appendAuditLog("SET", key)
                printSuccess(`Added ${key} as plaintext in .secenvs`)
                migratedCount++
@@ -747,33 +2237,59 @@ async function cmdRun(runArgs: string[]) {
 }
 
 async function main() {
-   const args = process.argv.slice(2)
+   const args = applyFileOption(applyEnvironmentOption(process.argv.slice(2)))
    const command = args[0] || "help"
 
    try {
+      // `set KEY --file <path>` reads a value; anywhere else --file would be silently ignored
+      const optionsEnd = args.includes("--") ? args.indexOf("--") : args.length
+      if (command !== "set" && args.slice(0, optionsEnd).includes("--file")) {
+         throw new Error(
+            "--file must come before the command. Usage: secenvs --file <path/to/.secenvs> <command>"
+         )
+      }
+
       switch (command) {
          case "init":
-            await cmdInit()
+            await cmdInit(args.includes("--passphrase"), args.includes("--pq"))
             break
 
          case "set": {
             const isBase64 = args.includes("--base64")
-            const filteredArgs = args.filter((a) => a !== "--base64")
+            const groupIndex = args.indexOf("--group")
+            const group = groupIndex !== -1 ? args[groupIndex + 1] : undefined
+            if (groupIndex !== -1 && !group) {
+               throw new Error(
+                  "Missing group argument. Usage: secenvs set KEY [VALUE] --group <group>[,<group>]"
+               )
+            }
+            const fileIndex = args.indexOf("--file")
+            const sourceFile = fileIndex !== -1 ? args[fileIndex + 1] : undefined
+            if (fileIndex !== -1 && !sourceFile) {
+               throw new Error("Missing file argument. Usage: secenvs set KEY --file <path>")
+            }
+            const optionIndexes = [groupIndex, fileIndex].filter((i) => i !== -1).flatMap((i) => [i, i + 1])
+            const filteredArgs = args.filter((a, i) => a !== "--base64" && !optionIndexes.includes(i))
             const key = filteredArgs[1]
             if (!key) {
-               throw new Error("Missing KEY argument. Usage: secenvs set KEY [VALUE] [--base64]")
+               throw new Error(
+                  "Missing KEY argument. Usage: secenvs set KEY [VALUE | --file <path>] [--base64] [--group <group>]"
+               )
+            }
+            if (sourceFile && filteredArgs[2] !== undefined) {
+               throw new Error("Pass either VALUE or --file <path>, not both")
             }
-            const value = filteredArgs[2]
-            await cmdSet(key, value, isBase64)
+            const value = sourceFile ? readValueFile(sourceFile) : filteredArgs[2]
+            await cmdSet(key, value, isBase64, group?.split(","))
             break
          }
 
          case "get": {
-            const key = args[1]
+            const key = args.filter((a) => a !== "--raw")[1]
             if (!key) {
-               throw new Error("Missing KEY argument. Usage: secenvs get KEY")
+               throw new Error("Missing KEY argument. Usage: secenvs get KEY [--raw]")
             }
-            await cmdGet(key)
+            await cmdGet(key, args.includes("--raw"))
             break
          }
 
@@ -813,59 +2329,175 @@ async function main() {
          }
 
          case "trust": {
-            const pubkey = args[1]
+            const labelIndex = args.indexOf("--label")
+            const label = labelIndex !== -1 ? args[labelIndex + 1] : undefined
+            if (labelIndex !== -1 && !label) {
+               throw new Error("Missing label argument. Usage: secenvs trust <public-key> --label <name>")
+            }
+            const keysFileIndex = args.indexOf("--github-keys-file")
+            if (keysFileIndex !== -1) {
+               const keysFile = args[keysFileIndex + 1]
+               if (!keysFile) {
+                  throw new Error("Missing file argument. Usage: secenvs trust --github-keys-file <file>")
+               }
+               await cmdTrust(readKeysFile(keysFile), label)
+               break
+            }
+            // SSH keys may arrive unquoted, split across several arguments
+            const pubkey = args
+               .filter((_, i) => i !== 0 && i !== labelIndex && i !== labelIndex + 1)
+               .join(" ")
             if (!pubkey) {
-               throw new Error("Missing public key argument. Usage: secenvs trust <age-public-key>")
+               throw new Error(
+                  "Missing public key argument. Usage: secenvs trust <age-or-ssh-public-key> [--label <name>]"
+               )
             }
-            await cmdTrust(pubkey)
+            await cmdTrust([pubkey], label)
             break
          }
 
          case "untrust": {
-            const pubkey = args[1]
+            const pubkey = args.slice(1).join(" ")
             if (!pubkey) {
-               throw new Error("Missing public key argument. Usage: secenvs untrust <age-public-key>")
+               throw new Error("Missing public key argument. Usage: secenvs untrust <public-key-or-label>")
             }
             await cmdUntrust(pubkey)
             break
          }
 
-         case "vault": {
+         case "group": {
+            const subCommand = args[1]
+            if (subCommand === "list") {
+               await cmdGroupList()
+               break
+            }
+            if (subCommand === "add" || subCommand === "remove") {
+               const group = args[2]
+               const keyOrLabel = args.slice(3).join(" ")
+               if (!group || !keyOrLabel) {
+                  throw new Error(
+                     `Missing arguments. Usage: secenvs group ${subCommand} <group> <public-key-or-label>`
+                  )
+               }
+               if (subCommand === "add") {
+                  await cmdGroupAdd(group, keyOrLabel)
+               } else {
+                  await cmdGroupRemove(group, keyOrLabel)
+               }
+               break
+            }
+            throw new Error("Invalid group subcommand. Usage: secenvs group <add|remove|list>")
+         }
+
+         case "upgrade-format":
+            await cmdUpgradeFormat()
+            break
+
+         case "fmt":
+            await cmdFmt(args.includes("--check"))
+            break
+
+         case "request-access": {
+            const labelIndex = args.indexOf("--label")
+            const label = labelIndex !== -1 ? args[labelIndex + 1] : undefined
+            if (labelIndex !== -1 && !label) {
+               throw new Error("Missing label argument. Usage: secenvs request-access [--label <name>]")
+            }
+            await cmdRequestAccess(label)
+            break
+         }
+
+         case "approve":
+         case "reject": {
+            const keyOrLabel = args.slice(1).join(" ") || undefined
+            if (command === "approve") {
+               await cmdApprove(keyOrLabel)
+            } else {
+               await cmdReject(keyOrLabel)
+            }
+            break
+         }
+
+         case "recipients": {
             const subCommand = args[1]
+            if (subCommand === "list") {
+               await cmdRecipientsList()
+               break
+            }
+            if (subCommand === "rename") {
+               const newLabel = args[args.length - 1]
+               const keyOrLabel = args.slice(2, -1).join(" ")
+               if (!keyOrLabel || !newLabel) {
+                  throw new Error(
+                     "Missing arguments. Usage: secenvs recipients rename <public-key-or-label> <label>"
+                  )
+               }
+               await cmdRecipientsRename(keyOrLabel, newLabel)
+               break
+            }
+            if (subCommand === "sign") {
+               await cmdRecipientsSign()
+               break
+            }
+            throw new Error("Invalid recipients subcommand. Usage: secenvs recipients <list|rename|sign>")
+         }
+
+         case "vault": {
+            const nameIndex = args.indexOf("--name")
+            const vaultName = nameIndex !== -1 ? args[nameIndex + 1] : undefined
+            if (nameIndex !== -1 && !vaultName) {
+               throw new Error(
+                  "Missing vault name. Usage: secenvs vault <set|get|list|delete|history|restore|usages|trust|untrust|recipients|sign|link|unlink|export|import> --name <vault>"
+               )
+            }
+            const vault = vaultName !== undefined ? validateVaultName(vaultName) : DEFAULT_VAULT_NAME
+            const vaultArgs =
+               nameIndex !== -1 ? args.filter((_, i) => i !== nameIndex && i !== nameIndex + 1) : args
+            const subCommand = vaultArgs[1]
             switch (subCommand) {
                case "set": {
-                  const key = args[2]
-                  let value = args[3]
+                  const key = vaultArgs[2]
+                  let value = vaultArgs[3]
                   if (!key) {
-                     throw new Error("Missing key. Usage: secenvs vault set KEY [VALUE]")
+                     throw new Error("Missing key. Usage: secenvs vault set KEY [VALUE] [--name <vault>]")
                   }
                   if (value === undefined) {
-                     value = await promptSecret(`Enter global vault value for ${key}: `)
+                     value = await promptSecret(`Enter ${vaultLabel(vault)} value for ${key}: `)
                   }
                   validateKey(key)
-                  validateValue(value)
-                  await vaultSet(key, value)
-                  printSuccess(`Stored ${key} in global vault`)
+                  validateValue(value, { multiline: true })
+                  await vaultSet(key, value, vault)
+                  printSuccess(`Stored ${key} in ${vaultLabel(vault)}`)
                   break
                }
                case "get": {
-                  const key = args[2]
+                  const key = vaultArgs[2]
                   if (!key) {
-                     throw new Error("Missing key. Usage: secenvs vault get KEY")
+                     throw new Error("Missing key. Usage: secenvs vault get KEY [--name <vault>]")
                   }
-                  const value = await vaultGet(key)
+                  const value = await vaultGet(key, vault)
                   if (value === undefined) {
-                     throw new VaultError(`Key '${key}' not found in global vault`)
+                     throw new VaultError(`Key '${key}' not found in ${vaultLabel(vault)}`)
                   }
                   process.stdout.write(value + "\n")
                   break
                }
                case "list": {
-                  const keys = await listVaultKeys()
-                  if (keys.length === 0) {
+                  // Without --name, every vault is listed with its key count
+                  const vaults = vaultName !== undefined ? [vault] : listVaults()
+                  if (vaults.length === 0) {
                      printInfo("Global vault is empty")
-                  } else {
-                     printInfo(`Found ${keys.length} keys in global vault:`)
+                  }
+                  for (const name of vaults) {
+                     const keys = await listVaultKeys(name)
+                     if (keys.length === 0) {
+                        printInfo(`No keys in ${vaultLabel(name)}`)
+                        continue
+                     }
+                     const recipients = await listVaultRecipients(name)
+                     const shared =
+                        recipients.length > 0 ? ` (shared with ${recipients.length} recipients)` : ""
+                     printInfo(`Found ${keys.length} keys in ${vaultLabel(name)}${shared}:`)
                      for (const key of keys.sort()) {
                         print(`  ${key}`)
                      }
@@ -873,16 +2505,199 @@ async function main() {
                   break
                }
                case "delete": {
-                  const key = args[2]
+                  const key = vaultArgs.slice(2).find((arg) => arg !== "--force")
+                  if (!key) {
+                     throw new Error(
+                        "Missing key. Usage: secenvs vault delete KEY [--force] [--name <vault>]"
+                     )
+                  }
+                  const usages = findVaultUsages(key, vault)
+                  if (usages.length > 0 && !vaultArgs.includes("--force")) {
+                     printWarning(`${key} is still referenced by ${usages.length} project key(s):`)
+                     for (const usage of usages) {
+                        print(`  ${usage.envPath}  ${usage.key}`)
+                     }
+                     if (!(await confirm(`Delete ${key} from ${vaultLabel(vault)} anyway?`))) {
+                        throw new VaultError(`${key} was not deleted. Pass --force to delete it anyway.`)
+                     }
+                  }
+                  await vaultDelete(key, vault)
+                  printSuccess(`Deleted ${key} from ${vaultLabel(vault)}`)
+                  break
+               }
+               case "usages": {
+                  const key = vaultArgs[2]
+                  if (!key) {
+                     throw new Error("Missing key. Usage: secenvs vault usages KEY [--name <vault>]")
+                  }
+                  validateKey(key)
+                  const usages = findVaultUsages(key, vault)
+                  if (usages.length === 0) {
+                     printInfo(
+                        `No known project references ${key} in ${vaultLabel(vault)}. Projects are recorded when they resolve or set a reference.`
+                     )
+                     break
+                  }
+                  printInfo(
+                     `${key} in ${vaultLabel(vault)} is referenced by ${usages.length} project key(s):`
+                  )
+                  for (const usage of usages) {
+                     print(`  ${usage.envPath}  ${usage.key}  (last used ${usage.lastUsed})`)
+                  }
+                  break
+               }
+               case "history": {
+                  const key = vaultArgs[2]
                   if (!key) {
-                     throw new Error("Missing key. Usage: secenvs vault delete KEY")
+                     throw new Error("Missing key. Usage: secenvs vault history KEY [--name <vault>]")
+                  }
+                  const versions = await vaultHistory(key, vault)
+                  if (versions.length === 0) {
+                     throw new VaultError(`Key '${key}' not found in ${vaultLabel(vault)}`)
+                  }
+                  printInfo(
+                     `${versions.length} version${versions.length !== 1 ? "s" : ""} of ${key} in ${vaultLabel(vault)}:`
+                  )
+                  for (const [index, entry] of [...versions].reverse().entries()) {
+                     const setAt = entry.setAt ?? "(set before history was kept)"
+                     print(
+                        `  ${String(entry.version).padStart(3)}  ${setAt}${index === 0 ? "  current" : ""}`
+                     )
+                  }
+                  break
+               }
+               case "restore": {
+                  const versionIndex = vaultArgs.indexOf("--version")
+                  const key = vaultArgs[2]
+                  const version = versionIndex !== -1 ? Number(vaultArgs[versionIndex + 1]) : NaN
+                  if (!key || key === "--version" || !Number.isInteger(version) || version < 1) {
+                     throw new Error(
+                        "Missing key or version. Usage: secenvs vault restore KEY --version <n> [--name <vault>]"
+                     )
+                  }
+                  const restored = await vaultRestore(key, version, vault)
+                  printSuccess(
+                     `Restored version ${version} of ${key} in ${vaultLabel(vault)} (now version ${restored.version})`
+                  )
+                  break
+               }
+               case "trust":
+               case "untrust": {
+                  // SSH keys may arrive unquoted, split across several arguments
+                  const pubkey = vaultArgs.slice(2).join(" ")
+                  if (!pubkey) {
+                     throw new Error(
+                        `Missing public key argument. Usage: secenvs vault ${subCommand} <public-key> [--name <vault>]`
+                     )
+                  }
+                  if (subCommand === "trust") {
+                     const recipients = await vaultTrust(pubkey, vault)
+                     if (!recipients) {
+                        printWarning(
+                           `Public key is already a recipient of ${vaultLabel(vault)} — nothing to do.`
+                        )
+                        break
+                     }
+                     printSuccess(`Re-encrypted ${vaultLabel(vault)} to ${recipients.length} recipients`)
+                  } else {
+                     const recipients = await vaultUntrust(pubkey, vault)
+                     if (!recipients) {
+                        printWarning(`Public key is not a recipient of ${vaultLabel(vault)} — nothing to do.`)
+                        break
+                     }
+                     printSuccess(
+                        `Re-encrypted ${vaultLabel(vault)} to ${recipients.length} remaining recipients`
+                     )
+                     printWarning(
+                        "The removed key could read the values before; rotate them if it should not keep them."
+                     )
+                  }
+                  break
+               }
+               case "recipients": {
+                  const recipients = await listVaultRecipients(vault)
+                  if (recipients.length === 0) {
+                     printInfo(
+                        `The ${vaultLabel(vault)} is not shared; it is encrypted to your identity only.`
+                     )
+                     break
+                  }
+                  for (const recipient of recipients) {
+                     print(`  ${recipient}`)
+                  }
+                  const signature = await readVaultSignature(vault)
+                  print(signature ? `Signed by ${signature.signer}` : "Not signed")
+                  break
+               }
+               case "sign": {
+                  const recipients = await vaultSign(vault)
+                  printSuccess(`Signed ${recipients.length} recipients of ${vaultLabel(vault)}`)
+                  break
+               }
+               case "link": {
+                  const file = vaultArgs[2]
+                  if (!file) {
+                     throw new Error(
+                        "Missing vault file. Usage: secenvs vault link <path/to/vault.age> [--name <vault>]"
+                     )
+                  }
+                  const linked = linkVault(vault, file)
+                  printSuccess(`Linked ${vaultLabel(vault)} to ${linked}`)
+                  if (!fs.existsSync(linked)) {
+                     printInfo("The file does not exist yet; the next write to the vault creates it.")
+                  }
+                  break
+               }
+               case "unlink": {
+                  const vaultPath = linkVault(vault, null)
+                  printSuccess(`Unlinked ${vaultLabel(vault)}; it uses ${vaultPath} again`)
+                  break
+               }
+               case "export": {
+                  const toIndex = vaultArgs.indexOf("--to")
+                  const to = toIndex !== -1 ? vaultArgs[toIndex + 1] : undefined
+                  if (!to) {
+                     throw new Error(
+                        "Missing --to argument. Usage: secenvs vault export --to <public-key|passphrase> [--name <vault>] [--include-identity] > bundle.age"
+                     )
                   }
-                  await vaultDelete(key)
-                  printSuccess(`Deleted ${key} from global vault`)
+                  // Without --name, every vault goes into the bundle
+                  const vaults = listVaults()
+                  if (vaultName !== undefined && !vaults.includes(vault)) {
+                     throw new VaultError(`There is no ${vaultLabel(vault)} to export.`)
+                  }
+                  await cmdVaultExport(
+                     to,
+                     vaultName !== undefined ? [vault] : vaults,
+                     vaultArgs.includes("--include-identity")
+                  )
+                  break
+               }
+               case "import": {
+                  const file = vaultArgs[2]
+                  if (!file || file.startsWith("--")) {
+                     throw new Error(
+                        "Missing bundle file. Usage: secenvs vault import <bundle> [--prefer-local|--prefer-incoming|--interactive] [--name <vault>] [--passphrase]"
+                     )
+                  }
+                  const strategies = (["prefer-local", "prefer-incoming", "interactive"] as const).filter(
+                     (strategy) => vaultArgs.includes(`--${strategy}`)
+                  )
+                  if (strategies.length > 1) {
+                     throw new Error("Choose one of --prefer-local, --prefer-incoming and --interactive.")
+                  }
+                  await cmdVaultImport(
+                     file,
+                     strategies[0] ?? null,
+                     vaultName !== undefined ? vault : undefined,
+                     vaultArgs.includes("--passphrase")
+                  )
                   break
                }
                default:
-                  throw new Error("Invalid vault subcommand. Usage: secenvs vault <set|get|list|delete>")
+                  throw new Error(
+                     "Invalid vault subcommand. Usage: secenvs vault <set|get|list|delete|history|restore|usages|trust|untrust|recipients|sign|link|unlink|export|import> [--name <vault>]"
+                  )
             }
             break
          }
@@ -893,11 +2708,79 @@ async function main() {
                if (!identityExists()) {
                   throw new IdentityNotFoundError(getDefaultKeyPath())
                }
+               if (args.includes("--wrapped")) {
+                  const stored = readIdentityFile()
+                  if (isProtectedIdentity(stored)) {
+                     process.stdout.write(stored)
+                  } else {
+                     const passphrase = await readPassphrase("Passphrase to protect the export: ", {
+                        confirm: true,
+                     })
+                     process.stdout.write(await wrapIdentity(stored, passphrase))
+                  }
+                  break
+               }
                const identity = await loadIdentity()
                process.stdout.write(identity)
                break
             }
-            throw new Error("Invalid key subcommand. Usage: secenvs key export")
+            if (subCommand === "generate") {
+               const nameIndex = args.indexOf("--name")
+               const name = nameIndex !== -1 ? args[nameIndex + 1] : undefined
+               if (!name) {
+                  throw new Error("Missing --name argument. Usage: secenvs key generate --name <name>")
+               }
+               await cmdKeyGenerate(name, args.includes("--passphrase"), args.includes("--pq"))
+               break
+            }
+            if (subCommand === "list") {
+               await cmdKeyList()
+               break
+            }
+            if (subCommand === "use") {
+               const name = args[2]
+               if (!name || name.startsWith("--")) {
+                  throw new Error("Missing name argument. Usage: secenvs key use <name> [--project]")
+               }
+               await cmdKeyUse(name, args.includes("--project"))
+               break
+            }
+            if (subCommand === "rotate") {
+               const nameIndex = args.indexOf("--name")
+               const name = nameIndex !== -1 ? args[nameIndex + 1] : undefined
+               const projectDirs = args
+                  .slice(2)
+                  .filter((a, i, all) => !a.startsWith("--") && all[i - 1] !== "--name")
+               await cmdKeyRotate(projectDirs, args.includes("--resume"), name)
+               break
+            }
+            if (subCommand === "backup") {
+               const sharesIndex = args.indexOf("--shares")
+               const thresholdIndex = args.indexOf("--threshold")
+               if (sharesIndex === -1 || thresholdIndex === -1) {
+                  throw new Error(
+                     "Missing arguments. Usage: secenvs key backup --shares <n> --threshold <k> [--name <name>]"
+                  )
+               }
+               const nameIndex = args.indexOf("--name")
+               await cmdKeyBackup(
+                  Number(args[sharesIndex + 1]),
+                  Number(args[thresholdIndex + 1]),
+                  nameIndex !== -1 ? args[nameIndex + 1] : undefined
+               )
+               break
+            }
+            if (subCommand === "recover") {
+               const nameIndex = args.indexOf("--name")
+               await cmdKeyRecover(
+                  args.includes("--passphrase"),
+                  nameIndex !== -1 ? args[nameIndex + 1] : undefined
+               )
+               break
+            }
+            throw new Error(
+               "Invalid key subcommand. Usage: secenvs key <export|generate|list|use|rotate|backup|recover>"
+            )
          }
 
          case "migrate": {
@@ -934,34 +2817,86 @@ async function main() {
          default:
             print("secenvs - The Breeze: Secret management without the overhead")
             print("")
-            print("Usage: secenvs <command> [arguments]")
+            print("Usage: secenvs [--file <path>] [--env <name>] <command> [arguments]")
+            print("")
+            print("  --file <path>     Use this .secenvs (or set SECENV_FILE) instead of searching up to the")
+            print("                    git root. Must come before the command")
+            print("  --env <name>      Use .secenvs.<name>, layered over .secenvs (or set SECENV_ENV)")
             print("")
             print("Commands:")
             print("  init              Bootstrap identity and create .secenvs/.gitignore")
+            print("  init --passphrase Protect the new identity with a passphrase")
+            print("  init --pq         Create a post-quantum hybrid (ML-KEM + X25519) identity")
             print("  set KEY [VALUE]    Encrypt a value into .secenvs (primary method)")
+            print("  set KEY --file <path>  Encrypt a file's contents as-is (certificates, .p12, JSON keys)")
             print("  set KEY [VALUE] --base64  Encrypt a base64 value (for binary data)")
             print("  get KEY           Decrypt and print a specific key value")
+            print("  get KEY --raw     Write the exact bytes of a binary value (e.g. > cert.p12)")
             print("  log               Show the cryptographically recorded audit log")
             print("  list              List all available key names (values hidden)")
             print("  delete KEY        Remove a key from .secenvs")
             print("  rotate KEY [VALUE] Update a secret value and re-encrypt")
             print("  export [--force]  Dump all decrypted secrets (requires --force)")
             print("  key export        Export private key for CI/CD")
+            print("  key export --wrapped  Export the passphrase-protected private key")
+            print("  key generate --name <name>  Create an additional named identity")
+            print("  key list          List local identities (* marks the active one)")
+            print("  key use <name> [--project]  Switch identity, or pin it for this project")
+            print("  key rotate [dirs...] [--name <name>] [--resume]  Replace an identity and re-encrypt")
+            print("  key backup --shares <n> --threshold <k>  Split the identity into recovery shares")
+            print("  key recover [--name <name>] [--passphrase]  Rebuild an identity from shares on stdin")
             print("  doctor            Health check: identity, file integrity, decryption")
+            print("  upgrade-format    Bind values encrypted by older versions to their key names")
+            print(
+               "  fmt [--check]     Sort .secenvs into the canonical layout (--check: exit 1 if it is not)"
+            )
             print("  migrate [file]    Migrate an existing .env file interactively")
             print("  run -- <cmd>      Run an arbitrary command with decrypted secrets injected")
             print("  install-hooks     Install git pre-commit hooks to block plaintext .env files")
             print("  uninstall-hooks   Remove the git pre-commit hooks")
             print("  trust <pubkey>    Add a recipient; re-encrypts all secrets")
             print("  untrust <pubkey>  Remove a recipient; re-encrypts all secrets")
+            print("                    (age1... keys, or ssh-ed25519 / ssh-rsa public keys)")
+            print("  trust --github-keys-file <file>  Trust every key in an authorized_keys-style file")
+            print("  trust <pubkey> --label <name>  Trust a key and record who it belongs to")
+            print("  untrust <label>   Remove every recipient with that label")
+            print("  recipients list   Show recipients and their labels")
+            print("  recipients rename <pubkey|label> <label>  Change a recipient's label")
+            print("  recipients sign   Sign the recipient list and file contents after reviewing them")
+            print("  request-access [--label <name>]  Ask to be added as a recipient (commit the result)")
+            print("  approve [label|pubkey]  Trust a pending requester and re-encrypt")
+            print("  reject [label|pubkey]   Discard a pending access request")
+            print("  set KEY [VALUE] --group <group>  Encrypt a value only to a group's members")
+            print("  group add <group> <pubkey|label>  Add a recipient to a group")
+            print("  group remove <group> <pubkey|label>  Remove a recipient from a group")
+            print("  group list        Show groups, their members and the keys they can read")
             print("  vault <cmd>       Global vault: set, get, list, delete")
             print("")
             print("Vault Commands:")
             print("  vault set KEY [VAL]  Store a shared secret in $SECENV_HOME/.secenvs/vault.age")
             print("                       (defaults to ~/.secenvs/vault.age)")
             print("  vault get KEY        Print a value from the global vault")
-            print("  vault list           List all keys in the global vault")
-            print("  vault delete KEY     Remove a key from the global vault")
+            print("  vault list           List every vault and its keys")
+            print(
+               "  vault delete KEY     Remove a key from the global vault (--force if projects still use it)"
+            )
+            print("  vault usages KEY     List the project keys that reference a vault key")
+            print("  vault history KEY    List the saved versions of a vault key")
+            print("  vault restore KEY --version <n>  Make an earlier version current again")
+            print("  vault trust <pubkey>    Share the vault: re-encrypt it to another recipient")
+            print("  vault untrust <pubkey>  Stop encrypting the vault to a recipient")
+            print("  vault recipients        List a shared vault's recipients and who signed the list")
+            print("  vault sign              Sign a shared vault's recipient list after reviewing it")
+            print("  vault link <path>       Keep the vault in this file, e.g. in a shared repository")
+            print("  vault unlink            Use the vault in ~/.secenvs again")
+            print(
+               "  vault export --to <pubkey|passphrase>  Write every vault to an encrypted bundle on stdout"
+            )
+            print("  vault export ... --include-identity    Put the active identity in the bundle too")
+            print("  vault import <bundle> [--prefer-local|--prefer-incoming|--interactive]  Merge a bundle")
+            print("  vault import ... --passphrase  Protect an identity from the bundle with a passphrase")
+            print("  vault <cmd> --name <vault>  Use the named vault ~/.secenvs/vaults/<vault>.age")
+            print("                       (reference its keys as vault:<vault>/KEY)")
             print("")
             break
       }
@@ -45,10 +45,21 @@ export function parseDotenvFallback(filePath: string): DotenvLine[] {
       const key = trimmed.slice(0, eqIndex).trim()
       let value = trimmed.slice(eqIndex + 1).trim()
 
+      // A quoted value may continue over the following lines until its closing quote (PEM keys)
+      const quote = value[0]
+      if ((quote === '"' || quote === "'") && value.indexOf(quote, 1) === -1) {
+         let end = i + 1
+         while (end < lines.length && !lines[end].trimEnd().endsWith(quote)) end++
+         if (end < lines.length) {
+            value = [value, ...lines.slice(i + 1, end), lines[end].trimEnd()].join("\n")
+            i = end
+         }
+      }
+
       // Inline comments removal (simplistic, just look for # with preceding spaces)
       // This might strip valid # inside quotes, but fine for migration fallback
       const commentIndex = value.indexOf(" #")
-      if (commentIndex !== -1) {
+      if (commentIndex !== -1 && !value.includes("\n")) {
          value = value.slice(0, commentIndex).trim()
       }
 
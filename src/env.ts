@@ -1,41 +1,99 @@
 import * as fs from "node:fs"
 import * as path from "node:path"
 import * as age from "age-encryption"
-import { loadIdentity, identityExists, decrypt as decryptValue, getDefaultKeyPath } from "./age.js"
-import { parseEnvFile, findKey, getEnvPath, ENCRYPTED_PREFIX, isVaultReference } from "./parse.js"
+import {
+   AgeIdentity,
+   loadIdentities,
+   decrypt as decryptValue,
+   isProtectedIdentity,
+   unwrapIdentity,
+   readPassphrase,
+   verifyFileMac,
+   MAC_METADATA_KEY,
+} from "./age.js"
+import {
+   parseEnvFile,
+   findKey,
+   getEnvPaths,
+   getEnvironmentOfPath,
+   ParsedLine,
+   ENCRYPTED_PREFIX,
+   isVaultReference,
+   parseVaultReference,
+   resolveIncludes,
+} from "./parse.js"
 import {
    DecryptionError,
    SecretNotFoundError,
    IdentityNotFoundError,
    VaultError,
    SchemaValidationError,
+   IntegrityError,
+   ParseError,
 } from "./errors.js"
 import { constantTimeHas } from "./crypto-utils.js"
 import { vaultGet } from "./vault.js"
+import { recordVaultUsage } from "./registry.js"
+import { openEnvelope } from "./envelope.js"
+import { interpolate } from "./interpolate.js"
+
+/** Environment variable that turns on strict mode for the default `env` export and `secenvs run`. */
+export const STRICT_ENV_VAR = "SECENV_STRICT"
+
+export interface SecenvOptions {
+   /**
+    * Refuse to load a .secenvs file whose `_MAC` is missing or does not match, instead of emitting
+    * a warning. Defaults to true when SECENV_STRICT=1.
+    */
+   strict?: boolean
+}
 
-interface CacheEntry {
+interface ResolvedValue {
    value: string
+   /** `value` holds the base64 encoding of a binary secret. */
+   binary?: boolean
+   /** The .secenvs line a text value came from; only those values have their `${KEY}` references expanded. */
+   line?: ParsedLine
+}
+
+interface CacheEntry extends ResolvedValue {
    decryptedAt: number
 }
 
+/**
+ * One parsed file of the layered lookup: `.secenvs.<env>` first, then `.secenvs`, each followed by
+ * the files it includes.
+ */
+interface EnvLayer {
+   path: string
+   parsed: ReturnType<typeof parseEnvFile>
+   timestamp: number
+   size: number
+}
+
 class SecenvSDK {
-   #identity: string | null = null
-   #identityPromise: Promise<string> | null = null
+   #identity: AgeIdentity[] | null = null
+   #identityPromise: Promise<AgeIdentity[]> | null = null
    #cache: Map<string, CacheEntry> = new Map()
-   #cacheTimestamp: number = 0
-   #cacheSize: number = 0
-   #parsedEnv: ReturnType<typeof parseEnvFile> | null = null
+   #layers: EnvLayer[] = []
    #lastPath: string = ""
+   #strict: boolean
+
+   // SECENV_ENV is read on every access, so switching environments behaves like changing directory
+   get #envPaths(): string[] {
+      return getEnvPaths().map((envPath) => path.resolve(envPath))
+   }
 
    get #envPath(): string {
-      return path.resolve(getEnvPath())
+      return this.#envPaths[0]
    }
 
-   constructor() {
+   constructor(options: SecenvOptions = {}) {
       this.#cache = new Map()
+      this.#strict = options.strict ?? false
    }
 
-   private async loadIdentity(): Promise<string> {
+   private async loadIdentity(): Promise<AgeIdentity[]> {
       if (this.#identity) {
          return this.#identity
       }
@@ -63,62 +121,155 @@ class SecenvSDK {
             throw new IdentityNotFoundError("SECENV_ENCODED_IDENTITY")
          }
 
+         const decoded = Buffer.from(encoded, "base64").toString("utf-8")
+         if (isProtectedIdentity(decoded)) {
+            const passphrase = await readPassphrase("Passphrase for SECENV_ENCODED_IDENTITY: ")
+            this.#identity = [await unwrapIdentity(decoded, passphrase)]
+            return this.#identity
+         }
+
          try {
-            const decoded = Buffer.from(encoded, "base64")
-            const privateKey = decoded.toString("utf-8")
-            if (!privateKey.startsWith("AGE-SECRET-KEY-1")) {
+            const privateKey = decoded
+            if (!privateKey.startsWith("AGE-SECRET-KEY-1") && !privateKey.startsWith("AGE-SECRET-KEY-PQ-1")) {
                throw new Error("Invalid age identity")
             }
-            this.#identity = privateKey
+            this.#identity = [privateKey]
             return this.#identity
          } catch (error) {
             throw new IdentityNotFoundError("SECENV_ENCODED_IDENTITY")
          }
       }
 
-      if (!identityExists()) {
-         throw new IdentityNotFoundError(getDefaultKeyPath())
-      }
-
-      this.#identityPromise = loadIdentity().then((identity) => {
-         this.#identity = identity
-         this.#identityPromise = null
-         return this.#identity
-      })
+      this.#identityPromise = loadIdentities(this.#envPath).then(
+         (identities) => {
+            this.#identity = identities
+            this.#identityPromise = null
+            return this.#identity
+         },
+         (error) => {
+            this.#identityPromise = null
+            throw error
+         }
+      )
 
       return this.#identityPromise
    }
 
    private reloadEnv(): void {
-      const currentPath = this.#envPath
+      const paths = this.#envPaths
+      const currentPath = paths.join(path.delimiter)
 
-      // If the path changed (e.g. CWD change), clear cache and force reload
+      // If the path changed (e.g. CWD or environment change), clear cache and force reload
       if (currentPath !== this.#lastPath) {
          this.clearCache()
          this.#lastPath = currentPath
       }
 
-      if (!fs.existsSync(currentPath)) {
-         this.#parsedEnv = null
-         this.#cache.clear()
-         this.#cacheTimestamp = 0
-         this.#cacheSize = 0
-         return
+      // Each file is followed by the files it includes, which are checked and reloaded on their own
+      const loaded = new Map<string, EnvLayer>()
+      let changed = false
+      const load = (envPath: string) => {
+         const stats = fs.statSync(envPath)
+         const previous = this.#layers.find((layer) => layer.path === envPath)
+         if (previous && previous.timestamp === stats.mtimeMs && previous.size === stats.size) {
+            loaded.set(envPath, previous)
+            return previous.parsed
+         }
+
+         this.verifyIntegrity(envPath)
+         const layer = {
+            path: envPath,
+            parsed: parseEnvFile(envPath),
+            timestamp: stats.mtimeMs,
+            size: stats.size,
+         }
+         loaded.set(envPath, layer)
+         changed = true
+         return layer.parsed
       }
+      const layers = resolveIncludes(paths, load).map((envPath) => loaded.get(envPath)!)
 
-      const stats = fs.statSync(currentPath)
-      const newTimestamp = stats.mtimeMs
-      const newSize = stats.size
+      if (changed || layers.length !== this.#layers.length) {
+         this.#cache.clear() // Clear cache when a file changes, appears or disappears
+      }
+      this.#layers = layers
+   }
+
+   /**
+    * Checks a file against its `_MAC` whenever it is (re)loaded. A mismatch is a warning unless
+    * strict mode is on, in which case a missing `_MAC` is refused too.
+    */
+   private verifyIntegrity(envPath: string): void {
+      const strict = this.#strict || process.env[STRICT_ENV_VAR] === "1"
+      try {
+         if (!verifyFileMac(envPath) && strict) {
+            throw new IntegrityError(`${envPath} has no ${MAC_METADATA_KEY} line and strict mode is on.`)
+         }
+      } catch (error) {
+         if (strict || !(error instanceof IntegrityError)) {
+            throw error
+         }
+         process.emitWarning(error.message, "SecenvIntegrityWarning")
+      }
+   }
 
-      if (newTimestamp !== this.#cacheTimestamp || newSize !== this.#cacheSize || !this.#parsedEnv) {
-         this.#parsedEnv = parseEnvFile(currentPath)
-         this.#cacheTimestamp = newTimestamp
-         this.#cacheSize = newSize
-         this.#cache.clear() // Clear cache when file changes
+   private findLine(key: string): { line: ParsedLine; layer: EnvLayer } | null {
+      for (const layer of this.#layers) {
+         const line = findKey(layer.parsed, key)
+         if (line) {
+            return { line, layer }
+         }
       }
+      return null
    }
 
+   /**
+    * Returns a secret as a string, with its `${KEY}` references expanded. Binary values (stored with
+    * `secenvs set KEY --file`) are returned base64-encoded; use getBuffer() for their bytes.
+    */
    async get<T extends string = string>(key: string): Promise<T> {
+      return (await this.expand(key, [])).value as T
+   }
+
+   /** Returns a secret's exact bytes, for keystores, `.p12` certificates and other binary values. */
+   async getBuffer(key: string): Promise<Buffer> {
+      const { value, binary } = await this.expand(key, [])
+      return Buffer.from(value, binary ? "base64" : "utf-8")
+   }
+
+   /**
+    * Expands the `${KEY}` references in a value read from .secenvs. Values from process.env and the
+    * vault are used as they are. `chain` holds the keys being expanded, to report reference cycles.
+    */
+   private async expand(key: string, chain: string[]): Promise<ResolvedValue> {
+      const resolved = await this.resolve(key)
+      const { line } = resolved
+      if (!line || resolved.binary) {
+         return resolved
+      }
+
+      const value = await interpolate(resolved.value, async (name) => {
+         if (name === key || chain.includes(name)) {
+            const cycle = [...chain, key, name].join(" -> ")
+            throw new ParseError(line.lineNumber, line.raw, `Circular reference between keys: ${cycle}`)
+         }
+         try {
+            return (await this.expand(name, [...chain, key])).value
+         } catch (error) {
+            if (error instanceof SecretNotFoundError) {
+               throw new ParseError(
+                  line.lineNumber,
+                  line.raw,
+                  `${key} references \${${name}}, which is not set`
+               )
+            }
+            throw error
+         }
+      })
+      return { value }
+   }
+
+   private async resolve(key: string): Promise<ResolvedValue> {
       // 1. Check process.env first (highest priority)
       let envValue: string | undefined = undefined
       for (const k in process.env) {
@@ -127,70 +278,83 @@ class SecenvSDK {
          }
       }
       if (envValue !== undefined) {
-         return envValue as T
+         return { value: envValue }
       }
 
       this.reloadEnv()
 
       // Cache lookup - using true private field
-      let cachedValue: string | undefined = undefined
+      let cachedValue: CacheEntry | undefined = undefined
       for (const [k, entry] of this.#cache.entries()) {
          if (k === key) {
-            cachedValue = entry.value
+            cachedValue = entry
          }
       }
       if (cachedValue !== undefined) {
-         return cachedValue as T
-      }
-
-      if (!this.#parsedEnv) {
-         throw new SecretNotFoundError(key)
+         return cachedValue
       }
 
-      const line = findKey(this.#parsedEnv, key)
-      if (!line || line.key.startsWith("_")) {
+      const found = this.findLine(key)
+      if (!found || found.line.key.startsWith("_")) {
          throw new SecretNotFoundError(key)
       }
+      const { line, layer } = found
 
       if (!line.encrypted) {
          const value = line.value
 
          // 4. Handle vault references in plaintext
          if (isVaultReference(value)) {
-            const vaultKey = value.slice("vault:".length)
-            const vaultValue = await vaultGet(vaultKey)
-            if (vaultValue === undefined) {
-               throw new VaultError(
-                  `Vault key '${vaultKey}' referenced by '${key}' not found in global vault.`
-               )
-            }
-            // Do not cache vault-derived values in the project cache to avoid serving stale data if the vault changes.
-            return vaultValue as T
+            return this.resolveVaultReference(key, value, layer.path)
          }
 
-         this.#cache.set(key, { value, decryptedAt: Date.now() })
-         return value as T
+         this.#cache.set(key, { value, line, decryptedAt: Date.now() })
+         return { value, line }
       }
 
       const identity = await this.loadIdentity()
       const encryptedMessage = line.value.slice(ENCRYPTED_PREFIX.length)
-      const decrypted = await decryptValue(identity, encryptedMessage)
-      const decryptedString = decrypted.toString("utf-8")
+      const decrypted = openEnvelope(
+         key,
+         getEnvironmentOfPath(layer.path),
+         await decryptValue(identity, encryptedMessage)
+      )
+      if (decrypted.binary) {
+         const entry = { value: decrypted.value.toString("base64"), binary: true, decryptedAt: Date.now() }
+         this.#cache.set(key, entry)
+         return entry
+      }
+      const decryptedString = decrypted.value.toString("utf-8")
 
-      this.#cache.set(key, { value: decryptedString, decryptedAt: Date.now() })
+      this.#cache.set(key, { value: decryptedString, line, decryptedAt: Date.now() })
 
       // 5. Handle vault references if decrypted value starts with vault:
       if (isVaultReference(decryptedString)) {
-         const vaultKey = decryptedString.slice("vault:".length)
-         const vaultValue = await vaultGet(vaultKey)
-         if (vaultValue === undefined) {
-            throw new VaultError(`Vault key '${vaultKey}' referenced by '${key}' not found in global vault.`)
-         }
-         // Do not cache vault-derived values in the project cache to avoid serving stale data if the vault changes.
-         return vaultValue as T
+         return this.resolveVaultReference(key, decryptedString, layer.path)
       }
 
-      return decryptedString as T
+      return { value: decryptedString, line }
+   }
+
+   /**
+    * Looks up a `vault:KEY` or `vault:<vault>/KEY` reference held by `key` in the file at `envPath`,
+    * and records the usage for `secenvs vault usages`.
+    */
+   private async resolveVaultReference(
+      key: string,
+      reference: string,
+      envPath: string
+   ): Promise<ResolvedValue> {
+      const { vault, key: vaultKey } = parseVaultReference(reference)
+      const vaultValue = await vaultGet(vaultKey, vault)
+      if (vaultValue === undefined) {
+         const where = vault ? `vault '${vault}'` : "global vault"
+         throw new VaultError(`Vault key '${vaultKey}' referenced by '${key}' not found in ${where}.`)
+      }
+      // The registry is a convenience; failing to update it must not fail the lookup
+      await recordVaultUsage(envPath, key, reference).catch(() => {})
+      // Do not cache vault-derived values in the project cache to avoid serving stale data if the vault changes.
+      return { value: vaultValue }
    }
 
    has(key: string): boolean {
@@ -202,9 +366,11 @@ class SecenvSDK {
       }
 
       this.reloadEnv()
-      if (this.#parsedEnv && !key.startsWith("_")) {
-         if (constantTimeHas(this.#parsedEnv.keys, key)) {
-            found = true
+      if (!key.startsWith("_")) {
+         for (const layer of this.#layers) {
+            if (constantTimeHas(layer.parsed.keys, key)) {
+               found = true
+            }
          }
       }
       return found
@@ -213,8 +379,8 @@ class SecenvSDK {
    keys(): string[] {
       const allKeys = new Set(Object.keys(process.env))
       this.reloadEnv()
-      if (this.#parsedEnv) {
-         for (const key of this.#parsedEnv.keys) {
+      for (const layer of this.#layers) {
+         for (const key of layer.parsed.keys) {
             if (!key.startsWith("_")) {
                allKeys.add(key)
             }
@@ -229,9 +395,7 @@ class SecenvSDK {
 
    clearCache(): void {
       this.#cache.clear()
-      this.#cacheTimestamp = 0
-      this.#cacheSize = 0
-      this.#parsedEnv = null
+      this.#layers = []
    }
 }
 
@@ -255,8 +419,8 @@ function wrapInProxy(sdk: SecenvSDK): Secenv {
    }) as unknown as Secenv
 }
 
-export function createSecenv(): Secenv {
-   return wrapInProxy(new SecenvSDK())
+export function createSecenv(options: SecenvOptions = {}): Secenv {
+   return wrapInProxy(new SecenvSDK(options))
 }
 
 export const env = wrapInProxy(globalSDK)
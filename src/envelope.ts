@@ -0,0 +1,84 @@
+import { DecryptionError } from "./errors.js"
+
+/**
+ * Binds an encrypted value to the key name and environment it is stored under, so swapping two
+ * `enc:age:` lines, or copying one into another environment's file, fails on decryption instead of
+ * returning the wrong secret. The envelope is encrypted together with the value:
+ *
+ *   secenvs-bound-v1 \n KEY \n environment (empty for the base .secenvs) \n value bytes
+ *
+ * Binary values (keystores, `.p12` files) use the `secenvs-bound-binary-v1` header instead, so readers
+ * know not to decode them as UTF-8.
+ *
+ * Values encrypted before the envelope existed decrypt to the bare value. They are still accepted,
+ * but `secenvs doctor` reports them until `secenvs upgrade-format` rewrites them.
+ */
+
+const ENVELOPE_HEADER = "secenvs-bound-v1\n"
+const BINARY_ENVELOPE_HEADER = "secenvs-bound-binary-v1\n"
+
+export interface OpenedValue {
+   value: Buffer
+   /** The value was stored as raw bytes and is not UTF-8 text. */
+   binary: boolean
+}
+
+export function sealValue(
+   key: string,
+   environment: string | null,
+   value: string | Uint8Array,
+   options: { binary?: boolean } = {}
+): Buffer {
+   const header = options.binary ? BINARY_ENVELOPE_HEADER : ENVELOPE_HEADER
+   return Buffer.concat([
+      Buffer.from(`${header}${key}\n${environment ?? ""}\n`),
+      typeof value === "string" ? Buffer.from(value) : Buffer.from(value),
+   ])
+}
+
+function envelopeHeader(plaintext: Buffer): string | null {
+   for (const header of [ENVELOPE_HEADER, BINARY_ENVELOPE_HEADER]) {
+      if (plaintext.subarray(0, header.length).toString() === header) {
+         return header
+      }
+   }
+   return null
+}
+
+export function isSealedValue(plaintext: Buffer): boolean {
+   return envelopeHeader(plaintext) !== null
+}
+
+/**
+ * Returns the value inside an envelope after checking it was sealed for this key and environment.
+ * Unsealed (legacy) values are returned unchanged.
+ * Throws DecryptionError if the envelope names a different key or environment.
+ */
+export function openValue(key: string, environment: string | null, plaintext: Buffer): Buffer {
+   return openEnvelope(key, environment, plaintext).value
+}
+
+/** Like openValue, but also reports whether the value was sealed as binary. */
+export function openEnvelope(key: string, environment: string | null, plaintext: Buffer): OpenedValue {
+   const header = envelopeHeader(plaintext)
+   if (!header) {
+      return { value: plaintext, binary: false }
+   }
+
+   const keyEnd = plaintext.indexOf("\n", header.length)
+   const environmentEnd = keyEnd === -1 ? -1 : plaintext.indexOf("\n", keyEnd + 1)
+   if (environmentEnd === -1) {
+      throw new DecryptionError(`Value of ${key} has a malformed key binding`)
+   }
+
+   const boundKey = plaintext.subarray(header.length, keyEnd).toString()
+   const boundEnvironment = plaintext.subarray(keyEnd + 1, environmentEnd).toString() || null
+   if (boundKey !== key || boundEnvironment !== environment) {
+      const describe = (name: string, env: string | null) => (env ? `${name} in '${env}'` : name)
+      throw new DecryptionError(
+         `Value of ${describe(key, environment)} was encrypted for ${describe(boundKey, boundEnvironment)}. ` +
+            "The ciphertext was moved from another key or environment."
+      )
+   }
+   return { value: plaintext.subarray(environmentEnd + 1), binary: header === BINARY_ENVELOPE_HEADER }
+}
@@ -9,6 +9,7 @@ export const SECENV_ERROR_CODES = {
    RECIPIENT_ERROR: "RECIPIENT_ERROR",
    VAULT_ERROR: "VAULT_ERROR",
    SCHEMA_VALIDATION_ERROR: "SCHEMA_VALIDATION_ERROR",
+   INTEGRITY_ERROR: "INTEGRITY_ERROR",
 } as const
 
 export type SecenvErrorCode = (typeof SECENV_ERROR_CODES)[keyof typeof SECENV_ERROR_CODES]
@@ -93,3 +94,9 @@ export class SchemaValidationError extends SecenvError {
       this.issues = issues
    }
 }
+
+export class IntegrityError extends SecenvError {
+   constructor(message: string) {
+      super(SECENV_ERROR_CODES.INTEGRITY_ERROR, message)
+   }
+}
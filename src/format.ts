@@ -0,0 +1,138 @@
+import {
+   AUDIT_METADATA_KEY,
+   IDENTITY_HINT_METADATA_KEY,
+   MAC_METADATA_KEY,
+   RECIPIENT_METADATA_KEY,
+   SIGNATURE_METADATA_KEY,
+} from "./age.js"
+import { ACCESS_METADATA_KEY, GROUP_METADATA_KEY, PENDING_METADATA_KEY } from "./access.js"
+import { INCLUDE_METADATA_KEY } from "./parse.js"
+
+/**
+ * The canonical layout of a .secenvs file, written by `secenvs fmt`:
+ *
+ *   # Comment block at the top of the file, ended by a blank line
+ *
+ *   _IDENTITY_HINT, _INCLUDE, _RECIPIENT, _SIGNATURE, _MAC, _GROUP, _ACCESS, _PENDING
+ *
+ *   Keys, sorted by name; keys sharing a prefix (DB_HOST, DB_PASS) form a block of their own
+ *
+ *   _AUDIT lines, in the order they were appended
+ *
+ * The comments directly above a line move with it. Lines with the same metadata key keep their
+ * relative order: it matters for `_INCLUDE`, the `_SIGNATURE` over the recipients and the audit chain.
+ */
+
+/** Metadata that precedes the keys, in this order. Unknown metadata keys follow them. */
+const HEADER_METADATA_KEYS = [
+   IDENTITY_HINT_METADATA_KEY,
+   INCLUDE_METADATA_KEY,
+   RECIPIENT_METADATA_KEY,
+   SIGNATURE_METADATA_KEY,
+   MAC_METADATA_KEY,
+   GROUP_METADATA_KEY,
+   ACCESS_METADATA_KEY,
+   PENDING_METADATA_KEY,
+]
+
+interface Entry {
+   key: string
+   /** The comments attached to the entry, followed by the entry's own line. */
+   lines: string[]
+}
+
+/** Drops leading and trailing blank lines and collapses runs of them. */
+function tidyBlankLines(lines: string[]): string[] {
+   const result: string[] = []
+   for (const line of lines) {
+      if (!line && (result.length === 0 || !result[result.length - 1])) continue
+      result.push(line)
+   }
+   while (result.length > 0 && !result[result.length - 1]) {
+      result.pop()
+   }
+   return result
+}
+
+function keyPrefix(key: string): string {
+   const underscore = key.indexOf("_", 1)
+   return underscore === -1 ? key : key.slice(0, underscore)
+}
+
+function headerRank(key: string): number {
+   const index = HEADER_METADATA_KEYS.indexOf(key)
+   return index === -1 ? HEADER_METADATA_KEYS.length : index
+}
+
+/**
+ * Rewrites the content of a .secenvs file into the canonical layout. The content must already parse;
+ * formatting formatted content returns it unchanged.
+ */
+export function formatEnvContent(content: string): string {
+   const lines = content
+      .replace(/^\uFEFF/, "")
+      .split("\n")
+      .map((line) => line.trim())
+
+   let headerComments: string[] = []
+   const entries: Entry[] = []
+   // Comments and blank lines since the last entry
+   let pending: string[] = []
+
+   for (const line of lines) {
+      if (!line || line.startsWith("#")) {
+         pending.push(line)
+         continue
+      }
+
+      if (entries.length === 0) {
+         // A comment block separated from the first entry by a blank line describes the whole file
+         const lastBlank = pending.lastIndexOf("")
+         if (lastBlank > 0 && pending.slice(0, lastBlank).some(Boolean)) {
+            headerComments = tidyBlankLines(pending.slice(0, lastBlank))
+            pending = pending.slice(lastBlank)
+         }
+      }
+
+      entries.push({ key: line.slice(0, line.indexOf("=")), lines: [...tidyBlankLines(pending), line] })
+      pending = []
+   }
+
+   const header = entries
+      .filter((entry) => entry.key.startsWith("_") && entry.key !== AUDIT_METADATA_KEY)
+      .sort((a, b) => headerRank(a.key) - headerRank(b.key))
+   const keys = entries
+      .filter((entry) => !entry.key.startsWith("_"))
+      .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+   const audit = entries.filter((entry) => entry.key === AUDIT_METADATA_KEY)
+
+   const prefixCounts = new Map<string, number>()
+   for (const entry of keys) {
+      prefixCounts.set(keyPrefix(entry.key), (prefixCounts.get(keyPrefix(entry.key)) ?? 0) + 1)
+   }
+   const keyBlocks: Entry[][] = []
+   let previousPrefix: string | null = null
+   for (const entry of keys) {
+      const prefix = keyPrefix(entry.key)
+      const startsBlock =
+         previousPrefix === null ||
+         (prefix !== previousPrefix &&
+            (prefixCounts.get(prefix)! > 1 || prefixCounts.get(previousPrefix)! > 1))
+      if (startsBlock) {
+         keyBlocks.push([])
+      }
+      keyBlocks[keyBlocks.length - 1].push(entry)
+      previousPrefix = prefix
+   }
+
+   const sections = [
+      headerComments,
+      header.flatMap((entry) => entry.lines),
+      ...keyBlocks.map((block) => block.flatMap((entry) => entry.lines)),
+      audit.flatMap((entry) => entry.lines),
+      // Comments below the last entry stay at the end of the file
+      tidyBlankLines(pending),
+   ].filter((section) => section.length > 0)
+
+   return sections.length > 0 ? sections.map((section) => section.join("\n")).join("\n\n") + "\n" : ""
+}
@@ -1,4 +1,4 @@
-export { env, createSecenv, SecenvSDK, createEnv } from "./env.js"
+export { env, createSecenv, SecenvSDK, createEnv, type SecenvOptions } from "./env.js"
 export * from "./errors.js"
 export { loadIdentity, identityExists, getDefaultKeyPath } from "./age.js"
 export { parseEnvFile, getEnvPath } from "./parse.js"
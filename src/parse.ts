@@ -1,9 +1,19 @@
 import * as fs from "node:fs"
 import * as path from "node:path"
-import { ParseError, FileError } from "./errors.js"
-import { safeReadFile } from "./filesystem.js"
+import { ParseError, FileError, ValidationError } from "./errors.js"
+import { safeReadFile, sanitizePath } from "./filesystem.js"
 import { validateKey, validateValue } from "./validators.js"
 import { constantTimeEqual } from "./crypto-utils.js"
+import { findGitRoot } from "./hooks.js"
+
+/** Structured annotations from `# @name value` comments directly above a key. */
+export interface KeyAnnotations {
+   description?: string
+   owner?: string
+   /** Date after which the secret should be rotated, `YYYY-MM-DD`. */
+   expires?: string
+   tags?: string[]
+}
 
 export interface ParsedLine {
    key: string
@@ -11,6 +21,11 @@ export interface ParsedLine {
    encrypted: boolean
    lineNumber: number
    raw: string
+   annotations?: KeyAnnotations
+   /** Annotations above the line that were ignored because they are invalid, e.g. a bad `@expires` date. */
+   annotationWarnings?: string[]
+   /** The file a line was included from with `_INCLUDE`; unset for lines of the parsed file itself. */
+   source?: string
 }
 
 export interface ParsedEnv {
@@ -23,6 +38,9 @@ export interface ParsedEnv {
 export const ENCRYPTED_PREFIX = "enc:age:"
 const VAULT_PREFIX = "vault:"
 
+const ANNOTATION_REGEX = /^#\s*@([a-z]+)\b\s*(.*)$/
+const EXPIRES_REGEX = /^\d{4}-\d{2}-\d{2}$/
+
 // Track active temp files for cleanup on signal/error
 const activeTempFiles = new Set<string>()
 
@@ -34,7 +52,64 @@ export function isVaultReference(value: string): boolean {
    return value.startsWith(VAULT_PREFIX)
 }
 
-export function parseEnvFile(filePath: string): ParsedEnv {
+/** Where a `vault:KEY` or `vault:<vault>/KEY` reference points; `vault` is unset for the default vault. */
+export interface VaultReference {
+   vault?: string
+   key: string
+}
+
+export function parseVaultReference(value: string): VaultReference {
+   const target = value.slice(VAULT_PREFIX.length)
+   const slashIndex = target.indexOf("/")
+   if (slashIndex === -1) {
+      return { key: target }
+   }
+   return { vault: target.slice(0, slashIndex), key: target.slice(slashIndex + 1) }
+}
+
+export function isAnnotationLine(line: string): boolean {
+   return ANNOTATION_REGEX.test(line.trim())
+}
+
+/**
+ * Adds one `# @name value` comment to `annotations`. Unknown names are ignored so that ordinary
+ * comments starting with `@` keep working. Returns a warning instead of failing the parse for an
+ * invalid value, which is left out.
+ */
+function applyAnnotation(annotations: KeyAnnotations, comment: string, lineNumber: number): string | null {
+   const match = ANNOTATION_REGEX.exec(comment)
+   if (!match) return null
+   const [, name, rawValue] = match
+   const value = rawValue.trim()
+
+   switch (name) {
+      case "description":
+         annotations.description = annotations.description ? `${annotations.description} ${value}` : value
+         break
+      case "owner":
+         annotations.owner = value
+         break
+      case "expires":
+         if (
+            !EXPIRES_REGEX.test(value) ||
+            new Date(`${value}T00:00:00Z`).toISOString().slice(0, 10) !== value
+         ) {
+            return `Line ${lineNumber}: invalid @expires date '${value}', ignored. Use YYYY-MM-DD.`
+         }
+         annotations.expires = value
+         break
+      case "tags":
+         annotations.tags = [...(annotations.tags ?? []), ...value.split(/[\s,]+/).filter(Boolean)]
+         break
+   }
+   return null
+}
+
+/**
+ * Parses a .secenvs file. With `followIncludes`, the keys of the files it names in `_INCLUDE` lines
+ * are added after its own (with `source` set), skipping keys the file already defines.
+ */
+export function parseEnvFile(filePath: string, options: { followIncludes?: boolean } = {}): ParsedEnv {
    if (!fs.existsSync(filePath)) {
       return { lines: [], keys: new Set(), encryptedCount: 0, plaintextCount: 0 }
    }
@@ -48,12 +123,23 @@ export function parseEnvFile(filePath: string): ParsedEnv {
    const keys = new Set<string>()
    let encryptedCount = 0
    let plaintextCount = 0
+   // Annotations collected from the comment block above the next key; a blank line ends the block
+   let annotations: KeyAnnotations = {}
+   let annotationWarnings: string[] = []
 
    for (let i = 0; i < lines.length; i++) {
       const lineNumber = i + 1
       const raw = lines[i]
       const trimmed = raw.trim()
 
+      if (!trimmed) {
+         annotations = {}
+         annotationWarnings = []
+      } else if (trimmed.startsWith("#")) {
+         const warning = applyAnnotation(annotations, trimmed, lineNumber)
+         if (warning) annotationWarnings.push(warning)
+      }
+
       if (!trimmed || trimmed.startsWith("#")) {
          parsedLines.push({
             key: "",
@@ -98,7 +184,11 @@ export function parseEnvFile(filePath: string): ParsedEnv {
          encrypted,
          lineNumber,
          raw,
+         ...(!isMetadata && Object.keys(annotations).length > 0 ? { annotations } : {}),
+         ...(!isMetadata && annotationWarnings.length > 0 ? { annotationWarnings } : {}),
       })
+      annotations = {}
+      annotationWarnings = []
 
       keys.add(key)
 
@@ -109,6 +199,21 @@ export function parseEnvFile(filePath: string): ParsedEnv {
       }
    }
 
+   if (options.followIncludes) {
+      for (const includedPath of resolveIncludes([filePath]).slice(1)) {
+         for (const line of parseEnvFile(includedPath).lines) {
+            if (!line.key || line.key.startsWith("_") || keys.has(line.key)) continue
+            parsedLines.push({ ...line, source: includedPath })
+            keys.add(line.key)
+            if (line.encrypted) {
+               encryptedCount++
+            } else {
+               plaintextCount++
+            }
+         }
+      }
+   }
+
    return {
       lines: parsedLines,
       keys,
@@ -127,7 +232,17 @@ export function findKey(env: ParsedEnv, key: string): ParsedLine | null {
    return result
 }
 
-export async function setKey(filePath: string, key: string, encryptedValue: string): Promise<void> {
+export interface WriteOptions {
+   /** Rewrites the final content before it is saved; used to refresh the `_MAC` line. */
+   updateMac?: (content: string) => string
+}
+
+export async function setKey(
+   filePath: string,
+   key: string,
+   encryptedValue: string,
+   options: WriteOptions = {}
+): Promise<void> {
    validateKey(key)
    validateValue(encryptedValue)
 
@@ -165,11 +280,11 @@ export async function setKey(filePath: string, key: string, encryptedValue: stri
             .filter((l, i) => l.trim() !== "" || i < newLines.length - 1)
             .join("\n")
             .trim() + "\n"
-      await writeAtomicRaw(filePath, finalContent)
+      await writeAtomicRaw(filePath, options.updateMac ? options.updateMac(finalContent) : finalContent)
    })
 }
 
-export async function deleteKey(filePath: string, key: string): Promise<void> {
+export async function deleteKey(filePath: string, key: string, options: WriteOptions = {}): Promise<void> {
    validateKey(key)
 
    await withLock(filePath, async () => {
@@ -188,6 +303,10 @@ export async function deleteKey(filePath: string, key: string): Promise<void> {
          if (eqIndex !== -1) {
             const existingKey = trimmed.slice(0, eqIndex)
             if (existingKey === key) {
+               // Its annotations would otherwise attach to the next key
+               while (newLines.length > 0 && isAnnotationLine(newLines[newLines.length - 1])) {
+                  newLines.pop()
+               }
                continue
             }
          }
@@ -199,7 +318,7 @@ export async function deleteKey(filePath: string, key: string): Promise<void> {
             .filter((l, i) => l.trim() !== "" || i < newLines.length - 1)
             .join("\n")
             .trim() + "\n"
-      await writeAtomicRaw(filePath, finalContent)
+      await writeAtomicRaw(filePath, options.updateMac ? options.updateMac(finalContent) : finalContent)
    })
 }
 
@@ -313,6 +432,202 @@ export function cleanupTempFiles(): void {
    activeTempFiles.clear()
 }
 
-export function getEnvPath(): string {
-   return path.join(process.cwd(), ".secenvs")
+/** Environment variable selecting an environment profile: `production` reads `.secenvs.production`. */
+export const ENVIRONMENT_ENV_VAR = "SECENV_ENV"
+
+const ENV_FILE_NAME = ".secenvs"
+const ENVIRONMENT_NAME_REGEX = /^[a-z0-9][a-z0-9_-]*$/
+const MAX_ENVIRONMENT_NAME_LENGTH = 64
+// Suffixes of the files written next to a .secenvs (its lock, a vault-style audit log), never environments
+const RESERVED_ENVIRONMENT_NAMES = ["lock", "audit"]
+
+function isValidEnvironmentName(name: string): boolean {
+   return (
+      ENVIRONMENT_NAME_REGEX.test(name) &&
+      name.length <= MAX_ENVIRONMENT_NAME_LENGTH &&
+      !RESERVED_ENVIRONMENT_NAMES.includes(name)
+   )
+}
+
+export function validateEnvironmentName(name: string): string {
+   const trimmed = name.trim()
+   if (RESERVED_ENVIRONMENT_NAMES.includes(trimmed)) {
+      throw new ValidationError(`Invalid environment name: '${name}' is reserved.`)
+   }
+   if (!isValidEnvironmentName(trimmed)) {
+      throw new ValidationError(
+         `Invalid environment name: '${name}'. Use lowercase letters, numbers, '-' and '_' (max ${MAX_ENVIRONMENT_NAME_LENGTH} characters).`
+      )
+   }
+   return trimmed
+}
+
+/**
+ * Returns the active environment from SECENV_ENV, or null for the base .secenvs.
+ */
+export function getEnvironment(): string | null {
+   const value = process.env[ENVIRONMENT_ENV_VAR]?.trim()
+   return value ? validateEnvironmentName(value) : null
+}
+
+/** Environment variable naming the project's `.secenvs` explicitly, instead of searching for it. */
+export const ENV_FILE_ENV_VAR = "SECENV_FILE"
+
+/**
+ * Finds the directory whose `.secenvs` (or `.secenvs.<env>`) the CLI and SDK use, and says why:
+ * the directory of SECENV_FILE when it is set, otherwise the nearest directory from the current one
+ * up to the git root that has the file. Without a match, the current directory is used.
+ */
+export function resolveProjectDir(): { dir: string; reason: string } {
+   const explicitFile = process.env[ENV_FILE_ENV_VAR]?.trim()
+   if (explicitFile) {
+      if (path.basename(explicitFile) !== ENV_FILE_NAME) {
+         throw new ValidationError(
+            `${ENV_FILE_ENV_VAR} must point to a file named ${ENV_FILE_NAME}, not '${explicitFile}'. Use --env for environment files.`
+         )
+      }
+      return {
+         dir: path.dirname(path.resolve(explicitFile)),
+         reason: `set by ${ENV_FILE_ENV_VAR} (or --file)`,
+      }
+   }
+
+   const cwd = process.cwd()
+   const gitRoot = findGitRoot(cwd)
+   const environment = getEnvironment()
+   const names = environment ? [`${ENV_FILE_NAME}.${environment}`, ENV_FILE_NAME] : [ENV_FILE_NAME]
+   for (let dir = cwd; ; dir = path.dirname(dir)) {
+      // ~/.secenvs is the identity directory, so only files count
+      if (names.some((name) => fs.statSync(path.join(dir, name), { throwIfNoEntry: false })?.isFile())) {
+         return {
+            dir,
+            reason:
+               dir === cwd
+                  ? "found in the current directory"
+                  : `found in ${dir}, above the current directory`,
+         }
+      }
+      if (!gitRoot || dir === gitRoot || path.dirname(dir) === dir) {
+         break
+      }
+   }
+   return {
+      dir: cwd,
+      reason: gitRoot
+         ? `none found up to the git root ${gitRoot}; using the current directory`
+         : "none found in the current directory (not in a git repository)",
+   }
+}
+
+/** The directory the project's .secenvs files live in; see resolveProjectDir. */
+export function getProjectDir(): string {
+   return resolveProjectDir().dir
+}
+
+/**
+ * Returns the .secenvs file that commands write to: `.secenvs.<env>` when an environment is
+ * active, otherwise `.secenvs`.
+ */
+export function getEnvPath(dir: string = getProjectDir()): string {
+   const environment = getEnvironment()
+   return path.join(dir, environment ? `${ENV_FILE_NAME}.${environment}` : ENV_FILE_NAME)
+}
+
+/** Returns the base .secenvs that environment files are layered over. */
+export function getBaseEnvPath(dir: string = getProjectDir()): string {
+   return path.join(dir, ENV_FILE_NAME)
+}
+
+/**
+ * Returns the files a key is looked up in, highest priority first: the environment's file, then
+ * the base .secenvs.
+ */
+export function getEnvPaths(dir: string = getProjectDir()): string[] {
+   const envPath = getEnvPath(dir)
+   const basePath = getBaseEnvPath(dir)
+   return envPath === basePath ? [basePath] : [envPath, basePath]
+}
+
+/** True for `.secenvs` and `.secenvs.<env>` files, as opposed to the vault or other files. */
+export function isEnvFilePath(filePath: string): boolean {
+   const name = path.basename(filePath)
+   return (
+      name === ENV_FILE_NAME ||
+      (name.startsWith(`${ENV_FILE_NAME}.`) && isValidEnvironmentName(name.slice(ENV_FILE_NAME.length + 1)))
+   )
+}
+
+/**
+ * Returns the environment a .secenvs file belongs to: `production` for `.secenvs.production`,
+ * null for the base `.secenvs`.
+ */
+export function getEnvironmentOfPath(envPath: string): string | null {
+   const name = path.basename(envPath)
+   return isEnvFilePath(name) && name !== ENV_FILE_NAME ? name.slice(ENV_FILE_NAME.length + 1) : null
+}
+
+/**
+ * Lists the environments with a file in `dir`; null stands for the base .secenvs.
+ */
+export function listEnvironments(dir: string = getProjectDir()): (string | null)[] {
+   if (!fs.existsSync(dir)) {
+      return []
+   }
+   return fs
+      .readdirSync(dir)
+      .filter((name) => isEnvFilePath(name))
+      .sort()
+      .map((name) => getEnvironmentOfPath(name))
+}
+
+/** Metadata key naming another .secenvs file whose keys this file inherits: `_INCLUDE=../shared/.secenvs`. */
+export const INCLUDE_METADATA_KEY = "_INCLUDE"
+
+function resolveIncludePath(envPath: string, line: ParsedLine): string {
+   const dir = path.dirname(envPath)
+   const includedPath = sanitizePath(path.resolve(dir, line.value), findGitRoot(dir) ?? dir)
+   if (!isEnvFilePath(includedPath)) {
+      throw new ParseError(
+         line.lineNumber,
+         line.raw,
+         `${INCLUDE_METADATA_KEY} must name a .secenvs file, not '${line.value}'`
+      )
+   }
+   if (!fs.existsSync(includedPath)) {
+      throw new FileError(`${includedPath}, included by ${envPath}, does not exist`)
+   }
+   return includedPath
+}
+
+/**
+ * Returns the files keys are looked up in, highest priority first, when `envPaths` include other
+ * files with `_INCLUDE`. Each file is followed by the files it includes, so local keys override
+ * included ones. Include paths are relative to the including file and must stay inside its
+ * repository (or its own directory outside a repository). Missing `envPaths` are skipped.
+ * Throws ParseError on an include cycle.
+ */
+export function resolveIncludes(
+   envPaths: string[],
+   read: (envPath: string) => ParsedEnv = parseEnvFile
+): string[] {
+   const resolved: string[] = []
+   const visit = (envPath: string, chain: string[]) => {
+      if (resolved.includes(envPath) || !fs.existsSync(envPath)) return
+      resolved.push(envPath)
+
+      for (const line of read(envPath).lines) {
+         if (line.key !== INCLUDE_METADATA_KEY) continue
+         const includedPath = resolveIncludePath(envPath, line)
+         if (includedPath === envPath || chain.includes(includedPath)) {
+            const cycle = [...chain, envPath, includedPath].map((p) => path.relative(process.cwd(), p))
+            throw new ParseError(line.lineNumber, line.raw, `Include cycle: ${cycle.join(" -> ")}`)
+         }
+         visit(includedPath, [...chain, envPath])
+      }
+   }
+
+   for (const envPath of envPaths) {
+      visit(path.resolve(envPath), [])
+   }
+   return resolved
 }
@@ -0,0 +1,98 @@
+import * as fs from "node:fs"
+import * as path from "node:path"
+import * as os from "node:os"
+import { sanitizePath, ensureSafeDir, safeReadFile } from "./filesystem.js"
+import { parseEnvFile, findKey, parseVaultReference, withLock, writeAtomicRaw } from "./parse.js"
+import { DEFAULT_VAULT_NAME } from "./vault.js"
+
+/**
+ * A local registry of the `vault:` references that projects on this machine use, so
+ * `secenvs vault usages KEY` can tell which projects a vault change affects. A reference is
+ * recorded when the SDK resolves it or the CLI stores it.
+ */
+
+const SECENV_DIR = ".secenvs"
+const REGISTRY_FILE = "projects.json"
+
+/** A key of a .secenvs file that held a vault reference when it was last used. */
+export interface VaultUsage {
+   envPath: string
+   key: string
+   reference: string
+   lastUsed: string
+}
+
+// Usages this process already recorded, so repeated lookups do not rewrite the registry
+const recordedUsages = new Set<string>()
+
+export function getRegistryPath(): string {
+   const baseDir = process.env.SECENV_HOME || os.homedir()
+   return path.join(sanitizePath(baseDir), SECENV_DIR, REGISTRY_FILE)
+}
+
+/**
+ * Reads every recorded usage. The registry is only an index, so an unreadable one reads as empty
+ * and is replaced by the next write.
+ */
+export function readVaultUsages(): VaultUsage[] {
+   const registryPath = getRegistryPath()
+   if (!fs.existsSync(registryPath)) {
+      return []
+   }
+   try {
+      const parsed = JSON.parse(safeReadFile(registryPath)) as { usages?: VaultUsage[] }
+      return Array.isArray(parsed.usages) ? parsed.usages : []
+   } catch {
+      return []
+   }
+}
+
+/**
+ * Records that `key` of the .secenvs file at `envPath` references a vault key. A key holds one
+ * reference, so this replaces what was recorded for it before.
+ */
+export async function recordVaultUsage(envPath: string, key: string, reference: string): Promise<void> {
+   const absolutePath = path.resolve(envPath)
+   const id = `${absolutePath}\0${key}\0${reference}`
+   if (recordedUsages.has(id)) {
+      return
+   }
+
+   const registryPath = getRegistryPath()
+   ensureSafeDir(path.dirname(registryPath))
+   await withLock(registryPath, async () => {
+      const usages = readVaultUsages().filter((usage) => usage.envPath !== absolutePath || usage.key !== key)
+      usages.push({ envPath: absolutePath, key, reference, lastUsed: new Date().toISOString() })
+      await writeAtomicRaw(registryPath, JSON.stringify({ usages }, null, 2) + "\n")
+   })
+   recordedUsages.add(id)
+}
+
+/**
+ * Whether a recorded usage still holds: its file exists and still has the key. Encrypted values
+ * are not decrypted to check, so they count as long as the key is there.
+ */
+function isCurrentUsage(usage: VaultUsage): boolean {
+   if (!fs.existsSync(usage.envPath)) {
+      return false
+   }
+   try {
+      const line = findKey(parseEnvFile(usage.envPath), usage.key)
+      return line !== null && (line.encrypted || line.value === usage.reference)
+   } catch {
+      return true
+   }
+}
+
+/**
+ * The recorded usages of a vault key that still hold, sorted by file.
+ */
+export function findVaultUsages(vaultKey: string, vault: string = DEFAULT_VAULT_NAME): VaultUsage[] {
+   return readVaultUsages()
+      .filter((usage) => {
+         const target = parseVaultReference(usage.reference)
+         return target.key === vaultKey && (target.vault ?? DEFAULT_VAULT_NAME) === vault
+      })
+      .filter(isCurrentUsage)
+      .sort((a, b) => a.envPath.localeCompare(b.envPath) || a.key.localeCompare(b.key))
+}
@@ -0,0 +1,213 @@
+import * as crypto from "node:crypto"
+import { ValidationError } from "./errors.js"
+
+/**
+ * Shamir secret sharing over GF(256), used by `secenvs key backup` / `key recover` to split an
+ * identity into shares so that any `threshold` of them rebuild it.
+ *
+ * Each share is encoded as bytes and then one word per byte:
+ *
+ *   version (1) | threshold (1) | index (1) | public key fingerprint (4) | share data | checksum (2)
+ *
+ * The checksum is the first two bytes of SHA-256 over everything before it, so a mistyped word is
+ * caught before any math is done. Every word has a unique four-letter prefix, so recovery accepts
+ * abbreviations.
+ */
+
+const SHARE_VERSION = 1
+const HEADER_LENGTH = 7
+const CHECKSUM_LENGTH = 2
+const FINGERPRINT_LENGTH = 4
+const MAX_SHARES = 255
+
+const WORDS = `
+acid acorn actor adult agent alarm album alley amber anchor angle ankle apple apron arena armor arrow
+atlas attic audio avenue badge bagel baker bamboo banjo barrel basket beach beard beetle bench berry
+bicycle bishop blanket blossom board bonus border bottle bracket brave bread bridge bronze brush bubble
+bucket buffalo bundle butter cabin cactus camel candle canoe canvas canyon carbon carpet castle cattle
+cedar cement chalk cherry chimney circle citrus clever cloud clover cobalt coconut coffee comet copper
+coral cotton cousin crater crayon cricket crystal cupboard curtain cushion dagger dancer debut decade
+desert diamond dinner dolphin domino donkey dragon drawer dream driver eagle easel echo eclipse elbow
+ember empire engine envoy estate fabric falcon feather fence ferry fiddle finger flame flannel flower
+forest fossil fountain fox frozen funnel galaxy garden garlic gazelle gecko ginger glacier globe goblet
+golden gossip gravel guitar hammer harbor harvest hazel helmet hermit hippo hockey honey horizon hotel
+humble hunter icicle igloo index indigo inkwell island ivory jacket jaguar jasmine jelly jersey jigsaw
+jockey journal jungle kayak kennel kettle kidney kitten koala ladder lagoon lantern laptop lemon leopard
+lettuce lilac linen lizard lobster locket lumber magnet mango maple marble meadow melody mirror mitten
+monkey mosaic muffin museum napkin nectar needle nickel noodle nugget nutmeg oasis ocean olive onion
+orbit orchid otter oyster paddle palace panda parrot peanut pebble pepper piano pickle pigeon pillow
+pilot planet plaza pocket pony poodle potato puzzle quartz quiver rabbit radar raisin ribbon robin rocket
+saddle salmon sandal satin scarf shadow shovel silver sketch tiger velvet walnut zebra
+`
+   .trim()
+   .split(/\s+/)
+
+const WORD_INDEX = new Map(WORDS.map((word, index) => [word.slice(0, 4), index]))
+
+// Log/antilog tables for GF(256) with the AES polynomial (x^8 + x^4 + x^3 + x + 1) and generator 3
+const EXP = new Uint8Array(510)
+const LOG = new Uint8Array(256)
+{
+   let x = 1
+   for (let i = 0; i < 255; i++) {
+      EXP[i] = x
+      LOG[x] = i
+      x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0)
+   }
+   for (let i = 255; i < 510; i++) {
+      EXP[i] = EXP[i - 255]
+   }
+}
+
+function gfMul(a: number, b: number): number {
+   return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]]
+}
+
+function gfDiv(a: number, b: number): number {
+   return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]]
+}
+
+function checksum(data: Uint8Array): Buffer {
+   return crypto.createHash("sha256").update(data).digest().subarray(0, CHECKSUM_LENGTH)
+}
+
+/**
+ * Short hex fingerprint of a public key, embedded in every share so recovery can verify the result.
+ */
+export function publicKeyFingerprint(publicKey: string): string {
+   return crypto
+      .createHash("sha256")
+      .update(publicKey)
+      .digest("hex")
+      .slice(0, FINGERPRINT_LENGTH * 2)
+}
+
+export interface IdentityShare {
+   index: number
+   threshold: number
+   fingerprint: string
+   data: Buffer
+}
+
+export function encodeShare(share: IdentityShare): string {
+   const body = Buffer.concat([
+      Buffer.from([SHARE_VERSION, share.threshold, share.index]),
+      Buffer.from(share.fingerprint, "hex"),
+      share.data,
+   ])
+   return [...Buffer.concat([body, checksum(body)])].map((byte) => WORDS[byte]).join(" ")
+}
+
+export function decodeShare(text: string): IdentityShare {
+   const words = text.trim().toLowerCase().split(/\s+/)
+   const bytes = Buffer.from(
+      words.map((word) => {
+         const index = WORD_INDEX.get(word.slice(0, 4))
+         if (index === undefined) {
+            throw new ValidationError(`Unknown word in share: '${word}'`)
+         }
+         return index
+      })
+   )
+
+   if (bytes.length <= HEADER_LENGTH + CHECKSUM_LENGTH) {
+      throw new ValidationError("Share is too short.")
+   }
+   const body = bytes.subarray(0, bytes.length - CHECKSUM_LENGTH)
+   if (!checksum(body).equals(bytes.subarray(bytes.length - CHECKSUM_LENGTH))) {
+      throw new ValidationError("Share checksum mismatch. Check for mistyped or missing words.")
+   }
+   if (body[0] !== SHARE_VERSION) {
+      throw new ValidationError(`Unsupported share version: ${body[0]}`)
+   }
+
+   return {
+      threshold: body[1],
+      index: body[2],
+      fingerprint: body.subarray(3, HEADER_LENGTH).toString("hex"),
+      data: Buffer.from(body.subarray(HEADER_LENGTH)),
+   }
+}
+
+/**
+ * Splits a secret into `shares` shares, any `threshold` of which reconstruct it.
+ */
+export function splitSecret(
+   secret: Buffer,
+   fingerprint: string,
+   shares: number,
+   threshold: number
+): IdentityShare[] {
+   if (!Number.isInteger(threshold) || threshold < 2) {
+      throw new ValidationError("Threshold must be at least 2.")
+   }
+   if (!Number.isInteger(shares) || shares < threshold || shares > MAX_SHARES) {
+      throw new ValidationError(`Number of shares must be between the threshold and ${MAX_SHARES}.`)
+   }
+
+   const result: IdentityShare[] = []
+   for (let index = 1; index <= shares; index++) {
+      result.push({ index, threshold, fingerprint, data: Buffer.alloc(secret.length) })
+   }
+
+   for (let i = 0; i < secret.length; i++) {
+      // Random polynomial of degree threshold-1 whose constant term is the secret byte
+      const coefficients = [secret[i], ...crypto.randomBytes(threshold - 1)]
+      for (const share of result) {
+         let y = 0
+         for (let c = coefficients.length - 1; c >= 0; c--) {
+            y = gfMul(y, share.index) ^ coefficients[c]
+         }
+         share.data[i] = y
+      }
+   }
+   return result
+}
+
+/**
+ * Reconstructs the secret from at least `threshold` shares of the same split.
+ */
+export function combineShares(shares: IdentityShare[]): { secret: Buffer; fingerprint: string } {
+   if (shares.length === 0) {
+      throw new ValidationError("No shares provided.")
+   }
+
+   const { threshold, fingerprint } = shares[0]
+   const length = shares[0].data.length
+   const seen = new Set<number>()
+   for (const share of shares) {
+      if (
+         share.threshold !== threshold ||
+         share.fingerprint !== fingerprint ||
+         share.data.length !== length
+      ) {
+         throw new ValidationError("Shares belong to different backups.")
+      }
+      if (seen.has(share.index)) {
+         throw new ValidationError(`Share ${share.index} was provided more than once.`)
+      }
+      seen.add(share.index)
+   }
+   if (shares.length < threshold) {
+      throw new ValidationError(`At least ${threshold} shares are required, got ${shares.length}.`)
+   }
+
+   const used = shares.slice(0, threshold)
+   const secret = Buffer.alloc(length)
+   for (const share of used) {
+      // Lagrange basis polynomial for this share, evaluated at x = 0
+      let numerator = 1
+      let denominator = 1
+      for (const other of used) {
+         if (other === share) continue
+         numerator = gfMul(numerator, other.index)
+         denominator = gfMul(denominator, other.index ^ share.index)
+      }
+      const basis = gfDiv(numerator, denominator)
+      for (let i = 0; i < length; i++) {
+         secret[i] ^= gfMul(share.data[i], basis)
+      }
+   }
+
+   return { secret, fingerprint }
+}
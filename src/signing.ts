@@ -0,0 +1,132 @@
+import * as crypto from "node:crypto"
+
+/**
+ * Ed25519 signatures over a project's recipient list, so that a `_RECIPIENT` line slipped in
+ * through a pull request is not trusted until an existing recipient signs the new list.
+ *
+ * The signing key is derived from the age identity with HKDF, so there is nothing extra to store
+ * or back up. The signature covers a header, the signer's age recipient, the signing key and the
+ * sorted, de-duplicated recipient keys; labels and line order are not signed.
+ *
+ * The same key signs the `_MAC` line, which covers a digest of every key and ciphertext in a
+ * .secenvs file so that deleting a key or reverting it to an older value is noticed.
+ */
+
+const SIGNING_KEY_INFO = "secenvs recipient signing key v1"
+const SIGNED_LIST_HEADER = "secenvs-recipients-v1"
+const SIGNED_FILE_HEADER = "secenvs-file-mac-v1"
+
+// DER prefixes for raw Ed25519 keys, so node:crypto can sign and verify
+const ED25519_PKCS8_PREFIX = Buffer.from("302e020100300506032b657004220420", "hex")
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex")
+const ED25519_KEY_LENGTH = 32
+
+export interface SigningKey {
+   privateKey: crypto.KeyObject
+   /** Raw Ed25519 public key, base64. */
+   publicKey: string
+}
+
+/** A `_SIGNATURE=<signer>|<signing key>|<signature>` line. */
+export interface RecipientSignature {
+   /** Age recipient of the identity that signed. */
+   signer: string
+   /** Raw Ed25519 public key, base64. */
+   signingKey: string
+   signature: string
+}
+
+/**
+ * A `_MAC=<signer>|<signing key>|<signature>` line: the same triple as a recipient signature,
+ * made over a digest of a whole .secenvs file.
+ */
+export type FileMac = RecipientSignature
+
+export function deriveSigningKey(identity: string): SigningKey {
+   const seed = Buffer.from(
+      crypto.hkdfSync("sha256", identity.trim(), "", SIGNING_KEY_INFO, ED25519_KEY_LENGTH)
+   )
+   const privateKey = crypto.createPrivateKey({
+      key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]),
+      format: "der",
+      type: "pkcs8",
+   })
+   const spki = crypto.createPublicKey(privateKey).export({ format: "der", type: "spki" })
+   return { privateKey, publicKey: spki.subarray(-ED25519_KEY_LENGTH).toString("base64") }
+}
+
+function signedMessage(signer: string, signingKey: string, recipients: string[]): Buffer {
+   const keys = [...new Set(recipients)].sort()
+   return Buffer.from([SIGNED_LIST_HEADER, signer, signingKey, ...keys].join("\n"))
+}
+
+export function signRecipientList(key: SigningKey, signer: string, recipients: string[]): RecipientSignature {
+   const signature = crypto.sign(null, signedMessage(signer, key.publicKey, recipients), key.privateKey)
+   return { signer, signingKey: key.publicKey, signature: signature.toString("base64") }
+}
+
+function verifyMessage(signature: RecipientSignature, message: Buffer): boolean {
+   const rawKey = Buffer.from(signature.signingKey, "base64")
+   if (rawKey.length !== ED25519_KEY_LENGTH) {
+      return false
+   }
+   try {
+      const publicKey = crypto.createPublicKey({
+         key: Buffer.concat([ED25519_SPKI_PREFIX, rawKey]),
+         format: "der",
+         type: "spki",
+      })
+      return crypto.verify(null, message, publicKey, Buffer.from(signature.signature, "base64"))
+   } catch {
+      return false
+   }
+}
+
+/**
+ * Returns true if the signature is valid for exactly this set of recipient keys.
+ */
+export function verifyRecipientList(signature: RecipientSignature, recipients: string[]): boolean {
+   return verifyMessage(signature, signedMessage(signature.signer, signature.signingKey, recipients))
+}
+
+function fileMacMessage(
+   signer: string,
+   signingKey: string,
+   environment: string | null,
+   digest: string
+): Buffer {
+   return Buffer.from([SIGNED_FILE_HEADER, signer, signingKey, environment ?? "", digest].join("\n"))
+}
+
+export function signFileDigest(
+   key: SigningKey,
+   signer: string,
+   environment: string | null,
+   digest: string
+): FileMac {
+   const message = fileMacMessage(signer, key.publicKey, environment, digest)
+   return {
+      signer,
+      signingKey: key.publicKey,
+      signature: crypto.sign(null, message, key.privateKey).toString("base64"),
+   }
+}
+
+/**
+ * Returns true if the MAC was made over this digest of the given environment's file.
+ */
+export function verifyFileDigest(mac: FileMac, environment: string | null, digest: string): boolean {
+   return verifyMessage(mac, fileMacMessage(mac.signer, mac.signingKey, environment, digest))
+}
+
+export function parseRecipientSignature(value: string): RecipientSignature | null {
+   const [signer, signingKey, signature, ...rest] = value.trim().split("|")
+   if (!signer || !signingKey || !signature || rest.length > 0) {
+      return null
+   }
+   return { signer, signingKey, signature }
+}
+
+export function formatRecipientSignature(signature: RecipientSignature): string {
+   return `${signature.signer}|${signature.signingKey}|${signature.signature}`
+}
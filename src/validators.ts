@@ -46,7 +46,15 @@ export function validateKey(key: string): void {
    }
 }
 
-export function validateValue(value: string, options: { isBase64?: boolean } = {}): void {
+/**
+ * Validates a secret value. Plaintext lines in `.secenvs` cannot span lines, so multiline values are
+ * rejected unless `multiline` is set by a caller that stores the value encrypted (the ciphertext is
+ * always a single line).
+ */
+export function validateValue(
+   value: string,
+   options: { isBase64?: boolean; multiline?: boolean } = {}
+): void {
    if (!value && value !== "") {
       return // Allow undefined/null if handled elsewhere
    }
@@ -64,7 +72,19 @@ export function validateValue(value: string, options: { isBase64?: boolean } = {
       if (!base64Regex.test(value)) {
          throw new ValidationError("Invalid base64 value")
       }
-   } else if (value.includes("\n") || value.includes("\r")) {
-      throw new ValidationError("Multiline values are not allowed. Use --base64 for binary data.")
+   } else if (!options.multiline && (value.includes("\n") || value.includes("\r"))) {
+      throw new ValidationError(
+         "Multiline values are not allowed in plaintext. Encrypt them with 'secenvs set KEY --file <path>'."
+      )
+   }
+}
+
+/** Validates raw bytes stored with `set --file` that are not UTF-8 text. */
+export function validateBinaryValue(value: Uint8Array): void {
+   if (value.length === 0) {
+      throw new ValidationError("Value cannot be empty")
+   }
+   if (value.length > MAX_VALUE_SIZE) {
+      throw new ValidationError(`Value size exceeds maximum limit of 5MB`)
    }
 }
@@ -3,97 +3,356 @@ import * as path from "node:path"
 import * as os from "node:os"
 import {
    loadIdentity,
+   loadIdentities,
    getPublicKey,
    encrypt,
    decryptString,
+   isNoMatchingIdentityError,
    identityExists,
    getDefaultKeyPath,
+   validatePublicKey,
+   AgeIdentity,
+   RECIPIENT_METADATA_KEY,
+   SIGNATURE_METADATA_KEY,
+   checkRecipientSignature,
+   rememberRecipientSigner,
+   rememberRecipientList,
 } from "./age.js"
+import {
+   deriveSigningKey,
+   signRecipientList,
+   verifyRecipientList,
+   parseRecipientSignature,
+   formatRecipientSignature,
+   RecipientSignature,
+} from "./signing.js"
 import { withLock, writeAtomicRaw } from "./parse.js"
-import { VaultError, IdentityNotFoundError } from "./errors.js"
+import { VaultError, IdentityNotFoundError, ValidationError, RecipientError } from "./errors.js"
 import { sanitizePath, ensureSafeDir, safeReadFile } from "./filesystem.js"
 import { validateKey, validateValue } from "./validators.js"
 import { appendAuditLog } from "./audit.js"
 
 const SECENV_DIR = ".secenvs"
 const VAULT_FILE = "vault.age"
+const NAMED_VAULTS_DIR = "vaults"
+const NAMED_VAULT_EXTENSION = ".age"
+const VAULT_LINKS_FILE = "vaults.json"
+
+/** The vault used when no name is given; it keeps the original `~/.secenvs/vault.age` location. */
+export const DEFAULT_VAULT_NAME = "default"
+
+/** Metadata entry holding the previous values of each key, as JSON. */
+const HISTORY_METADATA_KEY = "_HISTORY"
+
+/** How many versions of each key a vault keeps, the current one included. */
+export const VAULT_HISTORY_LIMIT = 10
+
+/** One value a vault key has held. `setAt` is null for values stored before history was kept. */
+export interface VaultVersion {
+   version: number
+   value: string
+   setAt: string | null
+}
 
-let vaultCache: Map<string, string> | null = null
-let vaultLastMtime: number = 0
-let vaultLastSize: number = 0
+const VAULT_NAME_REGEX = /^[a-z0-9][a-z0-9_-]*$/
+const MAX_VAULT_NAME_LENGTH = 64
+
+/** A decrypted vault: its keys, and the `_` entries holding its recipients and history. */
+interface VaultData {
+   values: Map<string, string>
+   metadata: Map<string, string>
+}
+
+// Decrypted vaults, by path
+const vaultCache = new Map<string, VaultData>()
+
+export function validateVaultName(name: string): string {
+   const trimmed = name.trim()
+   if (!VAULT_NAME_REGEX.test(trimmed) || trimmed.length > MAX_VAULT_NAME_LENGTH) {
+      throw new ValidationError(
+         `Invalid vault name: '${name}'. Use lowercase letters, numbers, '-' and '_' (max ${MAX_VAULT_NAME_LENGTH} characters).`
+      )
+   }
+   return trimmed
+}
 
-export function getVaultPath(): string {
+function getSecenvDir(): string {
    const baseDir = process.env.SECENV_HOME || os.homedir()
-   const sanitizedBase = sanitizePath(baseDir)
-   return path.join(sanitizedBase, SECENV_DIR, VAULT_FILE)
+   return path.join(sanitizePath(baseDir), SECENV_DIR)
+}
+
+function getVaultLinksPath(): string {
+   return path.join(getSecenvDir(), VAULT_LINKS_FILE)
 }
 
 /**
- * Decrypts and loads the global vault into memory.
- * Caches the result after the first successful load.
+ * Vaults kept outside `~/.secenvs`, e.g. a team vault checked out from a private repository or on a
+ * shared drive: absolute file paths by vault name, set with `secenvs vault link`.
  */
-export async function loadVault(): Promise<Map<string, string>> {
-   if (vaultCache) {
-      return vaultCache
+export function readVaultLinks(): Record<string, string> {
+   const linksPath = getVaultLinksPath()
+   if (!fs.existsSync(linksPath)) {
+      return {}
    }
+   try {
+      return JSON.parse(safeReadFile(linksPath)) as Record<string, string>
+   } catch {
+      throw new VaultError(`Could not read ${linksPath}. Fix or delete it, then link the vaults again.`)
+   }
+}
 
-   const vaultPath = getVaultPath()
-   if (!fs.existsSync(vaultPath)) {
-      vaultCache = new Map()
-      vaultLastMtime = 0
-      vaultLastSize = 0
-      return vaultCache
+/**
+ * Makes a vault use the file at `filePath` instead of its place in `~/.secenvs`, or goes back to
+ * that place when `filePath` is null. The file does not have to exist yet. Returns the vault's path.
+ */
+export function linkVault(name: string, filePath: string | null): string {
+   const normalized = validateVaultName(name)
+   const links = readVaultLinks()
+   if (filePath === null) {
+      delete links[normalized]
+   } else {
+      const target = sanitizePath(filePath)
+      if (fs.existsSync(target) && !fs.statSync(target).isFile()) {
+         throw new ValidationError(`${target} is not a file.`)
+      }
+      links[normalized] = target
+   }
+   ensureSafeDir(getSecenvDir())
+   fs.writeFileSync(getVaultLinksPath(), JSON.stringify(links, null, 2) + "\n", { mode: 0o600 })
+   vaultCache.clear()
+   return getVaultPath(normalized)
+}
+
+/**
+ * The file of a vault: the path it was linked to with `secenvs vault link`, otherwise
+ * `~/.secenvs/vault.age` for the default vault and `~/.secenvs/vaults/<name>.age` for named ones.
+ */
+export function getVaultPath(name: string = DEFAULT_VAULT_NAME): string {
+   const normalized = validateVaultName(name)
+   const linked = readVaultLinks()[normalized]
+   if (linked) {
+      return linked
+   }
+   if (normalized === DEFAULT_VAULT_NAME) {
+      return path.join(getSecenvDir(), VAULT_FILE)
    }
+   return path.join(getSecenvDir(), NAMED_VAULTS_DIR, `${normalized}${NAMED_VAULT_EXTENSION}`)
+}
 
-   // 1. Check for staleness
-   try {
-      const stats = fs.statSync(vaultPath)
-      if (vaultCache && stats.mtimeMs === vaultLastMtime && stats.size === vaultLastSize) {
-         return vaultCache
+/**
+ * Names of the vaults that exist on disk, linked ones included: the default vault first, then
+ * named vaults sorted.
+ */
+export function listVaults(): string[] {
+   const names = new Set(Object.keys(readVaultLinks()))
+   const namedDir = path.join(getSecenvDir(), NAMED_VAULTS_DIR)
+   if (fs.existsSync(namedDir)) {
+      for (const file of fs.readdirSync(namedDir)) {
+         if (file.endsWith(NAMED_VAULT_EXTENSION)) {
+            names.add(file.slice(0, -NAMED_VAULT_EXTENSION.length))
+         }
       }
-      vaultLastMtime = stats.mtimeMs
-      vaultLastSize = stats.size
-   } catch (error) {
-      // If we can't stat, force reload
    }
+   const named = [...names]
+      .filter((name) => VAULT_NAME_REGEX.test(name) && name !== DEFAULT_VAULT_NAME)
+      .filter((name) => fs.existsSync(getVaultPath(name)))
+      .sort()
+   return fs.existsSync(getVaultPath()) ? [DEFAULT_VAULT_NAME, ...named] : named
+}
 
-   if (!identityExists()) {
-      throw new IdentityNotFoundError(getDefaultKeyPath())
+/**
+ * Decrypts and loads a vault's keys into memory.
+ * Caches the result after the first successful load.
+ */
+export async function loadVault(name: string = DEFAULT_VAULT_NAME): Promise<Map<string, string>> {
+   return (await loadVaultData(name)).values
+}
+
+async function loadVaultData(name: string): Promise<VaultData> {
+   const vaultPath = getVaultPath(name)
+   const cached = vaultCache.get(vaultPath)
+   if (cached) {
+      return cached
    }
 
-   const identity = await loadIdentity()
+   if (!fs.existsSync(vaultPath)) {
+      const empty = { values: new Map<string, string>(), metadata: new Map<string, string>() }
+      vaultCache.set(vaultPath, empty)
+      return empty
+   }
+
+   const identities = await loadIdentities()
    try {
       const encrypted = safeReadFile(vaultPath)
-      const decrypted = await decryptString(identity, encrypted)
-
-      const map = new Map<string, string>()
-      const lines = decrypted.split("\n")
-      for (const line of lines) {
-         const trimmed = line.trim()
-         if (!trimmed || trimmed.startsWith("#")) continue
-
-         const eqIndex = trimmed.indexOf("=")
-         if (eqIndex !== -1) {
-            const key = trimmed.slice(0, eqIndex).trim()
-            const value = trimmed.slice(eqIndex + 1).trim()
-            if (key) {
-               map.set(key, value)
-            }
-         }
-      }
+      const decrypted = await decryptString(identities, encrypted)
+      const data = parseVaultContent(decrypted)
 
-      vaultCache = map
-      return map
+      vaultCache.set(vaultPath, data)
+      return data
    } catch (error: any) {
       throw new VaultError(`Failed to load vault: ${error.message}`)
    }
 }
 
 /**
- * Re-encrypts and saves the vault to disk atomically.
+ * The vault is stored as a JSON object so values may span lines. Vaults written before that used
+ * one KEY=VALUE line per entry and are still read; the next write converts them.
+ */
+function parseVaultContent(decrypted: string): VaultData {
+   const entries: [string, string][] = decrypted.trimStart().startsWith("{")
+      ? Object.entries(JSON.parse(decrypted) as Record<string, string>)
+      : parseLegacyVaultContent(decrypted)
+   return {
+      values: new Map(entries.filter(([key]) => !key.startsWith("_"))),
+      metadata: new Map(entries.filter(([key]) => key.startsWith("_"))),
+   }
+}
+
+function parseLegacyVaultContent(decrypted: string): [string, string][] {
+   const entries: [string, string][] = []
+   const lines = decrypted.split("\n")
+   for (const line of lines) {
+      const trimmed = line.trim()
+      if (!trimmed || trimmed.startsWith("#")) continue
+
+      const eqIndex = trimmed.indexOf("=")
+      if (eqIndex !== -1) {
+         const key = trimmed.slice(0, eqIndex).trim()
+         const value = trimmed.slice(eqIndex + 1).trim()
+         if (key) {
+            entries.push([key, value])
+         }
+      }
+   }
+   return entries
+}
+
+/**
+ * The recipients a vault is shared with, kept in a `_RECIPIENT` entry (one public key per line)
+ * inside the encrypted content. An empty list means a personal vault, encrypted to the local
+ * identity.
+ *
+ * Encrypting to a list does not show who wrote it: age has no sender authentication, so anyone who
+ * can replace the shared file can encrypt it to the team plus themselves. The list is therefore
+ * signed like a project's (see signVaultRecipients), and checked before every write.
+ */
+function vaultRecipients(data: VaultData): string[] {
+   return (data.metadata.get(RECIPIENT_METADATA_KEY) ?? "").split("\n").filter(Boolean)
+}
+
+function vaultSignature(data: VaultData): RecipientSignature | null {
+   const raw = data.metadata.get(SIGNATURE_METADATA_KEY)
+   return raw ? parseRecipientSignature(raw) : null
+}
+
+/**
+ * Sets the recipient list of the vault kept at `vaultPath`, signed with `identity`. The signing key
+ * is pinned and the list recorded as accepted on this machine.
+ */
+async function signVaultRecipients(
+   data: VaultData,
+   recipients: string[],
+   identity: string,
+   vaultPath: string
+): Promise<void> {
+   const signature = signRecipientList(
+      deriveSigningKey(identity),
+      await getPublicKey(identity.trim()),
+      recipients
+   )
+   rememberRecipientSigner(signature)
+   rememberRecipientList(vaultPath, signature, recipients)
+   data.metadata.set(RECIPIENT_METADATA_KEY, recipients.join("\n"))
+   data.metadata.set(SIGNATURE_METADATA_KEY, formatRecipientSignature(signature))
+}
+
+/**
+ * Checks a shared vault's recipient list against its signature, with the rules of
+ * verifyRecipientSignature, and returns it. Throws RecipientError before anything is encrypted to
+ * a list nobody this machine trusts has signed, or, given `ownKey`, to a list someone else signed
+ * without that key.
+ */
+function verifyVaultRecipients(data: VaultData, name: string, ownKey?: string): string[] {
+   const recipients = vaultRecipients(data)
+   const option = name === DEFAULT_VAULT_NAME ? "" : ` --name ${name}`
+   const list = `The recipient list of ${name === DEFAULT_VAULT_NAME ? "the global vault" : `vault '${name}'`}`
+   const review = `Review it with 'secenvs vault recipients${option}', then run 'secenvs vault sign${option}'.`
+   const signature = checkRecipientSignature(
+      getVaultPath(name),
+      vaultSignature(data),
+      recipients,
+      list,
+      review
+   )
+   if (ownKey && !recipients.includes(ownKey) && signature.signer !== ownKey) {
+      throw new RecipientError(
+         `${list} does not include your identity (${ownKey}), so you could not read what is written to it. ${review}`
+      )
+   }
+   return recipients
+}
+
+function readHistory(data: VaultData): Record<string, VaultVersion[]> {
+   const raw = data.metadata.get(HISTORY_METADATA_KEY)
+   return raw ? (JSON.parse(raw) as Record<string, VaultVersion[]>) : {}
+}
+
+function writeHistory(data: VaultData, history: Record<string, VaultVersion[]>): void {
+   if (Object.keys(history).length === 0) {
+      data.metadata.delete(HISTORY_METADATA_KEY)
+   } else {
+      data.metadata.set(HISTORY_METADATA_KEY, JSON.stringify(history))
+   }
+}
+
+/**
+ * The versions of a key, oldest first. A key set before history was kept has its current value as
+ * its only version.
+ */
+function keyVersions(data: VaultData, key: string): VaultVersion[] {
+   const versions = readHistory(data)[key]
+   if (versions && versions.length > 0) {
+      return versions
+   }
+   const current = data.values.get(key)
+   return current === undefined ? [] : [{ version: 1, value: current, setAt: null }]
+}
+
+/** Sets a key and records the value as its newest version, dropping versions past the limit. */
+function setWithHistory(data: VaultData, key: string, value: string): VaultVersion {
+   const versions = keyVersions(data, key)
+   const latest = versions[versions.length - 1]
+   const entry = { version: (latest?.version ?? 0) + 1, value, setAt: new Date().toISOString() }
+
+   const history = readHistory(data)
+   history[key] = [...versions, entry].slice(-VAULT_HISTORY_LIMIT)
+   writeHistory(data, history)
+   data.values.set(key, value)
+   return entry
+}
+
+function assertNotMetadataKey(key: string): void {
+   if (key.startsWith("_")) {
+      throw new ValidationError(`Key '${key}' is reserved: names starting with '_' hold vault metadata.`)
+   }
+}
+
+function serializeVaultContent(data: VaultData): string {
+   return JSON.stringify(Object.fromEntries([...data.values, ...data.metadata]))
+}
+
+async function writeVaultFile(vaultPath: string, content: string, recipients: string[]): Promise<void> {
+   const encrypted = await encrypt(recipients, content)
+   await writeAtomicRaw(vaultPath, encrypted)
+   // Enforce restrictive permissions
+   await fs.promises.chmod(vaultPath, 0o600)
+}
+
+/**
+ * Re-encrypts and saves a vault to disk atomically.
  */
-async function saveVault(data: Map<string, string>): Promise<void> {
-   const vaultPath = getVaultPath()
+async function saveVault(data: VaultData, name: string = DEFAULT_VAULT_NAME): Promise<void> {
+   const vaultPath = getVaultPath(name)
    const vaultDir = path.dirname(vaultPath)
 
    ensureSafeDir(vaultDir)
@@ -102,63 +361,56 @@ async function saveVault(data: Map<string, string>): Promise<void> {
       throw new IdentityNotFoundError(getDefaultKeyPath())
    }
 
-   const identity = await loadIdentity()
-   const pubkey = await getPublicKey(identity)
-
-   // Format as KEY=VALUE
-   let content = ""
-   for (const [key, value] of data.entries()) {
-      content += `${key}=${value}\n`
-   }
+   const ownKey = await getPublicKey(await loadIdentity())
+   const shared = vaultRecipients(data).length > 0 ? verifyVaultRecipients(data, name, ownKey) : []
+   const recipients = shared.length > 0 ? shared : [ownKey]
 
    try {
-      const encrypted = await encrypt([pubkey], content)
-      await writeAtomicRaw(vaultPath, encrypted)
-      // Enforce restrictive permissions
-      await fs.promises.chmod(vaultPath, 0o600)
-
-      vaultCache = data
-      try {
-         const stats = fs.statSync(vaultPath)
-         vaultLastMtime = stats.mtimeMs
-         vaultLastSize = stats.size
-      } catch (e) {}
+      await writeVaultFile(vaultPath, serializeVaultContent(data), recipients)
+      vaultCache.set(vaultPath, data)
    } catch (error: any) {
       throw new VaultError(`Failed to save vault: ${error.message}`)
    }
 }
 
-export async function vaultGet(key: string): Promise<string | undefined> {
-   const cache = await loadVault()
+export async function vaultGet(key: string, name: string = DEFAULT_VAULT_NAME): Promise<string | undefined> {
+   const cache = await loadVault(name)
    return cache.get(key)
 }
 
-export async function vaultSet(key: string, value: string): Promise<void> {
+export async function vaultSet(key: string, value: string, name: string = DEFAULT_VAULT_NAME): Promise<void> {
    validateKey(key)
-   validateValue(value)
+   assertNotMetadataKey(key)
+   validateValue(value, { multiline: true })
 
-   const vaultPath = getVaultPath()
+   const vaultPath = getVaultPath(name)
+   ensureSafeDir(path.dirname(vaultPath))
    await withLock(vaultPath, async () => {
       // Reload under lock to be sure we have latest if another process wrote
       // Clearing cache first to force reload
-      vaultCache = null
-      const latest = await loadVault()
-      latest.set(key, value)
-      await saveVault(latest)
+      vaultCache.delete(vaultPath)
+      const latest = await loadVaultData(name)
+      setWithHistory(latest, key, value)
+      await saveVault(latest, name)
    })
    await appendAuditLog("SET", key, vaultPath)
 }
 
-export async function vaultDelete(key: string): Promise<void> {
+export async function vaultDelete(key: string, name: string = DEFAULT_VAULT_NAME): Promise<void> {
    validateKey(key)
+   assertNotMetadataKey(key)
 
-   const vaultPath = getVaultPath()
+   const vaultPath = getVaultPath(name)
    let deleted = false
    await withLock(vaultPath, async () => {
-      vaultCache = null
-      const latest = await loadVault()
-      if (latest.delete(key)) {
-         await saveVault(latest)
+      vaultCache.delete(vaultPath)
+      const latest = await loadVaultData(name)
+      if (latest.values.delete(key)) {
+         // Deleting a key removes its earlier values too
+         const history = readHistory(latest)
+         delete history[key]
+         writeHistory(latest, history)
+         await saveVault(latest, name)
          deleted = true
       }
    })
@@ -167,12 +419,297 @@ export async function vaultDelete(key: string): Promise<void> {
    }
 }
 
-export async function listVaultKeys(): Promise<string[]> {
-   const cache = await loadVault()
+/**
+ * The versions a vault key has held, oldest first; the last one is the current value. Returns an
+ * empty list for a key the vault does not hold.
+ */
+export async function vaultHistory(key: string, name: string = DEFAULT_VAULT_NAME): Promise<VaultVersion[]> {
+   validateKey(key)
+   assertNotMetadataKey(key)
+   return keyVersions(await loadVaultData(name), key)
+}
+
+/**
+ * Makes an earlier version of a vault key current again. The restored value is recorded as a new
+ * version, so a restore can be undone the same way. Returns that new version.
+ */
+export async function vaultRestore(
+   key: string,
+   version: number,
+   name: string = DEFAULT_VAULT_NAME
+): Promise<VaultVersion> {
+   validateKey(key)
+   assertNotMetadataKey(key)
+
+   const vaultPath = getVaultPath(name)
+   let restored: VaultVersion | null = null
+   await withLock(vaultPath, async () => {
+      vaultCache.delete(vaultPath)
+      const latest = await loadVaultData(name)
+      const versions = keyVersions(latest, key)
+      if (versions.length === 0) {
+         throw new VaultError(`Key '${key}' not found in vault`)
+      }
+      const target = versions.find((entry) => entry.version === version)
+      if (!target) {
+         const available = versions.map((entry) => entry.version).join(", ")
+         throw new VaultError(
+            `Version ${version} of '${key}' is not in the vault history (available: ${available})`
+         )
+      }
+      restored = setWithHistory(latest, key, target.value)
+      await saveVault(latest, name)
+   })
+   await appendAuditLog("RESTORE", key, vaultPath)
+   return restored!
+}
+
+/** Which value wins when an imported key already holds a different value in the vault. */
+export type VaultConflictChoice = "local" | "incoming"
+
+export interface VaultImportResult {
+   added: string[]
+   replaced: string[]
+   kept: string[]
+   unchanged: string[]
+}
+
+/**
+ * Merges keys into a vault. A new key, or a conflict settled in favour of the incoming value, is set
+ * like `vaultSet` does, so the previous value stays in the history. Each written key and each
+ * conflict is recorded in the vault's audit log.
+ */
+export async function vaultImport(
+   entries: Record<string, string>,
+   resolveConflict: (key: string) => VaultConflictChoice,
+   name: string = DEFAULT_VAULT_NAME
+): Promise<VaultImportResult> {
+   const keys = Object.keys(entries).sort()
+   for (const key of keys) {
+      validateKey(key)
+      assertNotMetadataKey(key)
+      validateValue(entries[key], { multiline: true })
+   }
+
+   const vaultPath = getVaultPath(name)
+   ensureSafeDir(path.dirname(vaultPath))
+   const result: VaultImportResult = { added: [], replaced: [], kept: [], unchanged: [] }
+   await withLock(vaultPath, async () => {
+      vaultCache.delete(vaultPath)
+      const latest = await loadVaultData(name)
+      for (const key of keys) {
+         const local = latest.values.get(key)
+         if (local === entries[key]) {
+            result.unchanged.push(key)
+         } else if (local !== undefined && resolveConflict(key) === "local") {
+            result.kept.push(key)
+         } else {
+            setWithHistory(latest, key, entries[key])
+            const written = local === undefined ? result.added : result.replaced
+            written.push(key)
+         }
+      }
+      if (result.added.length > 0 || result.replaced.length > 0) {
+         await saveVault(latest, name)
+      }
+   })
+
+   for (const key of result.added) {
+      await appendAuditLog("IMPORT", key, vaultPath)
+   }
+   for (const key of result.replaced) {
+      await appendAuditLog("IMPORT_REPLACE", key, vaultPath)
+   }
+   for (const key of result.kept) {
+      await appendAuditLog("IMPORT_KEEP_LOCAL", key, vaultPath)
+   }
+   return result
+}
+
+export async function listVaultKeys(name: string = DEFAULT_VAULT_NAME): Promise<string[]> {
+   const cache = await loadVault(name)
    return Array.from(cache.keys())
 }
 
+/**
+ * The public keys a vault is encrypted to. A personal vault, never shared with `vault trust`,
+ * returns an empty list.
+ */
+export async function listVaultRecipients(name: string = DEFAULT_VAULT_NAME): Promise<string[]> {
+   return vaultRecipients(await loadVaultData(name))
+}
+
+/**
+ * Adds or removes one recipient of a vault and re-encrypts it to the new list. Sharing a personal
+ * vault starts the list with the local identity, so the owner keeps access.
+ * Returns the new list, or null if nothing changed.
+ */
+async function updateVaultRecipients(
+   name: string,
+   update: (recipients: string[]) => string[] | null
+): Promise<string[] | null> {
+   const vaultPath = getVaultPath(name)
+   ensureSafeDir(path.dirname(vaultPath))
+   let result: string[] | null = null
+   await withLock(vaultPath, async () => {
+      vaultCache.delete(vaultPath)
+      const latest = await loadVaultData(name)
+      if (!identityExists()) {
+         throw new IdentityNotFoundError(getDefaultKeyPath())
+      }
+      const identity = await loadIdentity()
+      const ownKey = await getPublicKey(identity.trim())
+      // A list nobody trusted must not be signed again with one more key on it
+      const current =
+         vaultRecipients(latest).length > 0 ? verifyVaultRecipients(latest, name, ownKey) : [ownKey]
+
+      result = update(current)
+      if (!result) return
+      if (result.length === 0) {
+         throw new RecipientError(
+            "Cannot remove the last recipient — at least one key must remain to decrypt the vault."
+         )
+      }
+      await signVaultRecipients(latest, result, identity, vaultPath)
+      await saveVault(latest, name)
+   })
+   return result
+}
+
+/**
+ * The signature on a shared vault's recipient list, or null for a personal or unsigned vault.
+ */
+export async function readVaultSignature(
+   name: string = DEFAULT_VAULT_NAME
+): Promise<RecipientSignature | null> {
+   return vaultSignature(await loadVaultData(name))
+}
+
+/**
+ * Signs a shared vault's current recipient list with the local identity, once someone has reviewed
+ * it (`secenvs vault recipients`), e.g. after a teammate this machine has not seen before changed it.
+ * Like `secenvs recipients sign`, it pins the signing key of whoever signed the list last, so their
+ * next change needs no review. Returns the signed list.
+ */
+export async function vaultSign(name: string = DEFAULT_VAULT_NAME): Promise<string[]> {
+   const vaultPath = getVaultPath(name)
+   let recipients: string[] = []
+   let signer = ""
+   await withLock(vaultPath, async () => {
+      vaultCache.delete(vaultPath)
+      const latest = await loadVaultData(name)
+      recipients = vaultRecipients(latest)
+      if (recipients.length === 0) {
+         throw new VaultError("This vault is not shared, so it has no recipient list to sign.")
+      }
+      if (!identityExists()) {
+         throw new IdentityNotFoundError(getDefaultKeyPath())
+      }
+      const identity = await loadIdentity()
+      signer = await getPublicKey(identity.trim())
+      const previous = vaultSignature(latest)
+      if (previous && verifyRecipientList(previous, recipients)) {
+         rememberRecipientSigner(previous)
+      }
+      await signVaultRecipients(latest, recipients, identity, vaultPath)
+      await saveVault(latest, name)
+   })
+   await appendAuditLog("SIGN_RECIPIENTS", signer, vaultPath)
+   return recipients
+}
+
+/**
+ * Shares a vault with another public key. Returns the new recipient list, or null if the key
+ * already was a recipient.
+ */
+export async function vaultTrust(
+   pubkey: string,
+   name: string = DEFAULT_VAULT_NAME
+): Promise<string[] | null> {
+   const normalized = validatePublicKey(pubkey)
+   const recipients = await updateVaultRecipients(name, (current) =>
+      current.includes(normalized) ? null : [...current, normalized]
+   )
+   if (recipients) {
+      await appendAuditLog("TRUST", normalized, getVaultPath(name))
+   }
+   return recipients
+}
+
+/**
+ * Stops encrypting a vault to a public key. Returns the new recipient list, or null if the key was
+ * not a recipient. Values the removed key could read before should be rotated.
+ */
+export async function vaultUntrust(
+   pubkey: string,
+   name: string = DEFAULT_VAULT_NAME
+): Promise<string[] | null> {
+   const normalized = validatePublicKey(pubkey)
+   const recipients = await updateVaultRecipients(name, (current) =>
+      current.includes(normalized) ? current.filter((key) => key !== normalized) : null
+   )
+   if (recipients) {
+      await appendAuditLog("UNTRUST", normalized, getVaultPath(name))
+   }
+   return recipients
+}
+
+/** What `rekeyVault` did: re-encrypted the vault, found none, or left one the identities cannot open. */
+export type VaultRekeyResult = "rekeyed" | "missing" | "not-recipient"
+
+/**
+ * Re-encrypts a vault for a replaced identity, decrypting with explicitly supplied identities.
+ * Used by identity rotation, where the replacement key is not installed yet. A shared vault swaps
+ * the old key for the new one in its recipient list, which must verify and is signed again with
+ * `newIdentity`; a personal one is encrypted to the new key. A vault that is not encrypted to any
+ * of the identities is left untouched; every other failure throws.
+ */
+export async function rekeyVault(
+   identities: AgeIdentity[],
+   oldPublicKey: string,
+   newIdentity: string,
+   name: string = DEFAULT_VAULT_NAME
+): Promise<VaultRekeyResult> {
+   const newPublicKey = await getPublicKey(newIdentity.trim())
+   const vaultPath = getVaultPath(name)
+   if (!fs.existsSync(vaultPath)) {
+      return "missing"
+   }
+
+   let result: VaultRekeyResult = "rekeyed"
+   await withLock(vaultPath, async () => {
+      let decrypted: string
+      try {
+         decrypted = await decryptString(identities, safeReadFile(vaultPath))
+      } catch (error: any) {
+         if (isNoMatchingIdentityError(error)) {
+            result = "not-recipient"
+            return
+         }
+         throw new VaultError(`Failed to re-encrypt vault: ${error.message}`)
+      }
+
+      try {
+         const data = parseVaultContent(decrypted)
+         const current = vaultRecipients(data).length > 0 ? verifyVaultRecipients(data, name) : []
+         const shared = [...new Set(current.map((key) => (key === oldPublicKey ? newPublicKey : key)))]
+         if (shared.length > 0) {
+            await signVaultRecipients(data, shared, newIdentity, vaultPath)
+         }
+         await writeVaultFile(
+            vaultPath,
+            serializeVaultContent(data),
+            shared.length > 0 ? shared : [newPublicKey]
+         )
+      } catch (error: any) {
+         throw new VaultError(`Failed to re-encrypt vault: ${error.message}`)
+      }
+   })
+   vaultCache.delete(vaultPath)
+   return result
+}
+
 /** Clear the in-memory cache (mainly for testing) */
 export function clearVaultCache(): void {
-   vaultCache = null
+   vaultCache.clear()
 }
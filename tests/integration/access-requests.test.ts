@@ -0,0 +1,106 @@
+import { execa } from "execa"
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import { fileURLToPath } from "url"
+import { getPublicKey } from "../../src/age.js"
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const BIN_PATH = path.resolve(__dirname, "../../bin/secenvs.js")
+
+describe("CLI Integration: access requests", () => {
+   let testDir: string
+   let ownerHome: string
+   let newHireHome: string
+   let newHireKey: string
+
+   beforeEach(async () => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-request-cwd-"))
+      ownerHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-request-owner-"))
+      newHireHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-request-newhire-"))
+
+      await run(["init"], newHireHome)
+      fs.rmSync(path.join(testDir, ".secenvs"))
+      newHireKey = await getPublicKey(
+         fs.readFileSync(path.join(newHireHome, ".secenvs", "keys", "default.key"), "utf-8")
+      )
+
+      await run(["init"])
+      await run(["set", "API_KEY", "secret-value"])
+   })
+
+   afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true })
+      fs.rmSync(ownerHome, { recursive: true, force: true })
+      fs.rmSync(newHireHome, { recursive: true, force: true })
+   })
+
+   function run(args: string[], home: string = ownerHome) {
+      return execa("node", [BIN_PATH, ...args], {
+         cwd: testDir,
+         env: { SECENV_HOME: home },
+         reject: false,
+      })
+   }
+
+   it("records a pending request and approves it into a recipient", async () => {
+      const request = await run(["request-access", "--label", "bob"], newHireHome)
+      expect(request.exitCode).toBe(0)
+      const content = fs.readFileSync(path.join(testDir, ".secenvs"), "utf-8")
+      expect(content).toMatch(new RegExp(`_PENDING=[^|]+\\|bob\\|${newHireKey}`))
+
+      const again = await run(["request-access", "--label", "bob"], newHireHome)
+      expect(again.stdout + again.stderr).toContain("already pending")
+
+      const listed = await run(["recipients", "list"])
+      expect(listed.stdout).toContain("Pending access requests")
+      expect(listed.stdout).toContain(newHireKey)
+
+      const approved = await run(["approve", "bob"])
+      expect(approved.exitCode).toBe(0)
+
+      const updated = fs.readFileSync(path.join(testDir, ".secenvs"), "utf-8")
+      expect(updated).not.toContain("_PENDING=")
+      expect(updated).toContain(`_RECIPIENT=${newHireKey} # bob`)
+      expect((await run(["get", "API_KEY"], newHireHome)).stdout).toBe("secret-value")
+
+      const log = (await run(["log"])).stdout
+      expect(log).toContain("REQUEST_ACCESS")
+      expect(log).toContain("APPROVE")
+   })
+
+   it("leaves the _MAC alone when requesting access to a project without recipients", async () => {
+      const envFile = path.join(testDir, ".secenvs")
+      const mac = fs.readFileSync(envFile, "utf-8").match(/^_MAC=.*$/m)![0]
+
+      expect((await run(["request-access", "--label", "bob"], newHireHome)).exitCode).toBe(0)
+      expect(fs.readFileSync(envFile, "utf-8").match(/^_MAC=.*$/m)![0]).toBe(mac)
+
+      const set = await run(["set", "OTHER_KEY", "value"])
+      expect(set.stderr).toBe("")
+      expect(set.exitCode).toBe(0)
+   })
+
+   it("only lets existing recipients approve", async () => {
+      await run(["request-access"], newHireHome)
+      const selfApprove = await run(["approve"], newHireHome)
+      expect(selfApprove.exitCode).toBe(1)
+      expect(selfApprove.stderr).toContain("Only an existing recipient")
+      expect(fs.readFileSync(path.join(testDir, ".secenvs"), "utf-8")).not.toContain(
+         `_RECIPIENT=${newHireKey}`
+      )
+   })
+
+   it("rejects a request without trusting the key", async () => {
+      await run(["request-access", "--label", "bob"], newHireHome)
+      const rejected = await run(["reject"])
+      expect(rejected.exitCode).toBe(0)
+
+      const content = fs.readFileSync(path.join(testDir, ".secenvs"), "utf-8")
+      expect(content).not.toContain("_PENDING=")
+      expect(content).not.toContain(`_RECIPIENT=${newHireKey}`)
+      expect((await run(["log"])).stdout).toContain("REJECT")
+      expect((await run(["reject"])).stderr).toContain("no pending access requests")
+   })
+})
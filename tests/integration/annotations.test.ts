@@ -0,0 +1,91 @@
+import { execa } from "execa"
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import { fileURLToPath } from "url"
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const BIN_PATH = path.resolve(__dirname, "../../bin/secenvs.js")
+
+describe("CLI Integration: key annotations", () => {
+   let testDir: string
+   let testHome: string
+   let envFile: string
+
+   beforeEach(async () => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-annotations-cwd-"))
+      testHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-annotations-home-"))
+      envFile = path.join(testDir, ".secenvs")
+      await run(["init"])
+      await run(["set", "STRIPE_KEY", "sk_live_1"])
+      await run(["set", "OLD_TOKEN", "t0"])
+      await run(["set", "PORT", "3000"])
+   })
+
+   afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true })
+      fs.rmSync(testHome, { recursive: true, force: true })
+   })
+
+   function run(args: string[]) {
+      return execa("node", [BIN_PATH, ...args], {
+         cwd: testDir,
+         env: { SECENV_HOME: testHome },
+         reject: false,
+      })
+   }
+
+   const daysFromNow = (days: number) => new Date(Date.now() + days * 86_400_000).toISOString().slice(0, 10)
+
+   const annotate = (key: string, lines: string[]) =>
+      fs.writeFileSync(
+         envFile,
+         fs.readFileSync(envFile, "utf-8").replace(`\n${key}=`, `\n${lines.join("\n")}\n${key}=`)
+      )
+
+   it("shows annotations in list and keeps them when a key is rotated", async () => {
+      annotate("STRIPE_KEY", [
+         "# @description Stripe live secret key",
+         "# @owner payments-team",
+         "# @expires 2099-01-01",
+         "# @tags payments, billing",
+      ])
+
+      const list = await run(["list"])
+      expect(list.stdout).toContain(
+         "Stripe live secret key · owner: payments-team · expires: 2099-01-01 · tags: payments, billing"
+      )
+
+      await run(["rotate", "STRIPE_KEY", "sk_live_2"])
+      expect(fs.readFileSync(envFile, "utf-8")).toContain("# @owner payments-team\n# @expires 2099-01-01")
+      expect((await run(["list"])).stdout).toContain("owner: payments-team")
+   })
+
+   it("warns about expired and soon-expiring secrets in doctor", async () => {
+      expect((await run(["doctor"])).stdout).toContain("✓ Expiry: no secret expires in the next 30 days")
+
+      annotate("OLD_TOKEN", ["# @expires 2020-01-01"])
+      annotate("STRIPE_KEY", [`# @expires ${daysFromNow(10)}`])
+      annotate("PORT", [`# @expires ${daysFromNow(90)}`])
+
+      const doctor = await run(["doctor"])
+      expect(doctor.stdout).toContain("⚠ Expiry:")
+      expect(doctor.stdout).toContain("OLD_TOKEN expired on 2020-01-01")
+      expect(doctor.stdout).toContain("STRIPE_KEY expires in 10 days")
+      expect(doctor.stdout).not.toContain("PORT expires")
+      expect((await run(["list"])).stdout).toContain("expires: 2020-01-01 (expired)")
+   })
+
+   it("reports an invalid @expires date instead of failing every command", async () => {
+      annotate("PORT", ["# @expires 2027-02-30"])
+
+      const get = await run(["get", "PORT"])
+      expect(get.exitCode).toBe(0)
+      expect(get.stdout).toBe("3000")
+      expect((await run(["list"])).stdout).toMatch(
+         /PORT: Line \d+: invalid @expires date '2027-02-30', ignored/
+      )
+      expect((await run(["doctor"])).stdout).toContain("invalid @expires date '2027-02-30'")
+   })
+})
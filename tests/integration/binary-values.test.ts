@@ -0,0 +1,59 @@
+import { execa } from "execa"
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import { fileURLToPath } from "url"
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const BIN_PATH = path.resolve(__dirname, "../../bin/secenvs.js")
+
+describe("CLI Integration: binary values", () => {
+   let testDir: string
+   let testHome: string
+
+   // Not valid UTF-8, like the DER inside a .p12 file
+   const certificate = Buffer.from([0x30, 0x82, 0x0a, 0xff, 0xfe, 0x00, 0x0d, 0x0a, 0xc3, 0x28])
+
+   beforeEach(async () => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-binary-cwd-"))
+      testHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-binary-home-"))
+      await run(["init"])
+      fs.writeFileSync(path.join(testDir, "cert.p12"), certificate)
+   })
+
+   afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true })
+      fs.rmSync(testHome, { recursive: true, force: true })
+   })
+
+   function run(args: string[]) {
+      return execa("node", [BIN_PATH, ...args], {
+         cwd: testDir,
+         env: { SECENV_HOME: testHome },
+         reject: false,
+         encoding: "buffer",
+         stripFinalNewline: false,
+      })
+   }
+
+   it("round-trips exact bytes with set --file and get --raw", async () => {
+      const set = await run(["set", "CERT_P12", "--file", "cert.p12"])
+      expect(set.stdout.toString()).toContain("Encrypted and stored CERT_P12 as binary")
+
+      expect(Buffer.compare((await run(["get", "CERT_P12", "--raw"])).stdout, certificate)).toBe(0)
+      expect((await run(["get", "CERT_P12"])).stdout.toString()).toBe(certificate.toString("base64"))
+   })
+
+   it("keeps the binary marker when values are re-encrypted for a new recipient", async () => {
+      await run(["set", "CERT_P12", "--file", "cert.p12"])
+      const otherKey = "age1ql3z7hjy54pw3hyww5ayyfg7zqgvc7w3j2elw8zmrj2kg5sfn9aqmcac8p"
+      expect((await run(["trust", otherKey])).exitCode).toBe(0)
+      expect((await run(["get", "CERT_P12"])).stdout.toString()).toBe(certificate.toString("base64"))
+   })
+
+   it("stores base64 input that decodes to binary as binary", async () => {
+      await run(["set", "CERT_P12", certificate.toString("base64"), "--base64"])
+      expect(Buffer.compare((await run(["get", "CERT_P12", "--raw"])).stdout, certificate)).toBe(0)
+   })
+})
@@ -75,11 +75,11 @@ describe("CLI Error Handling", () => {
       expect(stderr).toContain("Secret 'MISSING_KEY' not found")
    })
 
-   it("should fail when multiline value is set without --base64", async () => {
+   it("should fail when set --file points to a missing file", async () => {
       await run(["init"])
-      const { exitCode, stderr } = await run(["set", "MULTI", "line1\nline2"])
+      const { exitCode, stderr } = await run(["set", "MULTI", "--file", "missing.pem"])
       expect(exitCode).toBe(1)
-      expect(stderr).toContain("Multiline values are not allowed")
+      expect(stderr).toContain("Failed to read missing.pem")
    })
 
    it("should handle corrupted .secenvs", async () => {
@@ -82,9 +82,12 @@ describe("CLI Integration", () => {
     expect(stdout).toContain("EXPORT_KEY=secret-content");
   });
 
-  it("should reject multiline values without --base64", async () => {
+  it("should store multiline values as-is without --base64", async () => {
     await run(["init"]);
-    await expect(run(["set", "MULTI", "line1\nline2"])).rejects.toThrow();
+    await run(["set", "MULTI", "line1\nline2"]);
+
+    const { stdout } = await run(["get", "MULTI"]);
+    expect(stdout).toBe("line1\nline2");
   });
 
   it("should accept multiline values with --base64", async () => {
@@ -0,0 +1,84 @@
+import { execa } from "execa"
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import { fileURLToPath } from "url"
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const BIN_PATH = path.resolve(__dirname, "../../bin/secenvs.js")
+
+describe("CLI Integration: .secenvs discovery", () => {
+   let repo: string
+   let testHome: string
+   let pkg: string
+
+   beforeEach(async () => {
+      repo = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "secenv-discovery-repo-")))
+      testHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-discovery-home-"))
+      pkg = path.join(repo, "packages", "api")
+      fs.mkdirSync(path.join(repo, ".git"))
+      fs.mkdirSync(pkg, { recursive: true })
+      await run(repo, ["init"])
+      await run(repo, ["set", "API_KEY", "sk_root"])
+   })
+
+   afterEach(() => {
+      fs.rmSync(repo, { recursive: true, force: true })
+      fs.rmSync(testHome, { recursive: true, force: true })
+   })
+
+   function run(cwd: string, args: string[], extraEnv: Record<string, string> = {}) {
+      return execa("node", [BIN_PATH, ...args], {
+         cwd,
+         env: { SECENV_HOME: testHome, ...extraEnv },
+         reject: false,
+      })
+   }
+
+   it("finds the repository's .secenvs from a package directory", async () => {
+      expect((await run(pkg, ["get", "API_KEY"])).stdout).toBe("sk_root")
+
+      const child = await run(pkg, ["run", "--", "node", "-e", "process.stdout.write(process.env.API_KEY)"])
+      expect(child.stdout).toBe("sk_root")
+
+      await run(pkg, ["set", "PKG_KEY", "from-package"])
+      expect(fs.existsSync(path.join(pkg, ".secenvs"))).toBe(false)
+      expect(fs.readFileSync(path.join(repo, ".secenvs"), "utf-8")).toContain("PKG_KEY=enc:age:")
+
+      const doctor = await run(pkg, ["doctor"])
+      expect(doctor.stdout).toContain(`✓ File: ${path.join(repo, ".secenvs")} (exists, found in ${repo}`)
+   })
+
+   it("uses an explicit --file or SECENV_FILE", async () => {
+      const other = path.join(repo, "other")
+      fs.mkdirSync(other)
+      fs.writeFileSync(path.join(other, ".secenvs"), "")
+      await run(other, ["set", "API_KEY", "sk_other"])
+
+      expect((await run(pkg, ["--file", "../../other/.secenvs", "get", "API_KEY"])).stdout).toBe("sk_other")
+      expect((await run(pkg, ["get", "API_KEY"], { SECENV_FILE: path.join(other, ".secenvs") })).stdout).toBe(
+         "sk_other"
+      )
+
+      const doctor = await run(pkg, ["--file", "../../other/.secenvs", "doctor"])
+      expect(doctor.stdout).toContain("set by SECENV_FILE (or --file)")
+   })
+
+   it("says when init uses the repository's .secenvs instead of creating one", async () => {
+      const freshHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-discovery-home-"))
+      try {
+         const init = await run(pkg, ["init"], { SECENV_HOME: freshHome })
+         expect(init.stdout).toContain(`Using the existing ${path.join(repo, ".secenvs")} (found in ${repo}`)
+         expect(fs.existsSync(path.join(pkg, ".secenvs"))).toBe(false)
+      } finally {
+         fs.rmSync(freshHome, { recursive: true, force: true })
+      }
+   })
+
+   it("refuses --file after a command other than set", async () => {
+      const list = await run(pkg, ["list", "--file", "../../other/.secenvs"])
+      expect(list.exitCode).toBe(1)
+      expect(list.stderr).toContain("--file must come before the command")
+   })
+})
@@ -0,0 +1,90 @@
+import { execa } from "execa"
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import { fileURLToPath } from "url"
+import { getPublicKey } from "../../src/age.js"
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const BIN_PATH = path.resolve(__dirname, "../../bin/secenvs.js")
+
+describe("CLI Integration: environments", () => {
+   let testDir: string
+   let devHome: string
+   let opsHome: string
+
+   beforeEach(async () => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-envs-cwd-"))
+      devHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-envs-dev-"))
+      opsHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-envs-ops-"))
+      await run(["init"])
+   })
+
+   afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true })
+      fs.rmSync(devHome, { recursive: true, force: true })
+      fs.rmSync(opsHome, { recursive: true, force: true })
+   })
+
+   function run(args: string[], home: string = devHome, extraEnv: Record<string, string> = {}) {
+      return execa("node", [BIN_PATH, ...args], {
+         cwd: testDir,
+         env: { SECENV_HOME: home, ...extraEnv },
+         reject: false,
+      })
+   }
+
+   const keyOf = async (home: string) =>
+      getPublicKey(fs.readFileSync(path.join(home, ".secenvs", "keys", "default.key"), "utf-8"))
+
+   it("--env writes to .secenvs.<env> and reads it layered over .secenvs", async () => {
+      await run(["set", "DB_HOST", "localhost"])
+      await run(["set", "LOG_LEVEL", "debug"])
+      const set = await run(["--env", "production", "set", "DB_HOST", "db.internal"])
+      expect(set.exitCode).toBe(0)
+
+      expect(fs.readFileSync(path.join(testDir, ".secenvs.production"), "utf-8")).toContain(
+         "DB_HOST=enc:age:"
+      )
+      expect((await run(["get", "DB_HOST"])).stdout).toBe("localhost")
+      expect((await run(["--env", "production", "get", "DB_HOST"])).stdout).toBe("db.internal")
+      expect((await run(["get", "LOG_LEVEL"], devHome, { SECENV_ENV: "production" })).stdout).toBe("debug")
+
+      const list = await run(["list", "--env", "production"])
+      expect(list.stdout).toContain("DB_HOST  [encrypted]")
+      expect(list.stdout).not.toContain("DB_HOST  [encrypted]  (from .secenvs)")
+      expect(list.stdout).toContain("LOG_LEVEL  [encrypted]  (from .secenvs)")
+
+      const script = "process.stdout.write(process.env.DB_HOST + ' ' + process.env.LOG_LEVEL)"
+      const child = await run(["--env", "production", "run", "--", "node", "-e", script])
+      expect(child.stdout).toBe("db.internal debug")
+   })
+
+   it("keeps a separate recipient set per environment", async () => {
+      await run(["init"], opsHome)
+      fs.rmSync(path.join(testDir, ".secenvs"))
+      await run(["init"])
+      const devKey = await keyOf(devHome)
+      const opsKey = await keyOf(opsHome)
+
+      await run(["set", "PORT", "3000"])
+      await run(["--env", "production", "trust", opsKey, "--label", "ops"])
+      await run(["--env", "production", "untrust", devKey])
+      await run(["--env", "production", "set", "STRIPE_KEY", "sk_live_123"], opsHome)
+
+      const production = fs.readFileSync(path.join(testDir, ".secenvs.production"), "utf-8")
+      expect(production).toContain(`_RECIPIENT=${opsKey} # ops`)
+      expect(production).not.toContain(`_RECIPIENT=${devKey}`)
+      expect(fs.readFileSync(path.join(testDir, ".secenvs"), "utf-8")).not.toContain(opsKey)
+
+      expect((await run(["--env", "production", "get", "STRIPE_KEY"], opsHome)).stdout).toBe("sk_live_123")
+      expect((await run(["--env", "production", "get", "STRIPE_KEY"])).exitCode).toBe(1)
+   })
+
+   it("rejects invalid environment names", async () => {
+      const result = await run(["--env", "../prod", "list"])
+      expect(result.exitCode).toBe(1)
+      expect(result.stderr).toContain("Invalid environment name")
+   })
+})
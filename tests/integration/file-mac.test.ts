@@ -0,0 +1,85 @@
+import { execa } from "execa"
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import { fileURLToPath } from "url"
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const BIN_PATH = path.resolve(__dirname, "../../bin/secenvs.js")
+
+describe("CLI Integration: whole-file _MAC", () => {
+   let testDir: string
+   let testHome: string
+   let envFile: string
+
+   beforeEach(async () => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-mac-cwd-"))
+      testHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-mac-home-"))
+      envFile = path.join(testDir, ".secenvs")
+      await run(["init"])
+      await run(["set", "API_KEY", "sk_live_1"])
+      await run(["set", "DB_PASSWORD", "hunter2"])
+   })
+
+   afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true })
+      fs.rmSync(testHome, { recursive: true, force: true })
+   })
+
+   function run(args: string[], extraEnv: Record<string, string> = {}) {
+      return execa("node", [BIN_PATH, ...args], {
+         cwd: testDir,
+         env: { SECENV_HOME: testHome, ...extraEnv },
+         reject: false,
+      })
+   }
+
+   const removeLine = (key: string) =>
+      fs.writeFileSync(
+         envFile,
+         fs
+            .readFileSync(envFile, "utf-8")
+            .split("\n")
+            .filter((line) => !line.startsWith(`${key}=`))
+            .join("\n")
+      )
+
+   it("signs the file on every write and reports it in doctor", async () => {
+      expect(fs.readFileSync(envFile, "utf-8")).toMatch(/^_MAC=age1/m)
+      expect((await run(["doctor"])).stdout).toContain("✓ Integrity: _MAC signed by age1")
+
+      await run(["delete", "DB_PASSWORD"])
+      expect((await run(["doctor"])).stdout).toContain("✓ Integrity")
+   })
+
+   it("detects a deleted key until the change is accepted", async () => {
+      removeLine("DB_PASSWORD")
+
+      expect((await run(["doctor"])).stdout).toContain("✗ Integrity")
+      const set = await run(["set", "OTHER", "value"])
+      expect(set.exitCode).toBe(1)
+      expect(set.stderr).toContain("does not match its _MAC")
+
+      const strictRun = await run(["run", "--", "node", "-e", "process.stdout.write('ran')"], {
+         SECENV_STRICT: "1",
+      })
+      expect(strictRun.exitCode).toBe(1)
+      expect(strictRun.stdout).not.toContain("ran")
+
+      expect((await run(["recipients", "sign"])).exitCode).toBe(0)
+      expect((await run(["doctor"])).stdout).toContain("✓ Integrity")
+      expect((await run(["set", "OTHER", "value"])).exitCode).toBe(0)
+   })
+
+   it("warns when a file has no _MAC", async () => {
+      removeLine("_MAC")
+      expect((await run(["doctor"])).stdout).toContain("⚠ Integrity: no _MAC line")
+
+      const strictRun = await run(["run", "--", "node", "-e", "process.stdout.write('ran')"], {
+         SECENV_STRICT: "1",
+      })
+      expect(strictRun.exitCode).toBe(1)
+      expect(strictRun.stderr).toContain("no _MAC line")
+   })
+})
@@ -0,0 +1,70 @@
+import { execa } from "execa"
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import { fileURLToPath } from "url"
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const BIN_PATH = path.resolve(__dirname, "../../bin/secenvs.js")
+
+describe("CLI Integration: fmt", () => {
+   let testDir: string
+   let testHome: string
+   let envFile: string
+
+   beforeEach(async () => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-fmt-cwd-"))
+      testHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-fmt-home-"))
+      envFile = path.join(testDir, ".secenvs")
+      await run(["init"])
+      await run(["set", "PORT", "3000"])
+      await run(["set", "DB_PASS", "hunter2"])
+      await run(["set", "API_KEY", "k"])
+   })
+
+   afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true })
+      fs.rmSync(testHome, { recursive: true, force: true })
+   })
+
+   function run(args: string[]) {
+      return execa("node", [BIN_PATH, ...args], {
+         cwd: testDir,
+         env: { SECENV_HOME: testHome },
+         reject: false,
+      })
+   }
+
+   it("fails --check on an unformatted file and passes it after fmt", async () => {
+      const before = fs.readFileSync(envFile, "utf-8")
+      const check = await run(["fmt", "--check"])
+      expect(check.exitCode).toBe(1)
+      expect(check.stderr).toContain("is not formatted")
+      expect(fs.readFileSync(envFile, "utf-8")).toBe(before)
+
+      const fmt = await run(["fmt"])
+      expect(fmt.exitCode).toBe(0)
+      const keys = fs
+         .readFileSync(envFile, "utf-8")
+         .split("\n")
+         .filter((line) => /^[A-Z]/.test(line))
+         .map((line) => line.split("=")[0])
+      expect(keys).toEqual(["API_KEY", "DB_PASS", "PORT"])
+
+      expect((await run(["fmt", "--check"])).exitCode).toBe(0)
+   })
+
+   it("keeps annotations with their key and the file readable", async () => {
+      fs.writeFileSync(
+         envFile,
+         fs.readFileSync(envFile, "utf-8").replace("\nDB_PASS=", "\n# @owner data-team\nDB_PASS=")
+      )
+
+      await run(["fmt"])
+      expect(fs.readFileSync(envFile, "utf-8")).toMatch(/\n# @owner data-team\nDB_PASS=enc:age:/)
+      expect((await run(["list"])).stdout).toContain("owner: data-team")
+      expect((await run(["get", "DB_PASS"])).stdout).toBe("hunter2")
+      expect((await run(["doctor"])).stdout).not.toContain("✗")
+   })
+})
@@ -0,0 +1,156 @@
+import { execa } from "execa"
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import { fileURLToPath } from "url"
+import { getPublicKey } from "../../src/age.js"
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const BIN_PATH = path.resolve(__dirname, "../../bin/secenvs.js")
+
+describe("CLI Integration: recipient groups", () => {
+   let testDir: string
+   let aliceHome: string
+   let contractorHome: string
+   let contractorKey: string
+
+   beforeEach(async () => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-groups-cwd-"))
+      aliceHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-groups-alice-"))
+      contractorHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-groups-contractor-"))
+
+      await run(["init"], contractorHome)
+      fs.rmSync(path.join(testDir, ".secenvs"))
+      contractorKey = await getPublicKey(
+         fs.readFileSync(path.join(contractorHome, ".secenvs", "keys", "default.key"), "utf-8")
+      )
+
+      await run(["init"])
+      await run(["trust", contractorKey, "--label", "contractor"])
+   })
+
+   afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true })
+      fs.rmSync(aliceHome, { recursive: true, force: true })
+      fs.rmSync(contractorHome, { recursive: true, force: true })
+   })
+
+   function run(args: string[], home: string = aliceHome) {
+      return execa("node", [BIN_PATH, ...args], {
+         cwd: testDir,
+         env: { SECENV_HOME: home },
+         reject: false,
+      })
+   }
+
+   async function aliceKey() {
+      return getPublicKey(fs.readFileSync(path.join(aliceHome, ".secenvs", "keys", "default.key"), "utf-8"))
+   }
+
+   it("set --group encrypts only to the group's members", async () => {
+      await run(["group", "add", "backend", await aliceKey()])
+      await run(["set", "PORT", "3000"])
+      const scoped = await run(["set", "STRIPE_LIVE_KEY", "sk_live_123", "--group", "backend"])
+      expect(scoped.stdout).toContain("1 recipient")
+
+      expect((await run(["get", "PORT"], contractorHome)).stdout).toBe("3000")
+      expect((await run(["get", "STRIPE_LIVE_KEY"], contractorHome)).exitCode).toBe(1)
+      expect((await run(["get", "STRIPE_LIVE_KEY"])).stdout).toBe("sk_live_123")
+
+      const list = await run(["list"])
+      expect(list.stdout).toContain("STRIPE_LIVE_KEY  [encrypted]  (group: backend)")
+
+      const doctor = await run(["doctor"], contractorHome)
+      expect(doctor.stdout).toContain("1 group-scoped not readable by you")
+      expect(doctor.stdout).toContain("✓ Access: 1 group(s), 1 group-scoped key(s)")
+   })
+
+   it("keeps scoped keys restricted when secrets are re-encrypted by trust", async () => {
+      await run(["group", "add", "backend", await aliceKey()])
+      await run(["set", "STRIPE_LIVE_KEY", "sk_live_123", "--group", "backend"])
+      await run(["untrust", "contractor"])
+      await run(["trust", contractorKey])
+
+      expect((await run(["get", "STRIPE_LIVE_KEY"], contractorHome)).exitCode).toBe(1)
+
+      await run(["group", "add", "backend", contractorKey])
+      expect((await run(["get", "STRIPE_LIVE_KEY"], contractorHome)).stdout).toBe("sk_live_123")
+   })
+
+   it("untrust refuses to leave a scoped secret without readers", async () => {
+      await run(["group", "add", "backend", "contractor"])
+      await run(["set", "STRIPE_LIVE_KEY", "sk_live_123", "--group", "backend"])
+
+      const refused = await run(["untrust", "contractor"])
+      expect(refused.exitCode).toBe(1)
+      expect(refused.stderr).toContain("would have no members left")
+   })
+
+   it("untrust removes the key from every group", async () => {
+      await run(["group", "add", "backend", await aliceKey()])
+      await run(["group", "add", "backend", "contractor"])
+      await run(["set", "STRIPE_LIVE_KEY", "sk_live_123", "--group", "backend"])
+
+      const removed = await run(["untrust", "contractor"])
+      expect(removed.exitCode).toBe(0)
+      expect(fs.readFileSync(path.join(testDir, ".secenvs"), "utf-8")).not.toContain(
+         `_GROUP=backend:${contractorKey}`
+      )
+      expect((await run(["get", "STRIPE_LIVE_KEY"])).stdout).toBe("sk_live_123")
+      expect((await run(["get", "STRIPE_LIVE_KEY"], contractorHome)).exitCode).toBe(1)
+   })
+
+   it("skips scoped secrets the caller cannot read when re-encrypting", async () => {
+      await run(["group", "add", "backend", "contractor"])
+      await run(["set", "STRIPE_LIVE_KEY", "sk_live_123", "--group", "backend"])
+
+      const trust = await run(["trust", "age1ql3z7hjy54pw3hyww5ayyfg7zqgvc7w3j2elw8zmrj2kg5sfn9aqmcac8p"])
+      expect(trust.exitCode).toBe(0)
+      expect(trust.stdout).toContain("Skipped STRIPE_LIVE_KEY")
+      expect((await run(["get", "STRIPE_LIVE_KEY"], contractorHome)).stdout).toBe("sk_live_123")
+   })
+
+   it("refuses to remove a member from a group whose secrets the caller cannot re-encrypt", async () => {
+      await run(["trust", "age1ql3z7hjy54pw3hyww5ayyfg7zqgvc7w3j2elw8zmrj2kg5sfn9aqmcac8p", "--label", "bot"])
+      await run(["group", "add", "backend", "contractor"])
+      await run(["group", "add", "backend", "bot"])
+      await run(["set", "STRIPE_LIVE_KEY", "sk_live_123", "--group", "backend"])
+      const before = fs.readFileSync(path.join(testDir, ".secenvs"), "utf-8")
+
+      for (const args of [
+         ["group", "remove", "backend", "contractor"],
+         ["untrust", "contractor"],
+      ]) {
+         const refused = await run(args)
+         expect(refused.exitCode).toBe(1)
+         expect(refused.stderr).toContain("You cannot read STRIPE_LIVE_KEY")
+         expect(refused.stderr).toContain("Ask a member of group backend")
+      }
+      expect(fs.readFileSync(path.join(testDir, ".secenvs"), "utf-8")).toBe(before)
+
+      // A member of the group can do it, once they accept the recipient list
+      await run(["recipients", "sign"], contractorHome)
+      expect((await run(["group", "remove", "backend", "bot"], contractorHome)).exitCode).toBe(0)
+   })
+
+   it("does not encrypt to a group member injected outside the signed recipient list", async () => {
+      await run(["group", "add", "backend", await aliceKey()])
+      const envFile = path.join(testDir, ".secenvs")
+      fs.appendFileSync(
+         envFile,
+         "_GROUP=backend:age1ql3z7hjy54pw3hyww5ayyfg7zqgvc7w3j2elw8zmrj2kg5sfn9aqmcac8p\n"
+      )
+
+      const refused = await run(["set", "STRIPE_LIVE_KEY", "sk_live_123", "--group", "backend"])
+      expect(refused.exitCode).toBe(1)
+      expect(refused.stderr).toContain("not in the signed recipient list")
+      expect(fs.readFileSync(envFile, "utf-8")).not.toContain("STRIPE_LIVE_KEY=")
+   })
+
+   it("group add only accepts existing recipients", async () => {
+      const result = await run(["group", "add", "backend", "nobody"])
+      expect(result.exitCode).toBe(1)
+      expect(result.stderr).toContain("is not a recipient")
+   })
+})
@@ -0,0 +1,88 @@
+import { execa } from "execa"
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import { fileURLToPath } from "url"
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const BIN_PATH = path.resolve(__dirname, "../../bin/secenvs.js")
+
+describe("CLI Integration: _INCLUDE", () => {
+   let repo: string
+   let testHome: string
+   let service: string
+   let shared: string
+
+   beforeEach(async () => {
+      repo = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-include-repo-"))
+      testHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-include-home-"))
+      fs.mkdirSync(path.join(repo, ".git"))
+      service = path.join(repo, "services", "api")
+      shared = path.join(repo, "shared")
+      fs.mkdirSync(service, { recursive: true })
+      fs.mkdirSync(shared)
+
+      await run(shared, ["init"])
+      await run(shared, ["set", "SENTRY_DSN", "https://shared@sentry.io/1"])
+      await run(shared, ["set", "LOG_LEVEL", "info"])
+      await run(service, ["init"])
+      await run(service, ["set", "LOG_LEVEL", "debug"])
+   })
+
+   afterEach(() => {
+      fs.rmSync(repo, { recursive: true, force: true })
+      fs.rmSync(testHome, { recursive: true, force: true })
+   })
+
+   function run(cwd: string, args: string[]) {
+      return execa("node", [BIN_PATH, ...args], {
+         cwd,
+         env: { SECENV_HOME: testHome },
+         reject: false,
+      })
+   }
+
+   const include = async (target: string) => {
+      fs.appendFileSync(path.join(service, ".secenvs"), `_INCLUDE=${target}\n`)
+      // Accept the edited file so its _MAC matches again
+      await run(service, ["recipients", "sign"])
+   }
+
+   it("reads keys from the included file, with local keys overriding them", async () => {
+      await include("../../shared/.secenvs")
+
+      expect((await run(service, ["get", "SENTRY_DSN"])).stdout).toBe("https://shared@sentry.io/1")
+      expect((await run(service, ["get", "LOG_LEVEL"])).stdout).toBe("debug")
+
+      const list = await run(service, ["list"])
+      expect(list.stdout).toContain(
+         `SENTRY_DSN  [encrypted]  (from ${path.join("..", "..", "shared", ".secenvs")})`
+      )
+      expect(list.stdout).not.toContain("LOG_LEVEL  [encrypted]  (from")
+
+      const child = await run(service, [
+         "run",
+         "--",
+         "node",
+         "-e",
+         "process.stdout.write(`${process.env.SENTRY_DSN} ${process.env.LOG_LEVEL}`)",
+      ])
+      expect(child.stdout).toBe("https://shared@sentry.io/1 debug")
+      expect(child.stderr).not.toContain("_MAC")
+   })
+
+   it("refuses includes that leave the repository", async () => {
+      const outside = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-include-outside-"))
+      try {
+         fs.writeFileSync(path.join(outside, ".secenvs"), "LEAKED=1\n")
+         await include(path.join(outside, ".secenvs"))
+
+         const get = await run(service, ["get", "LEAKED"])
+         expect(get.exitCode).toBe(1)
+         expect(get.stderr).toContain("Directory traversal detected")
+      } finally {
+         fs.rmSync(outside, { recursive: true, force: true })
+      }
+   })
+})
@@ -0,0 +1,82 @@
+import { execa } from "execa"
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import { fileURLToPath } from "url"
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const BIN_PATH = path.resolve(__dirname, "../../bin/secenvs.js")
+
+describe("CLI Integration: key backup and recover", () => {
+   let testDir: string
+   let secenvHome: string
+
+   beforeEach(() => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-backup-cwd-"))
+      secenvHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-backup-home-"))
+   })
+
+   afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true })
+      fs.rmSync(secenvHome, { recursive: true, force: true })
+   })
+
+   const run = (args: string[], input: string = "") =>
+      execa("node", [BIN_PATH, ...args], {
+         cwd: testDir,
+         env: { SECENV_HOME: secenvHome },
+         input,
+         reject: false,
+      })
+
+   /** Splits backup output into share blocks, each keeping its `#` header line. */
+   const shareBlocks = (stdout: string) => stdout.split(/\n(?=# secenvs identity share)/).slice(1)
+
+   it("recovers the identity from a threshold of shares", async () => {
+      await run(["init"])
+      await run(["set", "API_KEY", "value-123"])
+      const keyPath = path.join(secenvHome, ".secenvs", "keys", "default.key")
+      const original = fs.readFileSync(keyPath, "utf-8")
+
+      const backup = await run(["key", "backup", "--shares", "5", "--threshold", "3"])
+      expect(backup.exitCode).toBe(0)
+      const blocks = shareBlocks(backup.stdout)
+      expect(blocks).toHaveLength(5)
+      expect(blocks[0]).toContain("share 1/5 (3 needed")
+
+      fs.rmSync(keyPath)
+      const recover = await run(["key", "recover"], [blocks[4], blocks[1], blocks[2]].join("\n\n"))
+      expect(recover.exitCode).toBe(0)
+      expect(recover.stdout).toContain("Identity 'default' recovered")
+      expect(fs.readFileSync(keyPath, "utf-8")).toBe(original)
+      expect((await run(["get", "API_KEY"])).stdout).toBe("value-123")
+   })
+
+   it("accepts the full backup output as-is", async () => {
+      await run(["init"])
+      const backup = await run(["key", "backup", "--shares", "3", "--threshold", "2"])
+
+      const recover = await run(["key", "recover", "--name", "restored"], backup.stdout)
+      expect(recover.exitCode).toBe(0)
+      expect(fs.existsSync(path.join(secenvHome, ".secenvs", "keys", "restored.key"))).toBe(true)
+   })
+
+   it("fails when too few shares are supplied", async () => {
+      await run(["init"])
+      const blocks = shareBlocks((await run(["key", "backup", "--shares", "3", "--threshold", "2"])).stdout)
+
+      const recover = await run(["key", "recover", "--name", "restored"], blocks[0])
+      expect(recover.exitCode).toBe(1)
+      expect(recover.stderr).toContain("At least 2 shares are required")
+   })
+
+   it("refuses to overwrite an existing identity", async () => {
+      await run(["init"])
+      const blocks = shareBlocks((await run(["key", "backup", "--shares", "3", "--threshold", "2"])).stdout)
+
+      const recover = await run(["key", "recover"], blocks.join("\n\n"))
+      expect(recover.exitCode).toBe(1)
+      expect(recover.stderr).toContain("already exists")
+   })
+})
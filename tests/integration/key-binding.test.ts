@@ -0,0 +1,78 @@
+import { execa } from "execa"
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import { fileURLToPath } from "url"
+import { encrypt, getPublicKey } from "../../src/age.js"
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const BIN_PATH = path.resolve(__dirname, "../../bin/secenvs.js")
+
+describe("CLI Integration: key binding", () => {
+   let testDir: string
+   let testHome: string
+   let envFile: string
+
+   beforeEach(async () => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-binding-cwd-"))
+      testHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-binding-home-"))
+      envFile = path.join(testDir, ".secenvs")
+      await run(["init"])
+   })
+
+   afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true })
+      fs.rmSync(testHome, { recursive: true, force: true })
+   })
+
+   function run(args: string[]) {
+      return execa("node", [BIN_PATH, ...args], {
+         cwd: testDir,
+         env: { SECENV_HOME: testHome },
+         reject: false,
+      })
+   }
+
+   const valueOf = (key: string) =>
+      fs
+         .readFileSync(envFile, "utf-8")
+         .split("\n")
+         .find((line) => line.startsWith(`${key}=`))!
+         .slice(key.length + 1)
+
+   it("refuses to decrypt a value moved to another key", async () => {
+      await run(["set", "DB_PASSWORD", "hunter2"])
+      await run(["set", "PUBLIC_FLAG", "on"])
+
+      const content = fs.readFileSync(envFile, "utf-8")
+      fs.writeFileSync(envFile, content.replace(valueOf("PUBLIC_FLAG"), valueOf("DB_PASSWORD")))
+
+      const get = await run(["get", "PUBLIC_FLAG"])
+      expect(get.exitCode).toBe(1)
+      expect(get.stderr).toContain("encrypted for DB_PASSWORD")
+      expect((await run(["get", "DB_PASSWORD"])).stdout).toBe("hunter2")
+
+      const doctor = await run(["doctor"])
+      expect(doctor.stdout).toContain("✗ Decryption: PUBLIC_FLAG was encrypted for a different key")
+   })
+
+   it("flags legacy values in doctor and binds them with upgrade-format", async () => {
+      await run(["set", "NEW_KEY", "bound"])
+      const identity = fs.readFileSync(path.join(testHome, ".secenvs", "keys", "default.key"), "utf-8")
+      const legacy = await encrypt([await getPublicKey(identity)], "legacy-value")
+      fs.appendFileSync(envFile, `OLD_KEY=enc:age:${legacy}\n`)
+
+      expect((await run(["get", "OLD_KEY"])).stdout).toBe("legacy-value")
+      expect((await run(["doctor"])).stdout).toContain("1 value(s) not bound to their key name")
+
+      const upgrade = await run(["upgrade-format"])
+      expect(upgrade.exitCode).toBe(0)
+      expect(upgrade.stdout).toContain("Bound 1 value to its key name")
+      expect(valueOf("OLD_KEY")).not.toBe(`enc:age:${legacy}`)
+
+      expect((await run(["get", "OLD_KEY"])).stdout).toBe("legacy-value")
+      expect((await run(["doctor"])).stdout).toContain("every readable value is bound to its key name")
+      expect((await run(["upgrade-format"])).stdout).toContain("already bound")
+   })
+})
@@ -0,0 +1,92 @@
+import { execa } from "execa"
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import { fileURLToPath } from "url"
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const BIN_PATH = path.resolve(__dirname, "../../bin/secenvs.js")
+
+describe("CLI Integration: named identities", () => {
+   let testDir: string
+   let secenvHome: string
+
+   beforeEach(() => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-keys-cwd-"))
+      secenvHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-keys-home-"))
+   })
+
+   afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true })
+      fs.rmSync(secenvHome, { recursive: true, force: true })
+   })
+
+   const run = (args: string[], extraEnv: Record<string, string> = {}) =>
+      execa("node", [BIN_PATH, ...args], {
+         cwd: testDir,
+         env: { SECENV_HOME: secenvHome, ...extraEnv },
+         reject: false,
+      })
+
+   it("key generate creates a named identity and key list shows it", async () => {
+      await run(["init"])
+      const generated = await run(["key", "generate", "--name", "work"])
+      expect(generated.stdout).toContain("Identity 'work' created")
+      expect(fs.existsSync(path.join(secenvHome, ".secenvs", "keys", "work.key"))).toBe(true)
+
+      const { stdout } = await run(["key", "list"])
+      expect(stdout).toMatch(/\* default\s+age1/)
+      expect(stdout).toMatch(/ {2}work\s+age1/)
+   })
+
+   it("key generate refuses to overwrite an existing identity", async () => {
+      await run(["key", "generate", "--name", "work"])
+      const again = await run(["key", "generate", "--name", "work"])
+      expect(again.exitCode).toBe(1)
+      expect(again.stderr).toContain("already exists")
+   })
+
+   it("key use switches the active identity", async () => {
+      await run(["init"])
+      await run(["key", "generate", "--name", "work"])
+
+      const use = await run(["key", "use", "work"])
+      expect(use.stdout).toContain("Active identity is now 'work'")
+
+      const { stdout } = await run(["key", "list"])
+      expect(stdout).toMatch(/\* work/)
+   })
+
+   it("get decrypts with a non-active identity listed as a recipient", async () => {
+      await run(["key", "generate", "--name", "work"])
+      await run(["key", "use", "work"])
+      await run(["set", "API_KEY", "work-value"])
+      await run(["key", "generate", "--name", "personal"])
+      await run(["key", "use", "personal"])
+
+      const { stdout, exitCode } = await run(["get", "API_KEY"])
+      expect(exitCode).toBe(0)
+      expect(stdout).toBe("work-value")
+   })
+
+   it("key use --project pins the identity through _IDENTITY_HINT", async () => {
+      await run(["init"])
+      await run(["key", "generate", "--name", "work"])
+
+      const pin = await run(["key", "use", "work", "--project"])
+      expect(pin.stdout).toContain("Pinned identity 'work'")
+      expect(fs.readFileSync(path.join(testDir, ".secenvs"), "utf-8")).toContain("_IDENTITY_HINT=work")
+
+      const { stdout } = await run(["key", "list"])
+      expect(stdout).toMatch(/\* work/)
+   })
+
+   it("SECENV_IDENTITY selects the identity for a single command", async () => {
+      await run(["init"])
+      await run(["key", "generate", "--name", "ci"])
+
+      const { stdout } = await run(["key", "list"], { SECENV_IDENTITY: "ci" })
+      expect(stdout).toMatch(/\* ci/)
+   })
+})
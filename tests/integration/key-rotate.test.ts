@@ -0,0 +1,110 @@
+import { execa } from "execa"
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import { fileURLToPath } from "url"
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const BIN_PATH = path.resolve(__dirname, "../../bin/secenvs.js")
+
+describe("CLI Integration: key rotate", () => {
+   let projectA: string
+   let projectB: string
+   let secenvHome: string
+
+   beforeEach(() => {
+      projectA = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-rotate-a-"))
+      projectB = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-rotate-b-"))
+      secenvHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-rotate-home-"))
+   })
+
+   afterEach(() => {
+      fs.rmSync(projectA, { recursive: true, force: true })
+      fs.rmSync(projectB, { recursive: true, force: true })
+      fs.rmSync(secenvHome, { recursive: true, force: true })
+   })
+
+   const run = (cwd: string, args: string[]) =>
+      execa("node", [BIN_PATH, ...args], {
+         cwd,
+         env: { SECENV_HOME: secenvHome },
+         reject: false,
+      })
+
+   const keysDir = () => path.join(secenvHome, ".secenvs", "keys")
+   const publicKey = async () => (await run(projectA, ["key", "list"])).stdout.match(/age1[0-9a-z]+/)?.[0]
+
+   async function setup() {
+      await run(projectA, ["init"])
+      await run(projectA, ["set", "API_KEY", "value-a"])
+      await run(projectB, ["init"])
+      await run(projectB, ["set", "DB_PASS", "value-b"])
+      await run(projectA, ["vault", "set", "SHARED", "vault-value"])
+      await run(projectA, ["vault", "set", "CLIENT", "work-value", "--name", "work"])
+   }
+
+   it("replaces the identity, re-encrypts the vault and every listed project", async () => {
+      await setup()
+      const oldKey = fs.readFileSync(path.join(keysDir(), "default.key"), "utf-8")
+
+      const rotate = await run(projectA, ["key", "rotate", projectA, projectB])
+      expect(rotate.exitCode).toBe(0)
+      expect(rotate.stdout).toContain("Identity 'default' rotated")
+
+      const newKey = fs.readFileSync(path.join(keysDir(), "default.key"), "utf-8")
+      expect(newKey).not.toBe(oldKey)
+      const archived = fs.readdirSync(path.join(keysDir(), "archive"))
+      expect(archived).toHaveLength(1)
+      expect(fs.readFileSync(path.join(keysDir(), "archive", archived[0]), "utf-8")).toBe(oldKey)
+      expect(fs.existsSync(path.join(keysDir(), "rotation.json"))).toBe(false)
+
+      expect((await run(projectA, ["get", "API_KEY"])).stdout).toBe("value-a")
+      expect((await run(projectB, ["get", "DB_PASS"])).stdout).toBe("value-b")
+      expect((await run(projectA, ["vault", "get", "SHARED"])).stdout).toBe("vault-value")
+      expect((await run(projectA, ["vault", "get", "CLIENT", "--name", "work"])).stdout).toBe("work-value")
+
+      const newPublicKey = await publicKey()
+      expect(fs.readFileSync(path.join(projectB, ".secenvs"), "utf-8")).toContain(
+         `_RECIPIENT=${newPublicKey}`
+      )
+      expect((await run(projectB, ["log"])).stdout).toContain("ROTATE_IDENTITY")
+   })
+
+   it("re-encrypts every environment file of a project", async () => {
+      await setup()
+      await run(projectA, ["--env", "production", "set", "API_KEY", "value-prod"])
+
+      const rotate = await run(projectA, ["key", "rotate", projectA])
+      expect(rotate.exitCode).toBe(0)
+      expect(rotate.stdout).toContain(".secenvs.production")
+
+      expect((await run(projectA, ["--env", "production", "get", "API_KEY"])).stdout).toBe("value-prod")
+      expect((await run(projectA, ["get", "API_KEY"])).stdout).toBe("value-a")
+   })
+
+   it("resumes a rotation interrupted partway through the project list", async () => {
+      await setup()
+      const envB = path.join(projectB, ".secenvs")
+      const original = fs.readFileSync(envB, "utf-8")
+      fs.appendFileSync(envB, "BROKEN=enc:age:not-a-ciphertext\n")
+
+      const interrupted = await run(projectA, ["key", "rotate", projectA, projectB])
+      expect(interrupted.exitCode).toBe(1)
+      const state = JSON.parse(fs.readFileSync(path.join(keysDir(), "rotation.json"), "utf-8"))
+      expect(state.completed).toEqual([path.resolve(projectA)])
+
+      const again = await run(projectA, ["key", "rotate", projectA])
+      expect(again.exitCode).toBe(1)
+      expect(again.stderr).toContain("--resume")
+
+      fs.writeFileSync(envB, original)
+      const resumed = await run(projectA, ["key", "rotate", "--resume"])
+      expect(resumed.exitCode).toBe(0)
+      expect(resumed.stdout).toContain("1/2 projects done")
+
+      expect((await run(projectA, ["get", "API_KEY"])).stdout).toBe("value-a")
+      expect((await run(projectB, ["get", "DB_PASS"])).stdout).toBe("value-b")
+      expect((await run(projectA, ["vault", "get", "SHARED"])).stdout).toBe("vault-value")
+   })
+})
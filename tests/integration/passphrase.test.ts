@@ -0,0 +1,74 @@
+import { execa } from "execa"
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import { fileURLToPath } from "url"
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const BIN_PATH = path.resolve(__dirname, "../../bin/secenvs.js")
+
+describe("CLI Integration: passphrase-protected identity", () => {
+   let testDir: string
+   let secenvHome: string
+
+   beforeEach(() => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-passphrase-cwd-"))
+      secenvHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-passphrase-home-"))
+   })
+
+   afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true })
+      fs.rmSync(secenvHome, { recursive: true, force: true })
+   })
+
+   const run = (args: string[], extraEnv: Record<string, string> = {}) =>
+      execa("node", [BIN_PATH, ...args], {
+         cwd: testDir,
+         env: { SECENV_HOME: secenvHome, ...extraEnv },
+         reject: false,
+      })
+
+   it("init --passphrase stores a wrapped identity usable with SECENV_PASSPHRASE", async () => {
+      const init = await run(["init", "--passphrase"], { SECENV_PASSPHRASE: "s3cret-pass" })
+      expect(init.stdout).toContain("passphrase-protected")
+
+      const keyContent = fs.readFileSync(path.join(secenvHome, ".secenvs", "keys", "default.key"), "utf-8")
+      expect(keyContent).toContain("BEGIN AGE ENCRYPTED FILE")
+      expect(keyContent).not.toContain("AGE-SECRET-KEY-1")
+
+      await run(["set", "API_KEY", "value-123"], { SECENV_PASSPHRASE: "s3cret-pass" })
+      const get = await run(["get", "API_KEY"], { SECENV_PASSPHRASE: "s3cret-pass" })
+      expect(get.stdout).toBe("value-123")
+   })
+
+   it("get fails without the passphrase in a non-interactive shell", async () => {
+      await run(["init", "--passphrase"], { SECENV_PASSPHRASE: "s3cret-pass" })
+      await run(["set", "API_KEY", "value-123"], { SECENV_PASSPHRASE: "s3cret-pass" })
+
+      const wrong = await run(["get", "API_KEY"], { SECENV_PASSPHRASE: "wrong-pass" })
+      expect(wrong.exitCode).toBe(1)
+      expect(wrong.stderr).toContain("incorrect passphrase")
+   })
+
+   it("doctor reports whether the identity is protected", async () => {
+      await run(["init", "--passphrase"], { SECENV_PASSPHRASE: "s3cret-pass" })
+      const protectedRun = await run(["doctor"], { SECENV_PASSPHRASE: "s3cret-pass" })
+      expect(protectedRun.stdout).toContain("Protection: identity is passphrase-protected")
+
+      fs.rmSync(path.join(secenvHome, ".secenvs"), { recursive: true, force: true })
+      await run(["init"])
+      const plainRun = await run(["doctor"])
+      expect(plainRun.stdout).toContain("Protection: identity is stored unencrypted")
+   })
+
+   it("key export offers wrapped and unwrapped output", async () => {
+      await run(["init", "--passphrase"], { SECENV_PASSPHRASE: "s3cret-pass" })
+
+      const raw = await run(["key", "export"], { SECENV_PASSPHRASE: "s3cret-pass" })
+      expect(raw.stdout).toMatch(/^AGE-SECRET-KEY-1/)
+
+      const wrapped = await run(["key", "export", "--wrapped"])
+      expect(wrapped.stdout).toContain("BEGIN AGE ENCRYPTED FILE")
+   })
+})
@@ -0,0 +1,60 @@
+import { execa } from "execa"
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import { fileURLToPath } from "url"
+import { generateIdentity, getPublicKey } from "../../src/age.js"
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const BIN_PATH = path.resolve(__dirname, "../../bin/secenvs.js")
+
+describe("CLI Integration: post-quantum identities", () => {
+   let testDir: string
+   let secenvHome: string
+
+   beforeEach(() => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-pq-cwd-"))
+      secenvHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-pq-home-"))
+   })
+
+   afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true })
+      fs.rmSync(secenvHome, { recursive: true, force: true })
+   })
+
+   const run = (args: string[]) =>
+      execa("node", [BIN_PATH, ...args], {
+         cwd: testDir,
+         env: { SECENV_HOME: secenvHome },
+         reject: false,
+      })
+
+   it("init --pq creates a hybrid identity that can set and get secrets", async () => {
+      const init = await run(["init", "--pq"])
+      expect(init.stdout).toContain("post-quantum")
+      expect(init.stdout).toContain("age1pq1")
+
+      await run(["set", "DB_PASSWORD", "harvest-resistant"])
+      const { stdout } = await run(["get", "DB_PASSWORD"])
+      expect(stdout).toBe("harvest-resistant")
+
+      const doctor = await run(["doctor"])
+      expect(doctor.stdout).toContain("✓ Post-quantum: all 1 recipients use hybrid ML-KEM keys")
+   })
+
+   it("doctor flags classical-only recipients and mixed sets still re-encrypt", async () => {
+      await run(["init", "--pq"])
+      await run(["set", "DB_PASSWORD", "mixed-value"])
+
+      const classical = await getPublicKey(await generateIdentity())
+      const trust = await run(["trust", classical])
+      expect(trust.stdout).toContain("Re-encrypted 1 secret")
+
+      const { stdout } = await run(["get", "DB_PASSWORD"])
+      expect(stdout).toBe("mixed-value")
+
+      const doctor = await run(["doctor"])
+      expect(doctor.stdout).toContain("⚠ Post-quantum: 1/2 recipients are classical-only")
+   })
+})
@@ -153,4 +153,108 @@ describe("CLI Integration: trust / untrust", () => {
       expect(result.exitCode).toBe(1)
       expect(result.stderr).toContain("Missing public key argument")
    })
+
+   it("trust --label records the label and recipients list shows it", async () => {
+      await run(["init"])
+      const bobPubkey = await getPublicKey(await generateIdentity())
+
+      await run(["trust", bobPubkey, "--label", "bob@laptop"])
+      const content = fs.readFileSync(path.join(testDir, ".secenvs"), "utf-8")
+      expect(content).toContain(`${RECIPIENT_METADATA_KEY}=${bobPubkey} # bob@laptop`)
+
+      const { stdout } = await run(["recipients", "list"])
+      expect(stdout).toMatch(new RegExp(`bob@laptop\\s+${bobPubkey}`))
+   })
+
+   it("recipients rename relabels a key and untrust accepts the label", async () => {
+      await run(["init"])
+      await run(["set", "SECRET", "private"])
+      const bobPubkey = await getPublicKey(await generateIdentity())
+      await run(["trust", `bob:${bobPubkey}`])
+
+      await run(["recipients", "rename", "bob", "bob@desktop"])
+      expect(fs.readFileSync(path.join(testDir, ".secenvs"), "utf-8")).toContain(`${bobPubkey} # bob@desktop`)
+
+      const { stdout } = await run(["untrust", "bob@desktop"])
+      expect(stdout).toContain("Removed key")
+      expect(stdout).toContain("Re-encrypted 1 secret")
+      expect(fs.readFileSync(path.join(testDir, ".secenvs"), "utf-8")).not.toContain(
+         `${RECIPIENT_METADATA_KEY}=${bobPubkey}`
+      )
+   })
+
+   it("keeps labels when other recipients are added", async () => {
+      await run(["init"])
+      const bobPubkey = await getPublicKey(await generateIdentity())
+      const carolPubkey = await getPublicKey(await generateIdentity())
+
+      await run(["trust", bobPubkey, "--label", "bob"])
+      await run(["trust", carolPubkey])
+      expect(fs.readFileSync(path.join(testDir, ".secenvs"), "utf-8")).toContain(`${bobPubkey} # bob`)
+   })
+
+   it("refuses to encrypt to an injected recipient until the list is signed again", async () => {
+      await run(["init"])
+      const bobPubkey = await getPublicKey(await generateIdentity())
+      await run(["trust", bobPubkey, "--label", "bob"])
+      expect((await run(["doctor"])).stdout).toContain("Signature: recipient list signed by")
+
+      const attackerPubkey = await getPublicKey(await generateIdentity())
+      fs.appendFileSync(path.join(testDir, ".secenvs"), `${RECIPIENT_METADATA_KEY}=${attackerPubkey}\n`)
+
+      const blocked = await run(["set", "API_KEY", "value"]).catch((e) => e)
+      expect(blocked.exitCode).toBe(1)
+      expect(blocked.stderr).toContain("changed after it was signed")
+      expect((await run(["doctor"]).catch((e) => e)).stdout).toContain("✗ Signature")
+
+      const signed = await run(["recipients", "sign"])
+      expect(signed.stdout).toContain("Signed 3 recipients")
+      expect((await run(["set", "API_KEY", "value"])).stdout).toContain("3 recipients")
+      expect((await run(["log"])).stdout).toContain("SIGN_RECIPIENTS")
+   })
+
+   it("refuses a list replaced by one holding only an outsider's key, signed by that outsider", async () => {
+      await run(["init"])
+      await run(["trust", await getPublicKey(await generateIdentity()), "--label", "bob"])
+      await run(["set", "API_KEY", "value"])
+
+      const attackerHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-attacker-home-"))
+      try {
+         const attacker = await generateIdentity()
+         const attackerKeyDir = path.join(attackerHome, ".secenvs", "keys")
+         fs.mkdirSync(attackerKeyDir, { recursive: true, mode: 0o700 })
+         fs.writeFileSync(path.join(attackerKeyDir, "default.key"), attacker, { mode: 0o600 })
+         const envFile = path.join(testDir, ".secenvs")
+         const others = fs
+            .readFileSync(envFile, "utf-8")
+            .split("\n")
+            .filter(
+               (line) => !line.startsWith(`${RECIPIENT_METADATA_KEY}=`) && !line.startsWith("_SIGNATURE=")
+            )
+         fs.writeFileSync(
+            envFile,
+            [`${RECIPIENT_METADATA_KEY}=${await getPublicKey(attacker)}`, ...others].join("\n")
+         )
+         await run(["recipients", "sign"], { SECENV_HOME: attackerHome })
+      } finally {
+         fs.rmSync(attackerHome, { recursive: true, force: true })
+      }
+
+      const blocked = await run(["set", "NEW_SECRET", "topsecret"]).catch((e) => e)
+      expect(blocked.exitCode).toBe(1)
+      expect(blocked.stderr).toContain("has not signed a list on this machine before")
+      expect(fs.readFileSync(path.join(testDir, ".secenvs"), "utf-8")).not.toContain("NEW_SECRET")
+   })
+
+   it("set refuses a recipient list that does not hold your identity", async () => {
+      const { stdout } = await run(["init"])
+      const ownKey = stdout.match(/age1[a-z0-9]+/)![0]
+      await run(["trust", await getPublicKey(await generateIdentity()), "--label", "bob"])
+      await run(["untrust", ownKey])
+
+      const blocked = await run(["set", "API_KEY", "value"]).catch((e) => e)
+      expect(blocked.exitCode).toBe(1)
+      expect(blocked.stderr).toContain("is not in the recipient list")
+      expect(fs.readFileSync(path.join(testDir, ".secenvs"), "utf-8")).not.toContain("API_KEY")
+   })
 })
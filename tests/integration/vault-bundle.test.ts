@@ -0,0 +1,135 @@
+import { execa } from "execa"
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import { fileURLToPath } from "url"
+import { getPublicKey } from "../../src/age.js"
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const BIN_PATH = path.resolve(__dirname, "../../bin/secenvs.js")
+
+describe("CLI Integration: vault export and import", () => {
+   let testDir: string
+   let sourceHome: string
+   let targetHome: string
+
+   beforeEach(async () => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-bundle-cwd-"))
+      sourceHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-bundle-source-"))
+      targetHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-bundle-target-"))
+      await run(sourceHome, ["init"])
+      await run(sourceHome, ["vault", "set", "STRIPE_KEY", "sk_source"])
+      await run(sourceHome, ["vault", "set", "DEPLOY_TOKEN", "dt", "--name", "work"])
+   })
+
+   afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true })
+      fs.rmSync(sourceHome, { recursive: true, force: true })
+      fs.rmSync(targetHome, { recursive: true, force: true })
+   })
+
+   function run(home: string, args: string[], env: Record<string, string> = {}) {
+      return execa("node", [BIN_PATH, ...args], {
+         cwd: testDir,
+         env: { SECENV_HOME: home, ...env },
+         reject: false,
+      })
+   }
+
+   async function exportTo(target: string, extraArgs: string[] = [], env: Record<string, string> = {}) {
+      const result = await run(sourceHome, ["vault", "export", "--to", target, ...extraArgs], env)
+      expect(result.exitCode).toBe(0)
+      const bundlePath = path.join(testDir, "bundle.age")
+      fs.writeFileSync(bundlePath, result.stdout)
+      return bundlePath
+   }
+
+   it("moves every vault to another identity and refuses unresolved conflicts", async () => {
+      await run(targetHome, ["init"])
+      await run(targetHome, ["vault", "set", "STRIPE_KEY", "sk_target"])
+      const targetKey = await getPublicKey((await run(targetHome, ["key", "export"])).stdout.trim())
+      const bundlePath = await exportTo(targetKey)
+      expect(fs.readFileSync(bundlePath, "utf-8")).toContain("-----BEGIN AGE ENCRYPTED FILE-----")
+
+      const refused = await run(targetHome, ["vault", "import", bundlePath])
+      expect(refused.exitCode).toBe(1)
+      expect(refused.stderr).toContain("1 key(s) differ from the bundle: STRIPE_KEY")
+      expect((await run(targetHome, ["vault", "list", "--name", "work"])).stdout).toContain("No keys")
+
+      const kept = await run(targetHome, ["vault", "import", bundlePath, "--prefer-local"])
+      expect(kept.stdout).toContain("Imported global vault: 0 added, 0 replaced, 1 kept, 0 unchanged")
+      expect(kept.stdout).toContain("Imported vault 'work': 1 added")
+      expect((await run(targetHome, ["vault", "get", "STRIPE_KEY"])).stdout).toBe("sk_target")
+      expect((await run(targetHome, ["vault", "get", "DEPLOY_TOKEN", "--name", "work"])).stdout).toBe("dt")
+
+      await run(targetHome, ["vault", "import", bundlePath, "--prefer-incoming"])
+      expect((await run(targetHome, ["vault", "get", "STRIPE_KEY"])).stdout).toBe("sk_source")
+      const log = (await run(targetHome, ["log", "--global"])).stdout
+      expect(log).toContain("IMPORT_KEEP_LOCAL")
+      expect(log).toContain("IMPORT_REPLACE")
+   })
+
+   it("restores the vaults and the identity from a passphrase bundle on a new machine", async () => {
+      // The identity passphrase in the environment is never used for the bundle
+      const refused = await run(sourceHome, ["vault", "export", "--to", "passphrase"], {
+         SECENV_PASSPHRASE: "identity passphrase",
+      })
+      expect(refused.exitCode).toBe(1)
+      expect(refused.stderr).toContain("Set SECENV_BUNDLE_PASSPHRASE")
+
+      const passphrase = { SECENV_BUNDLE_PASSPHRASE: "correct horse" }
+      const bundlePath = await exportTo("passphrase", ["--include-identity"], passphrase)
+
+      const wrong = await run(targetHome, ["vault", "import", bundlePath], {
+         SECENV_BUNDLE_PASSPHRASE: "wrong",
+         SECENV_PASSPHRASE: "correct horse",
+      })
+      expect(wrong.exitCode).toBe(1)
+      expect(wrong.stderr).toContain("incorrect passphrase")
+
+      // A refused import installs nothing
+      const missing = await run(targetHome, ["vault", "import", bundlePath, "--name", "none"], passphrase)
+      expect(missing.exitCode).toBe(1)
+      expect(fs.existsSync(path.join(targetHome, ".secenvs", "keys", "default.key"))).toBe(false)
+
+      const imported = await run(targetHome, ["vault", "import", bundlePath], passphrase)
+      expect(imported.exitCode).toBe(0)
+      expect(imported.stdout).toContain("Installed identity 'default' from the bundle")
+      expect(imported.stdout).toContain("default.key is stored unencrypted")
+      expect((await run(targetHome, ["key", "export"])).stdout).toBe(
+         (await run(sourceHome, ["key", "export"])).stdout
+      )
+      expect((await run(targetHome, ["vault", "get", "STRIPE_KEY"])).stdout).toBe("sk_source")
+   })
+
+   it("protects the restored identity with a passphrase on import --passphrase", async () => {
+      const bundlePath = await exportTo("passphrase", ["--include-identity"], {
+         SECENV_BUNDLE_PASSPHRASE: "pw",
+      })
+      const env = { SECENV_BUNDLE_PASSPHRASE: "pw", SECENV_PASSPHRASE: "identity pw" }
+
+      const imported = await run(targetHome, ["vault", "import", bundlePath, "--passphrase"], env)
+      expect(imported.exitCode).toBe(0)
+      expect(imported.stdout).toContain("Installed identity 'default' from the bundle (passphrase-protected)")
+      expect(imported.stdout).not.toContain("unencrypted")
+      expect(fs.readFileSync(path.join(targetHome, ".secenvs", "keys", "default.key"), "utf-8")).toContain(
+         "-----BEGIN AGE ENCRYPTED FILE-----"
+      )
+      expect((await run(targetHome, ["vault", "get", "STRIPE_KEY"], env)).stdout).toBe("sk_source")
+   })
+
+   it("exports a single vault with --name", async () => {
+      const bundlePath = await exportTo("passphrase", ["--name", "work"], { SECENV_BUNDLE_PASSPHRASE: "pw" })
+      await run(targetHome, ["init"])
+
+      const imported = await run(targetHome, ["vault", "import", bundlePath], {
+         SECENV_BUNDLE_PASSPHRASE: "pw",
+      })
+      expect(imported.stdout).toContain("Imported vault 'work': 1 added")
+      expect(imported.stdout).not.toContain("global vault")
+      expect(
+         (await run(sourceHome, ["vault", "export", "--to", "passphrase", "--name", "none"])).stderr
+      ).toContain("There is no vault 'none' to export.")
+   })
+})
@@ -118,4 +118,132 @@ describe("Vault Integration Tests", () => {
       const keys = await listVaultKeys()
       expect(keys).not.toContain("TEMP_KEY")
    })
+
+   it("should resolve vault:<name>/KEY references to named vaults", async () => {
+      await vaultSet("STRIPE_KEY", "sk_work", "work")
+      await vaultSet("OPENAI_KEY", "sk_personal", "personal")
+      fs.writeFileSync(
+         ".secenvs",
+         "STRIPE_KEY=vault:work/STRIPE_KEY\nOPENAI_KEY=vault:personal/OPENAI_KEY\nMISSING=vault:work/NOPE\n"
+      )
+
+      const sdk = createSecenv()
+      expect(await sdk.get("STRIPE_KEY")).toBe("sk_work")
+      expect(await sdk.get("OPENAI_KEY")).toBe("sk_personal")
+      await expect(sdk.get("MISSING")).rejects.toThrow(/not found in vault 'work'/)
+   })
+
+   it("should select a named vault with --name and list every vault", async () => {
+      const run = (args: string[]) =>
+         execa("node", [BIN_PATH, "vault", ...args], { env: { SECENV_HOME: testHome }, reject: false })
+
+      await run(["set", "STRIPE_KEY", "sk_work", "--name", "work"])
+      await run(["--name", "personal", "set", "OPENAI_KEY", "sk_personal"])
+      await run(["set", "SHARED", "x"])
+
+      expect((await run(["get", "STRIPE_KEY", "--name", "work"])).stdout).toBe("sk_work")
+      expect((await run(["get", "STRIPE_KEY"])).exitCode).toBe(1)
+
+      const list = await run(["list"])
+      expect(list.stdout).toContain("Found 1 keys in global vault")
+      expect(list.stdout).toContain("Found 1 keys in vault 'personal'")
+      expect(list.stdout).toContain("Found 1 keys in vault 'work'")
+
+      const scoped = await run(["list", "--name", "work"])
+      expect(scoped.stdout).toContain("STRIPE_KEY")
+      expect(scoped.stdout).not.toContain("SHARED")
+
+      expect((await run(["list", "--name", "Bad/Name"])).stderr).toContain("Invalid vault name")
+   })
+
+   it("should list and restore earlier versions via CLI while references read the current one", async () => {
+      const run = (args: string[]) =>
+         execa("node", [BIN_PATH, "vault", ...args], { env: { SECENV_HOME: testHome }, reject: false })
+
+      await run(["set", "STRIPE_KEY", "sk_live_1"])
+      await run(["set", "STRIPE_KEY", "oops"])
+      fs.writeFileSync(".secenvs", "STRIPE_KEY=vault:STRIPE_KEY\n")
+      expect(await createSecenv().get("STRIPE_KEY")).toBe("oops")
+
+      const history = await run(["history", "STRIPE_KEY"])
+      expect(history.stdout).toContain("2 versions of STRIPE_KEY in global vault")
+      expect(history.stdout).toMatch(/2 {2}\d{4}-\d{2}-\d{2}T\S+ {2}current/)
+      expect(history.stdout).not.toContain("sk_live_1")
+
+      const restore = await run(["restore", "STRIPE_KEY", "--version", "1"])
+      expect(restore.stdout).toContain("Restored version 1 of STRIPE_KEY in global vault (now version 3)")
+      clearVaultCache()
+      expect(await createSecenv().get("STRIPE_KEY")).toBe("sk_live_1")
+
+      expect((await run(["restore", "STRIPE_KEY"])).stderr).toContain("Usage: secenvs vault restore")
+      const audit = fs.readFileSync(path.join(testHome, ".secenvs", "vault.age.audit"), "utf-8")
+      expect(audit).toContain("|RESTORE|STRIPE_KEY|")
+   })
+
+   it("should track which projects reference a vault key", async () => {
+      const run = (args: string[]) =>
+         execa("node", [BIN_PATH, ...args], { env: { SECENV_HOME: testHome }, reject: false })
+
+      await vaultSet("STRIPE_KEY", "sk_live")
+      fs.writeFileSync(".secenvs", "STRIPE=vault:STRIPE_KEY\nOPENAI=vault:personal/OPENAI_KEY\n")
+      expect((await run(["vault", "usages", "STRIPE_KEY"])).stdout).toContain("No known project references")
+
+      // Resolving through the SDK records the usage
+      expect(await createSecenv().get("STRIPE")).toBe("sk_live")
+      const usages = await run(["vault", "usages", "STRIPE_KEY"])
+      expect(usages.stdout).toContain("referenced by 1 project key(s)")
+      expect(usages.stdout).toContain(`${fs.realpathSync(testDir)}/.secenvs  STRIPE`)
+
+      const doctor = await run(["doctor"])
+      expect(doctor.stdout).toContain("⚠ Vault references: OPENAI -> vault:personal/OPENAI_KEY not found")
+
+      // A key that is still referenced is only deleted after confirming, or with --force
+      const refused = await execa("node", [BIN_PATH, "vault", "delete", "STRIPE_KEY"], {
+         env: { SECENV_HOME: testHome },
+         input: "n\n",
+         reject: false,
+      })
+      expect(refused.exitCode).toBe(1)
+      expect(refused.stdout).toContain("STRIPE_KEY is still referenced by 1 project key(s)")
+      expect(refused.stderr).toContain("Pass --force to delete it anyway")
+      expect((await run(["vault", "get", "STRIPE_KEY"])).stdout).toBe("sk_live")
+
+      const deleted = await run(["vault", "delete", "STRIPE_KEY", "--force"])
+      expect(deleted.stdout).toContain("Deleted STRIPE_KEY from global vault")
+   })
+
+   it("should store a vault reference even if the registry cannot be written", async () => {
+      fs.writeFileSync(".secenvs", "")
+      fs.mkdirSync(path.join(testHome, ".secenvs", "projects.json"), { recursive: true })
+
+      const set = await execa("node", [BIN_PATH, "set", "STRIPE", "vault:STRIPE_KEY"], {
+         env: { SECENV_HOME: testHome },
+         reject: false,
+      })
+      expect(set.exitCode).toBe(0)
+      expect(fs.readFileSync(".secenvs", "utf-8")).toContain("STRIPE=")
+   })
+
+   it("should share a vault with vault trust and log the change", async () => {
+      const teammate = "age1ql3z7hjy54pw3hyww5ayyfg7zqgvc7w3j2elw8zmrj2kg5sfn9aqmcac8p"
+      const run = (args: string[]) =>
+         execa("node", [BIN_PATH, "vault", ...args], { env: { SECENV_HOME: testHome }, reject: false })
+
+      await run(["set", "STRIPE_KEY", "sk_team", "--name", "team"])
+      const trust = await run(["trust", teammate, "--name", "team"])
+      expect(trust.exitCode).toBe(0)
+      expect(trust.stdout).toContain("Re-encrypted vault 'team' to 2 recipients")
+      expect((await run(["list"])).stdout).toContain("in vault 'team' (shared with 2 recipients)")
+      const recipients = await run(["recipients", "--name", "team"])
+      expect(recipients.stdout).toContain(`  ${teammate}`)
+      expect(recipients.stdout).toMatch(/Signed by age1/)
+
+      const untrust = await run(["untrust", teammate, "--name", "team"])
+      expect(untrust.stdout).toContain("1 remaining recipients")
+      expect((await run(["get", "STRIPE_KEY", "--name", "team"])).stdout).toBe("sk_team")
+
+      const audit = fs.readFileSync(path.join(testHome, ".secenvs", "vaults", "team.age.audit"), "utf-8")
+      expect(audit).toContain(`|TRUST|${teammate}|`)
+      expect(audit).toContain(`|UNTRUST|${teammate}|`)
+   })
 })
@@ -0,0 +1,133 @@
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import {
+   generateIdentity,
+   saveIdentity,
+   saveRecipients,
+   getPublicKey,
+   encrypt,
+   decrypt,
+   RECIPIENT_METADATA_KEY,
+} from "../../src/age.js"
+import {
+   loadGroups,
+   loadKeyAccess,
+   saveGroups,
+   setKeyAccess,
+   groupRecipients,
+   resolveKeyRecipients,
+   GROUP_METADATA_KEY,
+   ACCESS_METADATA_KEY,
+   PENDING_METADATA_KEY,
+   loadPendingRequests,
+   savePendingRequests,
+} from "../../src/access.js"
+import { RecipientError, ValidationError } from "../../src/errors.js"
+
+describe("Recipient groups and per-key access", () => {
+   let testHome: string
+   let projectDir: string
+   let envFile: string
+   const originalEnvHome = process.env.SECENV_HOME
+
+   let alice: string
+   let contractor: string
+   let aliceKey: string
+   let contractorKey: string
+
+   beforeEach(async () => {
+      testHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-access-test-"))
+      projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-access-project-"))
+      envFile = path.join(projectDir, ".secenvs")
+      process.env.SECENV_HOME = testHome
+
+      alice = await generateIdentity()
+      contractor = await generateIdentity()
+      aliceKey = await getPublicKey(alice)
+      contractorKey = await getPublicKey(contractor)
+      await saveIdentity(alice)
+      fs.writeFileSync(
+         envFile,
+         `${RECIPIENT_METADATA_KEY}=${aliceKey} # alice\n${RECIPIENT_METADATA_KEY}=${contractorKey}\n` +
+            `${GROUP_METADATA_KEY}=backend:${aliceKey} # alice\n` +
+            `${ACCESS_METADATA_KEY}=STRIPE_LIVE_KEY:backend\n`
+      )
+      await saveRecipients(projectDir, [aliceKey, contractorKey])
+   })
+
+   afterEach(() => {
+      fs.rmSync(testHome, { recursive: true, force: true })
+      fs.rmSync(projectDir, { recursive: true, force: true })
+      process.env.SECENV_HOME = originalEnvHome
+   })
+
+   it("reads groups with labels and per-key access declarations", () => {
+      expect(loadGroups(projectDir)).toEqual(new Map([["backend", [{ key: aliceKey, label: "alice" }]]]))
+      expect(loadKeyAccess(projectDir)).toEqual(new Map([["STRIPE_LIVE_KEY", ["backend"]]]))
+   })
+
+   it("resolves scoped keys to group members and others to all recipients", async () => {
+      expect(await resolveKeyRecipients(projectDir, "STRIPE_LIVE_KEY")).toEqual([aliceKey])
+      expect(await resolveKeyRecipients(projectDir, "PORT")).toEqual([aliceKey, contractorKey])
+
+      const ciphertext = await encrypt(await resolveKeyRecipients(projectDir, "STRIPE_LIVE_KEY"), "sk_live")
+      expect((await decrypt(alice, ciphertext)).toString()).toBe("sk_live")
+      await expect(decrypt(contractor, ciphertext)).rejects.toThrow()
+   })
+
+   it("rejects unknown or empty groups", () => {
+      const recipients = [aliceKey, contractorKey]
+      expect(() => groupRecipients(loadGroups(projectDir), ["frontend"], recipients)).toThrow(RecipientError)
+      expect(() => groupRecipients(new Map([["backend", []]]), ["backend"], recipients)).toThrow(
+         RecipientError
+      )
+   })
+
+   it("refuses group members that are not in the signed recipient list", async () => {
+      const attacker = await getPublicKey(await generateIdentity())
+      fs.appendFileSync(envFile, `${GROUP_METADATA_KEY}=backend:${attacker}\n`)
+
+      await expect(resolveKeyRecipients(projectDir, "STRIPE_LIVE_KEY")).rejects.toThrow(
+         "not in the signed recipient list"
+      )
+      expect(await resolveKeyRecipients(projectDir, "PORT")).toEqual([aliceKey, contractorKey])
+   })
+
+   it("rewrites group and access lines in place", async () => {
+      const groups = loadGroups(projectDir)
+      groups.set("frontend", [{ key: contractorKey }])
+      await saveGroups(projectDir, groups)
+      await setKeyAccess(projectDir, "PORT", ["frontend", "backend"])
+      await setKeyAccess(projectDir, "STRIPE_LIVE_KEY", null)
+
+      const content = fs.readFileSync(envFile, "utf-8")
+      expect(content).toContain(`${GROUP_METADATA_KEY}=frontend:${contractorKey}`)
+      expect(content).toContain(`${ACCESS_METADATA_KEY}=PORT:frontend,backend`)
+      expect(content).not.toContain("STRIPE_LIVE_KEY")
+      expect(await resolveKeyRecipients(projectDir, "PORT")).toEqual([contractorKey, aliceKey])
+   })
+
+   it("validates group names", async () => {
+      await expect(setKeyAccess(projectDir, "PORT", ["Back End"])).rejects.toThrow(ValidationError)
+   })
+
+   it("round-trips pending access requests below the recipient header", async () => {
+      fs.appendFileSync(envFile, "\nPORT=3000\n")
+      const request = { key: contractorKey, label: "new-hire", requestedAt: "2026-01-02T03:04:05.000Z" }
+      await savePendingRequests(projectDir, [request])
+
+      const content = fs.readFileSync(envFile, "utf-8")
+      expect(content).toContain(`${PENDING_METADATA_KEY}=2026-01-02T03:04:05.000Z|new-hire|${contractorKey}`)
+      expect(content.indexOf(PENDING_METADATA_KEY)).toBeLessThan(content.indexOf("PORT=3000"))
+      expect(loadPendingRequests(projectDir)).toEqual([request])
+
+      await savePendingRequests(projectDir, [])
+      expect(fs.readFileSync(envFile, "utf-8")).not.toContain(PENDING_METADATA_KEY)
+   })
+
+   it("rejects malformed pending requests", () => {
+      fs.appendFileSync(envFile, `${PENDING_METADATA_KEY}=not-a-request\n`)
+      expect(() => loadPendingRequests(projectDir)).toThrow(RecipientError)
+   })
+})
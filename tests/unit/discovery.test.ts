@@ -0,0 +1,75 @@
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import { fileURLToPath } from "url"
+import { resolveProjectDir, getEnvPath, getEnvPaths } from "../../src/parse.js"
+import { ValidationError } from "../../src/errors.js"
+
+const __filename = fileURLToPath(import.meta.url)
+const PROJECT_ROOT = path.resolve(path.dirname(__filename), "../..")
+
+describe(".secenvs discovery", () => {
+   let repo: string
+   let pkg: string
+
+   beforeEach(() => {
+      repo = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "secenv-discovery-")))
+      pkg = path.join(repo, "packages", "api")
+      fs.mkdirSync(path.join(repo, ".git"))
+      fs.mkdirSync(pkg, { recursive: true })
+      fs.writeFileSync(path.join(repo, ".secenvs"), "PORT=3000\n")
+      process.chdir(pkg)
+   })
+
+   afterEach(() => {
+      process.chdir(PROJECT_ROOT)
+      fs.rmSync(repo, { recursive: true, force: true })
+      delete process.env.SECENV_FILE
+      delete process.env.SECENV_ENV
+   })
+
+   it("walks up to the nearest .secenvs below the git root", () => {
+      expect(resolveProjectDir()).toEqual({
+         dir: repo,
+         reason: `found in ${repo}, above the current directory`,
+      })
+      expect(getEnvPath()).toBe(path.join(repo, ".secenvs"))
+
+      fs.writeFileSync(path.join(pkg, ".secenvs"), "PORT=4000\n")
+      expect(resolveProjectDir()).toEqual({ dir: pkg, reason: "found in the current directory" })
+   })
+
+   it("finds a directory that only has the active environment's file", () => {
+      fs.rmSync(path.join(repo, ".secenvs"))
+      fs.writeFileSync(path.join(repo, "packages", ".secenvs.staging"), "PORT=5000\n")
+      process.env.SECENV_ENV = "staging"
+
+      expect(getEnvPaths()).toEqual([
+         path.join(repo, "packages", ".secenvs.staging"),
+         path.join(repo, "packages", ".secenvs"),
+      ])
+   })
+
+   it("stops at the git root and ignores .secenvs directories", () => {
+      fs.rmSync(path.join(repo, ".secenvs"))
+      fs.mkdirSync(path.join(repo, "packages", ".secenvs"))
+
+      const { dir, reason } = resolveProjectDir()
+      expect(dir).toBe(pkg)
+      expect(reason).toContain(`none found up to the git root ${repo}`)
+   })
+
+   it("only looks in the current directory outside a git repository", () => {
+      fs.rmSync(path.join(repo, ".git"), { recursive: true })
+
+      expect(resolveProjectDir().dir).toBe(pkg)
+   })
+
+   it("uses SECENV_FILE when it is set", () => {
+      process.env.SECENV_FILE = "../../.secenvs"
+      expect(resolveProjectDir()).toEqual({ dir: repo, reason: "set by SECENV_FILE (or --file)" })
+
+      process.env.SECENV_FILE = path.join(repo, "secrets.env")
+      expect(() => resolveProjectDir()).toThrow(ValidationError)
+   })
+})
@@ -122,6 +122,19 @@ describe("Dotenv Parser", () => {
       expect(parsed[0].value).toBe("hello\nworld")
    })
 
+   it("should read a quoted value that spans several lines", () => {
+      fs.writeFileSync(
+         tempFile,
+         "KEY=\"-----BEGIN KEY-----\nabc # not a comment\n-----END KEY-----\"\nNEXT=1\nSINGLE='a\nb'\n"
+      )
+      const parsed = parseDotenvFallback(tempFile)
+
+      expect(parsed.map((line) => line.key)).toEqual(["KEY", "NEXT", "SINGLE"])
+      expect(parsed[0].value).toBe("-----BEGIN KEY-----\nabc # not a comment\n-----END KEY-----")
+      expect(parsed[2].value).toBe("a\nb")
+      expect(parsed[2].lineNumber).toBe(5)
+   })
+
    it("should handle double-quoted value with escaped quote", () => {
       fs.writeFileSync(tempFile, 'FOO="say \\"hello\\""\n')
       const parsed = parseDotenvFallback(tempFile)
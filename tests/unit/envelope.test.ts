@@ -0,0 +1,56 @@
+import { sealValue, openValue, openEnvelope, isSealedValue } from "../../src/envelope.js"
+import { DecryptionError } from "../../src/errors.js"
+
+describe("Key binding envelope", () => {
+   it("round-trips a value sealed for a key", () => {
+      const sealed = sealValue("API_KEY", null, "sk_live_123")
+
+      expect(isSealedValue(sealed)).toBe(true)
+      expect(openValue("API_KEY", null, sealed).toString()).toBe("sk_live_123")
+   })
+
+   it("round-trips binary values and values containing newlines", () => {
+      const binary = Buffer.from([0, 10, 255, 10, 1])
+      expect(openValue("BLOB", "staging", sealValue("BLOB", "staging", binary))).toEqual(binary)
+      expect(openValue("PEM", null, sealValue("PEM", null, "line1\nline2\n")).toString()).toBe(
+         "line1\nline2\n"
+      )
+   })
+
+   it("marks values sealed as binary", () => {
+      const keystore = Buffer.from([0xff, 0xfe, 0x00, 0x80])
+      const sealed = sealValue("KEYSTORE", null, keystore, { binary: true })
+
+      expect(isSealedValue(sealed)).toBe(true)
+      expect(openEnvelope("KEYSTORE", null, sealed)).toEqual({ value: keystore, binary: true })
+      expect(openEnvelope("API_KEY", null, sealValue("API_KEY", null, "text")).binary).toBe(false)
+      expect(() => openEnvelope("OTHER", null, sealed)).toThrow(/encrypted for KEYSTORE/)
+   })
+
+   it("rejects a value sealed for another key", () => {
+      const sealed = sealValue("DB_PASSWORD", null, "hunter2")
+
+      expect(() => openValue("PUBLIC_FLAG", null, sealed)).toThrow(DecryptionError)
+      expect(() => openValue("PUBLIC_FLAG", null, sealed)).toThrow(/encrypted for DB_PASSWORD/)
+   })
+
+   it("rejects a value sealed for another environment", () => {
+      const sealed = sealValue("API_KEY", "staging", "staging-key")
+
+      expect(() => openValue("API_KEY", "production", sealed)).toThrow(/API_KEY in 'staging'/)
+      expect(() => openValue("API_KEY", null, sealed)).toThrow(DecryptionError)
+   })
+
+   it("passes legacy unsealed values through unchanged", () => {
+      const legacy = Buffer.from("plain-old-value")
+
+      expect(isSealedValue(legacy)).toBe(false)
+      expect(openValue("ANY_KEY", "production", legacy)).toBe(legacy)
+   })
+
+   it("rejects a truncated envelope", () => {
+      expect(() => openValue("API_KEY", null, Buffer.from("secenvs-bound-v1\nAPI_KEY"))).toThrow(
+         /malformed key binding/
+      )
+   })
+})
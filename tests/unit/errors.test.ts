@@ -10,6 +10,7 @@ import {
    VaultError,
    RecipientError,
    SchemaValidationError,
+   IntegrityError,
    SECENV_ERROR_CODES,
 } from "../../src/errors.js"
 
@@ -25,6 +26,7 @@ describe("Error Classes (errors.ts)", () => {
       expect(SECENV_ERROR_CODES.RECIPIENT_ERROR).toBe("RECIPIENT_ERROR")
       expect(SECENV_ERROR_CODES.VAULT_ERROR).toBe("VAULT_ERROR")
       expect(SECENV_ERROR_CODES.SCHEMA_VALIDATION_ERROR).toBe("SCHEMA_VALIDATION_ERROR")
+      expect(SECENV_ERROR_CODES.INTEGRITY_ERROR).toBe("INTEGRITY_ERROR")
    })
 
    it("IdentityNotFoundError should have correct code and message", () => {
@@ -108,6 +110,13 @@ describe("Error Classes (errors.ts)", () => {
       expect(error).toBeInstanceOf(SecenvError)
    })
 
+   it("IntegrityError should have correct code and message", () => {
+      const error = new IntegrityError(".secenvs does not match its _MAC")
+      expect(error.code).toBe(SECENV_ERROR_CODES.INTEGRITY_ERROR)
+      expect(error.message).toBe(".secenvs does not match its _MAC")
+      expect(error).toBeInstanceOf(SecenvError)
+   })
+
    it("SchemaValidationError should have correct code, message, and issues", () => {
       const issues = [{ path: ["API_KEY"], message: "Required" }]
       const error = new SchemaValidationError("Schema validation failed", issues)
@@ -133,6 +142,7 @@ describe("Error Classes (errors.ts)", () => {
          new SecretNotFoundError("K"),
          new FileError("v"),
          new EncryptionError("v"),
+         new IntegrityError("v"),
       ]
       for (const err of errors) {
          expect(err).toBeInstanceOf(SecenvError)
@@ -0,0 +1,181 @@
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import * as crypto from "crypto"
+import {
+   generateIdentity,
+   saveIdentity,
+   saveRecipients,
+   getPublicKey,
+   createMacUpdater,
+   refreshFileMac,
+   readFileMac,
+   verifyFileMac,
+   rememberFileMacSigner,
+   MAC_METADATA_KEY,
+} from "../../src/age.js"
+import { setKey, deleteKey } from "../../src/parse.js"
+import { savePendingRequests } from "../../src/access.js"
+import { appendAuditLog } from "../../src/audit.js"
+import { IntegrityError } from "../../src/errors.js"
+import {
+   deriveSigningKey,
+   signFileDigest,
+   signRecipientList,
+   formatRecipientSignature,
+} from "../../src/signing.js"
+
+describe("Whole-file _MAC", () => {
+   let testHome: string
+   let projectDir: string
+   let envFile: string
+   const originalEnvHome = process.env.SECENV_HOME
+
+   let alice: string
+   let aliceKey: string
+
+   beforeEach(async () => {
+      testHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-mac-test-"))
+      projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-mac-project-"))
+      envFile = path.join(projectDir, ".secenvs")
+      process.env.SECENV_HOME = testHome
+
+      alice = await generateIdentity()
+      aliceKey = await getPublicKey(alice)
+      await saveIdentity(alice)
+      await saveRecipients(projectDir, [aliceKey])
+      await setKey(envFile, "API_KEY", "enc:age:first", { updateMac: await createMacUpdater(envFile) })
+      await setKey(envFile, "DB_URL", "enc:age:second", { updateMac: await createMacUpdater(envFile) })
+   })
+
+   afterEach(() => {
+      fs.rmSync(testHome, { recursive: true, force: true })
+      fs.rmSync(projectDir, { recursive: true, force: true })
+      process.env.SECENV_HOME = originalEnvHome
+   })
+
+   const edit = (from: string, to: string) =>
+      fs.writeFileSync(envFile, fs.readFileSync(envFile, "utf-8").replace(from, to))
+
+   it("is written by setKey, deleteKey and saveRecipients and verifies", async () => {
+      expect(fs.readFileSync(envFile, "utf-8").match(/^_MAC=/gm)).toHaveLength(1)
+      expect(verifyFileMac(envFile)?.signer).toBe(aliceKey)
+
+      await deleteKey(envFile, "DB_URL", { updateMac: await createMacUpdater(envFile) })
+      expect(verifyFileMac(envFile)?.signer).toBe(aliceKey)
+   })
+
+   it("detects a deleted key", () => {
+      edit("DB_URL=enc:age:second\n", "")
+      expect(() => verifyFileMac(envFile)).toThrow(IntegrityError)
+   })
+
+   it("detects a value reverted to an older ciphertext", () => {
+      edit("API_KEY=enc:age:first", "API_KEY=enc:age:older")
+      expect(() => verifyFileMac(envFile)).toThrow(/does not match its _MAC/)
+   })
+
+   it("ignores line order, comments, audit entries and access requests", async () => {
+      const content = fs.readFileSync(envFile, "utf-8").split("\n").filter(Boolean).reverse()
+      fs.writeFileSync(envFile, `# shared config\n${content.join("\n")}\n`)
+      await appendAuditLog("SET", "API_KEY", envFile)
+      await savePendingRequests(projectDir, [
+         { key: await getPublicKey(await generateIdentity()), requestedAt: "2026-01-01T00:00:00.000Z" },
+      ])
+
+      expect(verifyFileMac(envFile)?.signer).toBe(aliceKey)
+   })
+
+   it("rejects a _MAC made by someone who is not a recipient", async () => {
+      const mallory = await generateIdentity()
+      edit("API_KEY=enc:age:first", "API_KEY=enc:age:malicious")
+      const before = fs.readFileSync(envFile, "utf-8")
+
+      // Mallory's updater leaves the file alone, and a _MAC she signs by hand does not verify
+      const updateMac = await createMacUpdater(envFile, { identity: mallory })
+      expect(updateMac(before)).toBe(before)
+
+      const lines = before.split("\n").filter((line) => line.includes("=") && !line.startsWith("_MAC="))
+      const digest = crypto.createHash("sha256").update(lines.sort().join("\n")).digest("hex")
+      const forged = signFileDigest(deriveSigningKey(mallory), await getPublicKey(mallory), null, digest)
+      fs.writeFileSync(envFile, before.replace(/^_MAC=.*$/m, `_MAC=${formatRecipientSignature(forged)}`))
+      expect(() => verifyFileMac(envFile)).toThrow(/not one of its recipients/)
+   })
+
+   const signAs = async (identity: string, content: string, signer?: string) => {
+      const lines = content.split("\n").filter((line) => line.includes("=") && !line.startsWith("_MAC="))
+      const digest = crypto.createHash("sha256").update(lines.sort().join("\n")).digest("hex")
+      const mac = signFileDigest(
+         deriveSigningKey(identity),
+         signer ?? (await getPublicKey(identity)),
+         null,
+         digest
+      )
+      return content.replace(/^_MAC=.*$/m, `_MAC=${formatRecipientSignature(mac)}`)
+   }
+
+   it("rejects a _MAC from a recipient line the attacker added themselves", async () => {
+      const mallory = await generateIdentity()
+      const before = fs
+         .readFileSync(envFile, "utf-8")
+         .replace("API_KEY=enc:age:first", "API_KEY=enc:age:malicious")
+         .replace(/^(_RECIPIENT=.*)$/m, `$1\n_RECIPIENT=${await getPublicKey(mallory)}`)
+      fs.writeFileSync(envFile, await signAs(mallory, before))
+
+      expect(() => verifyFileMac(envFile)).toThrow(IntegrityError)
+      expect(() => verifyFileMac(envFile)).toThrow(/changed after it was signed/)
+   })
+
+   it("only trusts a recipient's signing key once it is pinned", async () => {
+      const bob = await generateIdentity()
+      await saveRecipients(projectDir, [aliceKey, await getPublicKey(bob)])
+
+      // Anyone can claim to be Bob while this machine has not seen his signing key
+      const mallory = await generateIdentity()
+      fs.writeFileSync(
+         envFile,
+         await signAs(mallory, fs.readFileSync(envFile, "utf-8"), await getPublicKey(bob))
+      )
+      expect(() => verifyFileMac(envFile)).toThrow(/has not seen before/)
+
+      // Until someone reviews the file with `secenvs recipients sign`, which pins Bob's key
+      fs.writeFileSync(envFile, await signAs(bob, fs.readFileSync(envFile, "utf-8")))
+      expect(() => verifyFileMac(envFile)).toThrow(/has not seen before/)
+      expect(rememberFileMacSigner(envFile)).toBe(true)
+      expect(verifyFileMac(envFile)?.signer).toBe(await getPublicKey(bob))
+   })
+
+   it("rejects a file whose recipient list and _MAC were both rewritten by an outsider", async () => {
+      const mallory = await generateIdentity()
+      const malloryKey = await getPublicKey(mallory)
+      const list = signRecipientList(deriveSigningKey(mallory), malloryKey, [malloryKey])
+      const others = fs
+         .readFileSync(envFile, "utf-8")
+         .split("\n")
+         .filter((line) => !/^(_RECIPIENT|_SIGNATURE|DB_URL)=/.test(line))
+      const rewritten = [
+         `_RECIPIENT=${malloryKey}`,
+         `_SIGNATURE=${formatRecipientSignature(list)}`,
+         ...others,
+      ].join("\n")
+      fs.writeFileSync(envFile, await signAs(mallory, rewritten))
+
+      expect(() => verifyFileMac(envFile)).toThrow(IntegrityError)
+      expect(() => verifyFileMac(envFile)).toThrow(/cannot be verified/)
+   })
+
+   it("returns null without a _MAC and re-signs with refreshFileMac", async () => {
+      edit(`${MAC_METADATA_KEY}=`, "#")
+      expect(readFileMac(envFile)).toBeNull()
+      expect(verifyFileMac(envFile)).toBeNull()
+
+      await refreshFileMac(envFile)
+      expect(verifyFileMac(envFile)?.signer).toBe(aliceKey)
+   })
+
+   it("refuses more than one _MAC line", () => {
+      const mac = fs.readFileSync(envFile, "utf-8").match(/^_MAC=.*$/m)![0]
+      fs.appendFileSync(envFile, `${mac}\n`)
+      expect(() => readFileMac(envFile)).toThrow(/more than one _MAC line/)
+   })
+})
@@ -0,0 +1,89 @@
+import { formatEnvContent } from "../../src/format.js"
+
+describe("formatEnvContent", () => {
+   it("orders header metadata, keys and the audit log", () => {
+      const content = [
+         "PORT=3000",
+         "_AUDIT=h1|t|SET|PORT|age1a",
+         "_RECIPIENT=age1b",
+         "_RECIPIENT=age1a",
+         "_SIGNATURE=age1a|sig",
+         "_MAC=age1a|mac",
+         "DB_PASS=enc:age:p",
+         "_AUDIT=h2|t|SET|DB_PASS|age1a",
+         "_ACCESS=DB_PASS:backend",
+         "_GROUP=backend:age1a",
+         "_INCLUDE=../shared/.secenvs",
+         "API_KEY=k",
+         "DB_HOST=db",
+         "_AUDIT=h3|t|SET|DB_HOST|age1a",
+         "",
+      ].join("\n")
+
+      expect(formatEnvContent(content)).toBe(
+         [
+            "_INCLUDE=../shared/.secenvs",
+            "_RECIPIENT=age1b",
+            "_RECIPIENT=age1a",
+            "_SIGNATURE=age1a|sig",
+            "_MAC=age1a|mac",
+            "_GROUP=backend:age1a",
+            "_ACCESS=DB_PASS:backend",
+            "",
+            "API_KEY=k",
+            "",
+            "DB_HOST=db",
+            "DB_PASS=enc:age:p",
+            "",
+            "PORT=3000",
+            "",
+            "_AUDIT=h1|t|SET|PORT|age1a",
+            "_AUDIT=h2|t|SET|DB_PASS|age1a",
+            "_AUDIT=h3|t|SET|DB_HOST|age1a",
+            "",
+         ].join("\n")
+      )
+   })
+
+   it("moves the comments above a key with it and keeps the file's header comment on top", () => {
+      const content = [
+         "# Service configuration",
+         "",
+         "# @owner payments-team",
+         "STRIPE_KEY=sk",
+         "",
+         "",
+         "# Local only",
+         "",
+         "# @description HTTP port",
+         "PORT=3000",
+         "API_URL=http://localhost",
+         "# end of file",
+      ].join("\n")
+
+      expect(formatEnvContent(content)).toBe(
+         [
+            "# Service configuration",
+            "",
+            "API_URL=http://localhost",
+            "# Local only",
+            "",
+            "# @description HTTP port",
+            "PORT=3000",
+            "# @owner payments-team",
+            "STRIPE_KEY=sk",
+            "",
+            "# end of file",
+            "",
+         ].join("\n")
+      )
+   })
+
+   it("is idempotent", () => {
+      const content = "# top\n\nZ=1\n_RECIPIENT=age1a\n# note\nA_B=2\nA_C=3\n_AUDIT=h|t|SET|Z|age1a\n# tail\n"
+      const formatted = formatEnvContent(content)
+
+      expect(formatEnvContent(formatted)).toBe(formatted)
+      expect(formatEnvContent("")).toBe("")
+   })
+})
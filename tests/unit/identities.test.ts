@@ -0,0 +1,127 @@
+import { jest } from "@jest/globals"
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import {
+   generateIdentity,
+   saveIdentity,
+   loadIdentity,
+   loadIdentities,
+   listIdentities,
+   setActiveIdentity,
+   getActiveIdentityName,
+   getDefaultKeyPath,
+   getKeyPath,
+   getPublicKey,
+   encrypt,
+   decrypt,
+   IDENTITY_ENV_VAR,
+   IDENTITY_HINT_METADATA_KEY,
+   RECIPIENT_METADATA_KEY,
+} from "../../src/age.js"
+import { IdentityNotFoundError, ValidationError } from "../../src/errors.js"
+
+describe("Named identities", () => {
+   let testHome: string
+   let projectDir: string
+   const originalEnvHome = process.env.SECENV_HOME
+   const originalIdentity = process.env[IDENTITY_ENV_VAR]
+   const originalCwd = process.cwd()
+
+   beforeEach(() => {
+      testHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-identities-test-"))
+      projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-identities-project-"))
+      process.env.SECENV_HOME = testHome
+      delete process.env[IDENTITY_ENV_VAR]
+      process.chdir(projectDir)
+   })
+
+   afterEach(() => {
+      process.chdir(originalCwd)
+      fs.rmSync(testHome, { recursive: true, force: true })
+      fs.rmSync(projectDir, { recursive: true, force: true })
+      process.env.SECENV_HOME = originalEnvHome
+      if (originalIdentity === undefined) {
+         delete process.env[IDENTITY_ENV_VAR]
+      } else {
+         process.env[IDENTITY_ENV_VAR] = originalIdentity
+      }
+   })
+
+   it("defaults to the 'default' identity", () => {
+      expect(getActiveIdentityName()).toBe("default")
+      expect(path.basename(getDefaultKeyPath())).toBe("default.key")
+   })
+
+   it("saves and lists multiple named identities", async () => {
+      await saveIdentity(await generateIdentity())
+      await saveIdentity(await generateIdentity(), { name: "work" })
+
+      const names = listIdentities().map((info) => info.name)
+      expect(names).toEqual(["default", "work"])
+      expect(listIdentities().find((info) => info.active)?.name).toBe("default")
+   })
+
+   it("switches the active identity with setActiveIdentity()", async () => {
+      const work = await generateIdentity()
+      await saveIdentity(await generateIdentity())
+      await saveIdentity(work, { name: "work" })
+
+      setActiveIdentity("work")
+      expect(getActiveIdentityName()).toBe("work")
+      expect(await loadIdentity()).toBe(work)
+   })
+
+   it("refuses to activate an identity that does not exist", () => {
+      expect(() => setActiveIdentity("missing")).toThrow(IdentityNotFoundError)
+   })
+
+   it("rejects invalid identity names", () => {
+      expect(() => getKeyPath("../escape")).toThrow(ValidationError)
+      expect(() => getKeyPath("Work")).toThrow(ValidationError)
+   })
+
+   it("prefers SECENV_IDENTITY over the project hint", async () => {
+      await saveIdentity(await generateIdentity(), { name: "ci" })
+      await saveIdentity(await generateIdentity(), { name: "personal" })
+      fs.writeFileSync(path.join(projectDir, ".secenvs"), `${IDENTITY_HINT_METADATA_KEY}=personal\n`)
+
+      expect(getActiveIdentityName()).toBe("personal")
+      process.env[IDENTITY_ENV_VAR] = "ci"
+      expect(getActiveIdentityName()).toBe("ci")
+   })
+
+   it("ignores an invalid project hint with a warning", async () => {
+      const warn = jest.spyOn(process, "emitWarning").mockImplementation(() => {})
+      try {
+         fs.writeFileSync(path.join(projectDir, ".secenvs"), `${IDENTITY_HINT_METADATA_KEY}=Not Valid\n`)
+
+         expect(getActiveIdentityName()).toBe("default")
+         expect(getActiveIdentityName()).toBe("default")
+         expect(warn).toHaveBeenCalledTimes(1)
+         expect(warn.mock.calls[0][0]).toContain("Ignoring _IDENTITY_HINT")
+      } finally {
+         warn.mockRestore()
+      }
+   })
+
+   it("loadIdentities() returns only identities listed as recipients", async () => {
+      const personal = await generateIdentity()
+      const work = await generateIdentity()
+      await saveIdentity(personal)
+      await saveIdentity(work, { name: "work" })
+
+      const envPath = path.join(projectDir, ".secenvs")
+      fs.writeFileSync(envPath, `${RECIPIENT_METADATA_KEY}=${await getPublicKey(work)}\n`)
+
+      const identities = await loadIdentities(envPath)
+      expect(identities).toEqual([work])
+
+      const ciphertext = await encrypt([await getPublicKey(work)], "work-secret")
+      expect((await decrypt(identities, ciphertext)).toString()).toBe("work-secret")
+   })
+
+   it("loadIdentities() throws IdentityNotFoundError when no identity exists", async () => {
+      await expect(loadIdentities()).rejects.toThrow(IdentityNotFoundError)
+   })
+})
@@ -0,0 +1,74 @@
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import {
+   generateIdentity,
+   saveIdentity,
+   loadIdentity,
+   getPublicKey,
+   wrapIdentity,
+   unwrapIdentity,
+   isProtectedIdentity,
+   readIdentityFile,
+   PASSPHRASE_ENV_VAR,
+} from "../../src/age.js"
+import { DecryptionError, EncryptionError } from "../../src/errors.js"
+
+describe("Passphrase-protected identities", () => {
+   let testHome: string
+   const originalEnvHome = process.env.SECENV_HOME
+   const originalPassphrase = process.env[PASSPHRASE_ENV_VAR]
+
+   beforeEach(() => {
+      testHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-passphrase-test-"))
+      process.env.SECENV_HOME = testHome
+   })
+
+   afterEach(() => {
+      fs.rmSync(testHome, { recursive: true, force: true })
+      process.env.SECENV_HOME = originalEnvHome
+      if (originalPassphrase === undefined) {
+         delete process.env[PASSPHRASE_ENV_VAR]
+      } else {
+         process.env[PASSPHRASE_ENV_VAR] = originalPassphrase
+      }
+   })
+
+   it("wraps an identity into an armored age file and unwraps it again", async () => {
+      const identity = await generateIdentity()
+      const wrapped = await wrapIdentity(identity, "correct horse")
+
+      expect(isProtectedIdentity(wrapped)).toBe(true)
+      expect(wrapped).not.toContain("AGE-SECRET-KEY-1")
+      expect(await unwrapIdentity(wrapped, "correct horse")).toBe(identity)
+   })
+
+   it("rejects a wrong passphrase with DecryptionError", async () => {
+      const wrapped = await wrapIdentity(await generateIdentity(), "correct horse")
+      await expect(unwrapIdentity(wrapped, "battery staple")).rejects.toThrow(DecryptionError)
+   })
+
+   it("refuses to wrap with an empty passphrase", async () => {
+      await expect(wrapIdentity(await generateIdentity(), "")).rejects.toThrow(EncryptionError)
+   })
+
+   it("saves a protected identity and loads it using SECENV_PASSPHRASE", async () => {
+      const identity = await generateIdentity()
+      await saveIdentity(identity, { passphrase: "hunter2hunter2" })
+
+      expect(isProtectedIdentity(readIdentityFile())).toBe(true)
+
+      process.env[PASSPHRASE_ENV_VAR] = "hunter2hunter2"
+      const loaded = await loadIdentity()
+      expect(loaded).toBe(identity)
+      expect(await getPublicKey(loaded)).toMatch(/^age1/)
+   })
+
+   it("keeps unprotected identities loadable without a passphrase", async () => {
+      const identity = await generateIdentity()
+      await saveIdentity(identity)
+
+      expect(isProtectedIdentity(readIdentityFile())).toBe(false)
+      expect(await loadIdentity()).toBe(identity)
+   })
+})
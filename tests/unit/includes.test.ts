@@ -0,0 +1,88 @@
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import { parseEnvFile, findKey, resolveIncludes } from "../../src/parse.js"
+import { ParseError, FileError } from "../../src/errors.js"
+
+describe("_INCLUDE", () => {
+   let repo: string
+   let service: string
+   let shared: string
+
+   beforeEach(() => {
+      repo = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-include-repo-"))
+      fs.mkdirSync(path.join(repo, ".git"))
+      service = path.join(repo, "services", "api")
+      shared = path.join(repo, "shared")
+      fs.mkdirSync(service, { recursive: true })
+      fs.mkdirSync(shared)
+      fs.writeFileSync(
+         path.join(shared, ".secenvs"),
+         "_RECIPIENT=age1shared\nSENTRY_DSN=shared-dsn\nPORT=80\n"
+      )
+   })
+
+   afterEach(() => {
+      fs.rmSync(repo, { recursive: true, force: true })
+   })
+
+   const write = (file: string, content: string) => {
+      fs.writeFileSync(file, content)
+      return file
+   }
+
+   it("adds included keys after local ones, which win", () => {
+      const envPath = write(path.join(service, ".secenvs"), "_INCLUDE=../../shared/.secenvs\nPORT=3000\n")
+
+      const parsed = parseEnvFile(envPath, { followIncludes: true })
+      expect(findKey(parsed, "PORT")?.value).toBe("3000")
+      expect(findKey(parsed, "SENTRY_DSN")).toMatchObject({
+         value: "shared-dsn",
+         source: path.join(shared, ".secenvs"),
+      })
+      // Metadata of the included file stays with it
+      expect(findKey(parsed, "_RECIPIENT")).toBeNull()
+      // Without followIncludes only the file itself is read
+      expect(parseEnvFile(envPath).keys.has("SENTRY_DSN")).toBe(false)
+   })
+
+   it("orders nested includes depth-first and reads each file once", () => {
+      write(path.join(shared, ".secenvs.production"), "_INCLUDE=.secenvs\nSENTRY_DSN=prod-dsn\n")
+      const envPath = write(
+         path.join(service, ".secenvs"),
+         "_INCLUDE=../../shared/.secenvs.production\n_INCLUDE=../../shared/.secenvs\n"
+      )
+
+      expect(resolveIncludes([envPath])).toEqual([
+         envPath,
+         path.join(shared, ".secenvs.production"),
+         path.join(shared, ".secenvs"),
+      ])
+      expect(findKey(parseEnvFile(envPath, { followIncludes: true }), "SENTRY_DSN")?.value).toBe("prod-dsn")
+   })
+
+   it("reports include cycles", () => {
+      write(path.join(shared, ".secenvs"), "_INCLUDE=../services/api/.secenvs\n")
+      const envPath = write(path.join(service, ".secenvs"), "_INCLUDE=../../shared/.secenvs\n")
+
+      expect(() => resolveIncludes([envPath])).toThrow(ParseError)
+      expect(() => resolveIncludes([envPath])).toThrow(/Include cycle: .*api.*shared.*api/)
+   })
+
+   it("refuses paths outside the repository, non-.secenvs files and missing files", () => {
+      const outside = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-include-outside-"))
+      try {
+         write(path.join(outside, ".secenvs"), "LEAKED=1\n")
+         const envPath = write(path.join(service, ".secenvs"), `_INCLUDE=${path.join(outside, ".secenvs")}\n`)
+         expect(() => resolveIncludes([envPath])).toThrow(/Directory traversal detected/)
+
+         write(envPath, "_INCLUDE=../../.git/config\n")
+         expect(() => resolveIncludes([envPath])).toThrow(/must name a .secenvs file/)
+
+         write(envPath, "_INCLUDE=../../missing/.secenvs\n")
+         expect(() => resolveIncludes([envPath])).toThrow(FileError)
+      } finally {
+         fs.rmSync(outside, { recursive: true, force: true })
+      }
+   })
+})
@@ -0,0 +1,35 @@
+import { interpolate, findReferences } from "../../src/interpolate.js"
+
+describe("interpolate", () => {
+   const values: Record<string, string> = { DB_USER: "app", DB_PASS: "p@ss" }
+   const lookup = async (name: string) => values[name]
+
+   it("replaces every reference", async () => {
+      expect(await interpolate("postgres://${DB_USER}:${DB_PASS}@db/${DB_USER}", lookup)).toBe(
+         "postgres://app:p@ss@db/app"
+      )
+   })
+
+   it("leaves values without references untouched", async () => {
+      expect(await interpolate("plain $value {DB_USER}", lookup)).toBe("plain $value {DB_USER}")
+   })
+
+   it("unescapes $${ and ignores names that are not keys", async () => {
+      expect(await interpolate("$${DB_USER} ${db_user} ${} $$ ${DB_USER", lookup)).toBe(
+         "${DB_USER} ${db_user} ${} $$ ${DB_USER"
+      )
+   })
+
+   it("propagates lookup errors", async () => {
+      await expect(
+         interpolate("${MISSING}", async () => {
+            throw new Error("missing")
+         })
+      ).rejects.toThrow("missing")
+   })
+
+   it("finds the keys a value references, without escaped ones", () => {
+      expect(findReferences("${DB_USER}:$${DB_PASS}@${HOST} ${db_user}")).toEqual(["DB_USER", "HOST"])
+      expect(findReferences("plain")).toEqual([])
+   })
+})
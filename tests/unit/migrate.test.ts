@@ -5,6 +5,7 @@ import { getEnvPath } from "../../src/parse.js"
 import { parseEnvFile } from "../../src/parse.js"
 import { loadIdentity, decrypt } from "../../src/age.js"
 import { ENCRYPTED_PREFIX } from "../../src/parse.js"
+import { openValue } from "../../src/envelope.js"
 
 describe("CLI - migrate command", () => {
    let tempDir: string
@@ -47,14 +48,16 @@ describe("CLI - migrate command", () => {
       const fooLine = parsed.lines.find((l) => l.key === "FOO")!
       const bazLine = parsed.lines.find((l) => l.key === "BAZ")!
 
-      const fooDecrypted = await decrypt(identity, fooLine.value.slice(ENCRYPTED_PREFIX.length))
+      const fooPlaintext = await decrypt(identity, fooLine.value.slice(ENCRYPTED_PREFIX.length))
+      const fooDecrypted = openValue("FOO", null, fooPlaintext)
       expect(fooDecrypted.toString()).toBe("bar")
 
-      const bazDecrypted = await decrypt(identity, bazLine.value.slice(ENCRYPTED_PREFIX.length))
+      const bazPlaintext = await decrypt(identity, bazLine.value.slice(ENCRYPTED_PREFIX.length))
+      const bazDecrypted = openValue("BAZ", null, bazPlaintext)
       expect(bazDecrypted.toString()).toBe("qux")
    })
 
-   it("should handle newlines properly and encode them as base64", async () => {
+   it("should store values with newlines as-is", async () => {
       fs.writeFileSync(".env", 'KEY="line1\\nline2"\n')
       await execa("node", [cliPath, "migrate", ".env", "--auto"])
 
@@ -64,7 +67,8 @@ describe("CLI - migrate command", () => {
 
       const identity = await loadIdentity()
       const line = parsed.lines.find((l) => l.key === "KEY")!
-      const decrypted = await decrypt(identity, line.value.slice(ENCRYPTED_PREFIX.length))
+      const plaintext = await decrypt(identity, line.value.slice(ENCRYPTED_PREFIX.length))
+      const decrypted = openValue("KEY", null, plaintext)
       
       expect(decrypted.toString()).toBe("line1\nline2")
    })
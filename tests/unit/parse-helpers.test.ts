@@ -1,4 +1,14 @@
-import { isEncryptedValue, isVaultReference } from "../../src/parse.js"
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import {
+   isEncryptedValue,
+   isVaultReference,
+   isEnvFilePath,
+   listEnvironments,
+   validateEnvironmentName,
+} from "../../src/parse.js"
+import { ValidationError } from "../../src/errors.js"
 
 describe("Parse Helper Functions", () => {
    describe("isEncryptedValue()", () => {
@@ -67,4 +77,30 @@ describe("Parse Helper Functions", () => {
          expect(isVaultReference("VAULT:key")).toBe(false)
       })
    })
+
+   describe("isEnvFilePath()", () => {
+      it("should accept the base file and environment files", () => {
+         expect(isEnvFilePath("/project/.secenvs")).toBe(true)
+         expect(isEnvFilePath("/project/.secenvs.production")).toBe(true)
+      })
+
+      it("should reject the lock, audit and temporary files written beside them", () => {
+         expect(isEnvFilePath("/project/.secenvs.lock")).toBe(false)
+         expect(isEnvFilePath("/project/.secenvs.audit")).toBe(false)
+         expect(isEnvFilePath("/project/.secenvs.tmp.1.2.3")).toBe(false)
+         expect(() => validateEnvironmentName("lock")).toThrow(ValidationError)
+      })
+
+      it("should leave those files out of listEnvironments()", () => {
+         const dir = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-environments-"))
+         try {
+            for (const name of [".secenvs", ".secenvs.staging", ".secenvs.lock", ".secenvs.audit"]) {
+               fs.writeFileSync(path.join(dir, name), "")
+            }
+            expect(listEnvironments(dir)).toEqual([null, "staging"])
+         } finally {
+            fs.rmSync(dir, { recursive: true, force: true })
+         }
+      })
+   })
 })
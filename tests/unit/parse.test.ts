@@ -1,4 +1,4 @@
-import { parseEnvFile, ParsedLine } from "../../src/parse.js";
+import { parseEnvFile, setKey, deleteKey, ParsedLine } from "../../src/parse.js";
 import * as fs from "fs";
 import * as path from "path";
 import { fileURLToPath } from "url";
@@ -67,4 +67,69 @@ describe("Parser (parse.ts)", () => {
     expect(() => parseEnvFile(testEnvPath)).toThrow(ParseError);
     expect(() => parseEnvFile(testEnvPath)).toThrow(/Duplicate key 'KEY'/);
   });
+
+  describe("key annotations", () => {
+    it("attaches @ comments directly above a key to its line", () => {
+      fs.writeFileSync(
+        testEnvPath,
+        [
+          "# @description Stripe live secret key",
+          "# @owner payments-team",
+          "# ordinary comments may sit in between",
+          "# @expires 2027-01-01",
+          "# @tags payments, billing",
+          "# @tags pci",
+          "STRIPE_KEY=enc:age:xyz",
+          "PORT=3000",
+        ].join("\n")
+      );
+      const result = parseEnvFile(testEnvPath);
+
+      expect(result.lines.find((l: ParsedLine) => l.key === "STRIPE_KEY")?.annotations).toEqual({
+        description: "Stripe live secret key",
+        owner: "payments-team",
+        expires: "2027-01-01",
+        tags: ["payments", "billing", "pci"],
+      });
+      expect(result.lines.find((l: ParsedLine) => l.key === "PORT")?.annotations).toBeUndefined();
+    });
+
+    it("ends an annotation block at a blank line and ignores unknown names", () => {
+      fs.writeFileSync(testEnvPath, "# @owner ops\n\n# @todo rotate this\nKEY=VAL\n");
+      const result = parseEnvFile(testEnvPath);
+
+      expect(result.lines.find((l: ParsedLine) => l.key === "KEY")?.annotations).toBeUndefined();
+    });
+
+    it("does not attach annotations to metadata keys", () => {
+      fs.writeFileSync(testEnvPath, "# @owner ops\n_RECIPIENT=age1xyz\nKEY=VAL\n");
+      const result = parseEnvFile(testEnvPath);
+
+      expect(result.lines.find((l: ParsedLine) => l.key === "_RECIPIENT")?.annotations).toBeUndefined();
+      expect(result.lines.find((l: ParsedLine) => l.key === "KEY")?.annotations).toBeUndefined();
+    });
+
+    it("ignores an invalid @expires date with a warning instead of failing the parse", () => {
+      fs.writeFileSync(testEnvPath, "# @owner ops\n# @expires 2027-02-30\nKEY=VAL\n");
+      const line = parseEnvFile(testEnvPath).lines.find((l: ParsedLine) => l.key === "KEY");
+
+      expect(line?.annotations).toEqual({ owner: "ops" });
+      expect(line?.annotationWarnings).toEqual([
+        "Line 2: invalid @expires date '2027-02-30', ignored. Use YYYY-MM-DD.",
+      ]);
+    });
+
+    it("keeps annotations when setKey updates a key and drops them with deleteKey", async () => {
+      fs.writeFileSync(testEnvPath, "# @owner ops\n# @expires 2027-01-01\nAPI_KEY=old\n# @owner web\nPORT=3000\n");
+
+      await setKey(testEnvPath, "API_KEY", "new");
+      expect(parseEnvFile(testEnvPath).lines.find((l: ParsedLine) => l.key === "API_KEY")?.annotations).toEqual({
+        owner: "ops",
+        expires: "2027-01-01",
+      });
+
+      await deleteKey(testEnvPath, "API_KEY");
+      expect(fs.readFileSync(testEnvPath, "utf-8")).toBe("# @owner web\nPORT=3000\n");
+    });
+  });
 });
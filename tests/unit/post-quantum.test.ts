@@ -0,0 +1,43 @@
+import {
+   generateIdentity,
+   getPublicKey,
+   encrypt,
+   decrypt,
+   validatePublicKey,
+   isPostQuantumRecipient,
+} from "../../src/age.js"
+import { RecipientError } from "../../src/errors.js"
+
+describe("Post-quantum hybrid recipients", () => {
+   it("generates a hybrid ML-KEM + X25519 identity with --pq semantics", async () => {
+      const identity = await generateIdentity({ pq: true })
+      expect(identity).toMatch(/^AGE-SECRET-KEY-PQ-1[A-Z0-9]+$/)
+
+      const pubkey = await getPublicKey(identity)
+      expect(pubkey.startsWith("age1pq1")).toBe(true)
+      expect(isPostQuantumRecipient(pubkey)).toBe(true)
+   })
+
+   it("validatePublicKey() accepts age1pq1 keys and rejects mangled ones", async () => {
+      const pubkey = await getPublicKey(await generateIdentity({ pq: true }))
+      expect(validatePublicKey(pubkey)).toBe(pubkey)
+      expect(() => validatePublicKey("age1pq1ABC")).toThrow(RecipientError)
+   })
+
+   it("treats X25519 keys as classical-only", async () => {
+      const pubkey = await getPublicKey(await generateIdentity())
+      expect(isPostQuantumRecipient(pubkey)).toBe(false)
+   })
+
+   it("encrypts to a mixed hybrid and classical recipient set", async () => {
+      const pqIdentity = await generateIdentity({ pq: true })
+      const classicIdentity = await generateIdentity()
+      const ciphertext = await encrypt(
+         [await getPublicKey(pqIdentity), await getPublicKey(classicIdentity)],
+         "long-lived credential"
+      )
+
+      expect((await decrypt(pqIdentity, ciphertext)).toString()).toBe("long-lived credential")
+      expect((await decrypt(classicIdentity, ciphertext)).toString()).toBe("long-lived credential")
+   })
+})
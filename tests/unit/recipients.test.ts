@@ -10,9 +10,16 @@ import {
    loadRecipients,
    saveRecipients,
    validatePublicKey,
+   parseRecipientEntry,
+   loadRecipientEntries,
+   findRecipients,
+   verifyRecipientSignature,
+   rememberRecipientSigner,
    RECIPIENT_METADATA_KEY,
+   SIGNATURE_METADATA_KEY,
 } from "../../src/age.js"
-import { RecipientError, IdentityNotFoundError } from "../../src/errors.js"
+import { deriveSigningKey, signRecipientList, formatRecipientSignature } from "../../src/signing.js"
+import { RecipientError, IdentityNotFoundError, ValidationError } from "../../src/errors.js"
 
 describe("Multi-Recipient Encryption (recipients)", () => {
    let testHome: string
@@ -145,10 +152,12 @@ describe("Multi-Recipient Encryption (recipients)", () => {
 
       it("reads keys from an existing .secenvs file", async () => {
          const identity = await generateIdentity()
+         await saveIdentity(identity)
          const pubkey = await getPublicKey(identity)
 
          const envFile = path.join(projectDir, ".secenvs")
          fs.writeFileSync(envFile, `# Metadata\n${RECIPIENT_METADATA_KEY}=${pubkey}\n`)
+         await saveRecipients(projectDir, [pubkey])
 
          const recipients = await loadRecipients(projectDir)
          expect(recipients).toEqual([pubkey])
@@ -162,6 +171,8 @@ describe("Multi-Recipient Encryption (recipients)", () => {
 
          const content = `OTHER_KEY=value\n${RECIPIENT_METADATA_KEY}=${pubkeyA}\n\n# Comment\n${RECIPIENT_METADATA_KEY}=${pubkeyB}\n`
          fs.writeFileSync(path.join(projectDir, ".secenvs"), content)
+         await saveIdentity(identityA)
+         await saveRecipients(projectDir, [pubkeyA, pubkeyB])
 
          const recipients = await loadRecipients(projectDir)
          expect(recipients).toEqual([pubkeyA, pubkeyB])
@@ -220,4 +231,150 @@ describe("Multi-Recipient Encryption (recipients)", () => {
          expect(content).not.toContain("oldkey")
       })
    })
+
+   // ─── signatures ──────────────────────────────────────────────────────────
+
+   describe("recipient list signatures", () => {
+      let envFile: string
+      let aliceKey: string
+      let bobKey: string
+
+      beforeEach(async () => {
+         envFile = path.join(projectDir, ".secenvs")
+         const alice = await generateIdentity()
+         await saveIdentity(alice)
+         aliceKey = await getPublicKey(alice)
+         bobKey = await getPublicKey(await generateIdentity())
+         await saveRecipients(projectDir, [aliceKey, bobKey])
+      })
+
+      it("signs the list with the active identity on save", async () => {
+         expect(fs.readFileSync(envFile, "utf-8")).toContain(`${SIGNATURE_METADATA_KEY}=${aliceKey}|`)
+         expect(verifyRecipientSignature(projectDir).signer).toBe(aliceKey)
+         expect(await loadRecipients(projectDir)).toEqual([aliceKey, bobKey])
+      })
+
+      it("refuses an injected recipient", async () => {
+         const attacker = await getPublicKey(await generateIdentity())
+         fs.appendFileSync(envFile, `${RECIPIENT_METADATA_KEY}=${attacker}\n`)
+         await expect(loadRecipients(projectDir)).rejects.toThrow(/changed after it was signed/)
+      })
+
+      it("refuses an unsigned list", async () => {
+         const content = fs.readFileSync(envFile, "utf-8")
+         fs.writeFileSync(envFile, content.replace(/^_SIGNATURE=.*\n/m, ""))
+         await expect(loadRecipients(projectDir)).rejects.toThrow(/not signed/)
+      })
+
+      it("refuses a list re-signed by a recipient this machine has not seen sign", async () => {
+         const attacker = await generateIdentity()
+         const attackerKey = await getPublicKey(attacker)
+         await saveRecipients(projectDir, [aliceKey, bobKey, attackerKey], { identity: attacker })
+         // The attacker signed on their own machine, so only alice is pinned here
+         const knownPath = path.join(testHome, ".secenvs", "keys", "known-signers.json")
+         const known = JSON.parse(fs.readFileSync(knownPath, "utf-8"))
+         delete known[attackerKey]
+         fs.writeFileSync(knownPath, JSON.stringify(known))
+         await expect(loadRecipients(projectDir)).rejects.toThrow(/has not signed a list on this machine/)
+      })
+
+      it("refuses a list replaced by one holding only the key of its outside signer", async () => {
+         const attacker = await generateIdentity()
+         const attackerKey = await getPublicKey(attacker)
+         const signature = signRecipientList(deriveSigningKey(attacker), attackerKey, [attackerKey])
+         fs.writeFileSync(
+            envFile,
+            `${RECIPIENT_METADATA_KEY}=${attackerKey}\n${SIGNATURE_METADATA_KEY}=${formatRecipientSignature(signature)}\n`
+         )
+         await expect(loadRecipients(projectDir)).rejects.toThrow(/has not signed a list on this machine/)
+      })
+
+      it("refuses a new list from a pinned signer who was not on the accepted one", async () => {
+         // Pinned on this machine by signing another project
+         const other = await generateIdentity()
+         const otherKey = await getPublicKey(other)
+         const otherProject = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-other-project-"))
+         try {
+            await saveRecipients(otherProject, [otherKey], { identity: other })
+         } finally {
+            fs.rmSync(otherProject, { recursive: true, force: true })
+         }
+
+         const signature = signRecipientList(deriveSigningKey(other), otherKey, [otherKey])
+         fs.writeFileSync(
+            envFile,
+            `${RECIPIENT_METADATA_KEY}=${otherKey}\n${SIGNATURE_METADATA_KEY}=${formatRecipientSignature(signature)}\n`
+         )
+         await expect(loadRecipients(projectDir)).rejects.toThrow(/was not a recipient of the version/)
+      })
+
+      it("accepts a new list from a pinned recipient of the accepted one", async () => {
+         const bob = await generateIdentity()
+         const bobKey2 = await getPublicKey(bob)
+         await saveRecipients(projectDir, [aliceKey, bobKey2])
+         // Bob's signing key was pinned when alice reviewed a list he signed before
+         rememberRecipientSigner(signRecipientList(deriveSigningKey(bob), bobKey2, [bobKey2]))
+
+         const carolKey = await getPublicKey(await generateIdentity())
+         const keys = [aliceKey, bobKey2, carolKey]
+         const signature = signRecipientList(deriveSigningKey(bob), bobKey2, keys)
+         fs.writeFileSync(
+            envFile,
+            `${keys.map((key) => `${RECIPIENT_METADATA_KEY}=${key}`).join("\n")}\n${SIGNATURE_METADATA_KEY}=${formatRecipientSignature(signature)}\n`
+         )
+         expect(await loadRecipients(projectDir)).toEqual(keys)
+      })
+   })
+
+   // ─── labels ──────────────────────────────────────────────────────────────
+
+   describe("recipient labels", () => {
+      const pubkey = "age1ql3z7hjy54pw3hyww5ayyfg7zqgvc7w3j2elw8zmrj2kg5sfn9aqmcac8p"
+
+      it("parses bare, trailing-comment and structured forms", () => {
+         expect(parseRecipientEntry(pubkey)).toEqual({ key: pubkey })
+         expect(parseRecipientEntry(`${pubkey} # alice@laptop`)).toEqual({
+            key: pubkey,
+            label: "alice@laptop",
+         })
+         expect(parseRecipientEntry(`alice@laptop:${pubkey}`)).toEqual({ key: pubkey, label: "alice@laptop" })
+      })
+
+      it("loads labeled recipients while loadRecipients still returns bare keys", async () => {
+         const envFile = path.join(projectDir, ".secenvs")
+         fs.writeFileSync(envFile, `${RECIPIENT_METADATA_KEY}=${pubkey} # alice\n`)
+         await saveIdentity(await generateIdentity())
+         await saveRecipients(projectDir, [pubkey])
+
+         expect(loadRecipientEntries(projectDir)).toEqual([{ key: pubkey, label: "alice" }])
+         expect(await loadRecipients(projectDir)).toEqual([pubkey])
+      })
+
+      it("saveRecipients() keeps existing labels for keys passed without one", async () => {
+         const other = await getPublicKey(await generateIdentity())
+         await saveRecipients(projectDir, [{ key: pubkey, label: "alice" }])
+         await saveRecipients(projectDir, [pubkey, { key: other, label: "bob" }])
+
+         const content = fs.readFileSync(path.join(projectDir, ".secenvs"), "utf-8")
+         expect(content).toContain(`${RECIPIENT_METADATA_KEY}=${pubkey} # alice`)
+         expect(content).toContain(`${RECIPIENT_METADATA_KEY}=${other} # bob`)
+      })
+
+      it("saveRecipients() rejects labels that would break the file format", async () => {
+         await expect(saveRecipients(projectDir, [{ key: pubkey, label: "al ice#" }])).rejects.toThrow(
+            ValidationError
+         )
+      })
+
+      it("findRecipients() matches by key or by label", () => {
+         const entries = [
+            { key: pubkey, label: "alice" },
+            { key: "ssh-ed25519 AAAA", label: "alice" },
+            { key: "age1other", label: "bob" },
+         ]
+         expect(findRecipients(entries, "alice")).toHaveLength(2)
+         expect(findRecipients(entries, pubkey)).toEqual([entries[0]])
+         expect(findRecipients(entries, "carol")).toEqual([])
+      })
+   })
 })
@@ -0,0 +1,57 @@
+import * as fs from "fs"
+import * as path from "path"
+import * as os from "os"
+import { recordVaultUsage, findVaultUsages, readVaultUsages, getRegistryPath } from "../../src/registry.js"
+
+describe("Vault usage registry", () => {
+   let testHome: string
+   let projectDir: string
+   let originalEnvHome: string | undefined
+
+   beforeEach(() => {
+      testHome = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-registry-home-"))
+      projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-registry-project-"))
+      originalEnvHome = process.env.SECENV_HOME
+      process.env.SECENV_HOME = testHome
+   })
+
+   afterEach(() => {
+      process.env.SECENV_HOME = originalEnvHome
+      fs.rmSync(testHome, { recursive: true, force: true })
+      fs.rmSync(projectDir, { recursive: true, force: true })
+   })
+
+   it("finds the keys that reference a vault key, per vault", async () => {
+      const envPath = path.join(projectDir, ".secenvs")
+      fs.writeFileSync(
+         envPath,
+         "STRIPE=vault:STRIPE_KEY\nWORK_STRIPE=vault:work/STRIPE_KEY\nSECRET=enc:age:x\n"
+      )
+      await recordVaultUsage(envPath, "STRIPE", "vault:STRIPE_KEY")
+      await recordVaultUsage(envPath, "WORK_STRIPE", "vault:work/STRIPE_KEY")
+      await recordVaultUsage(envPath, "SECRET", "vault:STRIPE_KEY")
+
+      expect(findVaultUsages("STRIPE_KEY").map((usage) => usage.key)).toEqual(["SECRET", "STRIPE"])
+      expect(findVaultUsages("STRIPE_KEY", "work")).toMatchObject([{ envPath, key: "WORK_STRIPE" }])
+      expect(findVaultUsages("OTHER")).toEqual([])
+   })
+
+   it("skips usages whose file no longer holds the reference", async () => {
+      const envPath = path.join(projectDir, ".secenvs")
+      fs.writeFileSync(envPath, "STRIPE=vault:STRIPE_KEY\n")
+      await recordVaultUsage(envPath, "STRIPE", "vault:STRIPE_KEY")
+
+      fs.writeFileSync(envPath, "STRIPE=sk_inline\n")
+      expect(findVaultUsages("STRIPE_KEY")).toEqual([])
+
+      fs.rmSync(envPath)
+      expect(findVaultUsages("STRIPE_KEY")).toEqual([])
+      expect(readVaultUsages()).toHaveLength(1)
+   })
+
+   it("reads an unreadable registry as empty", () => {
+      fs.mkdirSync(path.dirname(getRegistryPath()), { recursive: true })
+      fs.writeFileSync(getRegistryPath(), "not json")
+      expect(readVaultUsages()).toEqual([])
+   })
+})
@@ -0,0 +1,67 @@
+import * as crypto from "crypto"
+import {
+   splitSecret,
+   combineShares,
+   encodeShare,
+   decodeShare,
+   publicKeyFingerprint,
+} from "../../src/shamir.js"
+import { ValidationError } from "../../src/errors.js"
+
+describe("Shamir secret sharing", () => {
+   const secret = Buffer.from("AGE-SECRET-KEY-1QQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQQ")
+   const fingerprint = publicKeyFingerprint("age1example")
+
+   it("reconstructs the secret from any threshold-sized subset", () => {
+      const shares = splitSecret(secret, fingerprint, 5, 3)
+      expect(shares).toHaveLength(5)
+
+      for (const subset of [
+         [0, 1, 2],
+         [0, 2, 4],
+         [4, 3, 1],
+      ]) {
+         const result = combineShares(subset.map((i) => shares[i]))
+         expect(result.secret.equals(secret)).toBe(true)
+         expect(result.fingerprint).toBe(fingerprint)
+      }
+   })
+
+   it("does not reveal the secret with fewer shares than the threshold", () => {
+      const shares = splitSecret(secret, fingerprint, 5, 3)
+      expect(() => combineShares(shares.slice(0, 2))).toThrow(ValidationError)
+   })
+
+   it("round-trips shares through the word encoding, accepting 4-letter prefixes", () => {
+      const [share] = splitSecret(crypto.randomBytes(32), fingerprint, 3, 2)
+      const words = encodeShare(share)
+      expect(words).toMatch(/^[a-z ]+$/)
+
+      const abbreviated = words
+         .split(" ")
+         .map((word) => word.slice(0, 4).toUpperCase())
+         .join("  ")
+      const decoded = decodeShare(abbreviated)
+      expect(decoded.index).toBe(share.index)
+      expect(decoded.threshold).toBe(2)
+      expect(decoded.fingerprint).toBe(fingerprint)
+      expect(decoded.data.equals(share.data)).toBe(true)
+   })
+
+   it("detects a mistyped word through the checksum", () => {
+      const [share] = splitSecret(secret, fingerprint, 3, 2)
+      const words = encodeShare(share).split(" ")
+      words[10] = words[10] === "acid" ? "acorn" : "acid"
+      expect(() => decodeShare(words.join(" "))).toThrow(/checksum/)
+      expect(() => decodeShare("acid notaword acorn")).toThrow(/Unknown word/)
+   })
+
+   it("rejects shares from different backups and invalid parameters", () => {
+      const first = splitSecret(secret, fingerprint, 3, 2)
+      const second = splitSecret(secret, publicKeyFingerprint("age1other"), 3, 2)
+      expect(() => combineShares([first[0], second[1]])).toThrow(/different backups/)
+      expect(() => combineShares([first[0], first[0]])).toThrow(/more than once/)
+      expect(() => splitSecret(secret, fingerprint, 3, 1)).toThrow(ValidationError)
+      expect(() => splitSecret(secret, fingerprint, 2, 3)).toThrow(ValidationError)
+   })
+})
@@ -158,6 +158,11 @@ describe("Validator Limit Tests", () => {
          expect(() => validateValue("value\r")).toThrow(ValidationError)
       })
 
+      it("should accept multiline values when they will be encrypted", () => {
+         expect(() => validateValue("line1\nline2", { multiline: true })).not.toThrow()
+         expect(() => validateValue("line1\r\nline2\n", { multiline: true })).not.toThrow()
+      })
+
       it("should accept multiline values with base64 flag", () => {
          const base64Value = "SGVsbG8gV29ybGQ="
          expect(() => validateValue(base64Value, { isBase64: true })).not.toThrow()
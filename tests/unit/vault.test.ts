@@ -9,9 +9,31 @@ import {
    clearVaultCache,
    getVaultPath,
    loadVault,
+   listVaults,
+   listVaultRecipients,
+   vaultTrust,
+   vaultUntrust,
+   vaultHistory,
+   vaultRestore,
+   vaultImport,
+   rekeyVault,
+   vaultSign,
+   readVaultSignature,
+   linkVault,
+   VAULT_HISTORY_LIMIT,
 } from "../../src/vault.js"
-import { generateIdentity, saveIdentity } from "../../src/age.js"
-import { VaultError, IdentityNotFoundError } from "../../src/errors.js"
+import { readAuditLog } from "../../src/audit.js"
+import {
+   generateIdentity,
+   saveIdentity,
+   loadIdentity,
+   getPublicKey,
+   encrypt,
+   decryptString,
+   rememberRecipientSigner,
+} from "../../src/age.js"
+import { VaultError, IdentityNotFoundError, ValidationError, RecipientError } from "../../src/errors.js"
+import { deriveSigningKey, signRecipientList, formatRecipientSignature } from "../../src/signing.js"
 
 describe("Vault Unit Tests", () => {
    let testHome: string
@@ -41,6 +63,23 @@ describe("Vault Unit Tests", () => {
       expect(await vaultGet("MY_TOKEN")).toBe("secret-token")
    })
 
+   it("should keep multiline values intact", async () => {
+      const pem = "-----BEGIN KEY-----\nabc=def\n  indented\n-----END KEY-----\n"
+      await vaultSet("TLS_KEY", pem)
+
+      clearVaultCache()
+      expect(await vaultGet("TLS_KEY")).toBe(pem)
+   })
+
+   it("should read vaults written in the older KEY=VALUE format", async () => {
+      fs.mkdirSync(path.dirname(getVaultPath()), { recursive: true })
+      const legacy = await encrypt([await getPublicKey(await loadIdentity())], "OLD_TOKEN=abc\nOTHER=x=y\n")
+      fs.writeFileSync(getVaultPath(), legacy)
+
+      expect(await vaultGet("OLD_TOKEN")).toBe("abc")
+      expect(await vaultGet("OTHER")).toBe("x=y")
+   })
+
    it("should persist vault values between loads", async () => {
       await vaultSet("PERSISTENT", "value123")
 
@@ -90,6 +129,305 @@ describe("Vault Unit Tests", () => {
       expect(decoded).toContain("age-encryption.org/v1")
       expect(decoded).not.toContain("very-secret")
    })
+
+   it("should keep named vaults apart from the default vault", async () => {
+      await vaultSet("STRIPE_KEY", "sk_work", "work")
+      await vaultSet("STRIPE_KEY", "sk_personal", "personal")
+      await vaultSet("OPENAI_KEY", "sk_default")
+
+      clearVaultCache()
+      expect(await vaultGet("STRIPE_KEY", "work")).toBe("sk_work")
+      expect(await vaultGet("STRIPE_KEY", "personal")).toBe("sk_personal")
+      expect(await vaultGet("STRIPE_KEY")).toBeUndefined()
+      expect(getVaultPath("work")).toBe(path.join(testHome, ".secenvs", "vaults", "work.age"))
+      expect(getVaultPath("default")).toBe(getVaultPath())
+      expect(listVaults()).toEqual(["default", "personal", "work"])
+
+      await vaultDelete("STRIPE_KEY", "work")
+      expect(await listVaultKeys("work")).toEqual([])
+      expect(await vaultGet("STRIPE_KEY", "personal")).toBe("sk_personal")
+   })
+
+   it("should keep a linked vault in the file it was linked to", async () => {
+      const shared = fs.mkdtempSync(path.join(os.tmpdir(), "secenv-shared-vault-"))
+      try {
+         const teamPath = path.join(shared, "team.age")
+         expect(linkVault("team", teamPath)).toBe(teamPath)
+         expect(listVaults()).toEqual([])
+
+         await vaultSet("STRIPE_KEY", "sk_team", "team")
+         expect(fs.lstatSync(teamPath).isFile()).toBe(true)
+         expect(fs.existsSync(path.join(testHome, ".secenvs", "vaults", "team.age"))).toBe(false)
+         expect(listVaults()).toEqual(["team"])
+
+         clearVaultCache()
+         expect(await vaultGet("STRIPE_KEY", "team")).toBe("sk_team")
+
+         expect(linkVault("team", null)).toBe(path.join(testHome, ".secenvs", "vaults", "team.age"))
+         expect(listVaults()).toEqual([])
+      } finally {
+         fs.rmSync(shared, { recursive: true, force: true })
+      }
+   })
+
+   it("should reject invalid vault names", async () => {
+      expect(() => getVaultPath("../escape")).toThrow(ValidationError)
+      await expect(vaultSet("KEY", "value", "Work")).rejects.toThrow(ValidationError)
+   })
+
+   describe("version history", () => {
+      it("should keep earlier values and restore one as a new version", async () => {
+         await vaultSet("STRIPE_KEY", "sk_live_1")
+         await vaultSet("STRIPE_KEY", "typo")
+
+         clearVaultCache()
+         const versions = await vaultHistory("STRIPE_KEY")
+         expect(versions.map((entry) => [entry.version, entry.value])).toEqual([
+            [1, "sk_live_1"],
+            [2, "typo"],
+         ])
+         expect(versions[0].setAt).toMatch(/^\d{4}-\d{2}-\d{2}T/)
+
+         const restored = await vaultRestore("STRIPE_KEY", 1)
+         expect(restored).toMatchObject({ version: 3, value: "sk_live_1" })
+         expect(await vaultGet("STRIPE_KEY")).toBe("sk_live_1")
+         expect(await listVaultKeys()).toEqual(["STRIPE_KEY"])
+         await expect(vaultRestore("STRIPE_KEY", 9)).rejects.toThrow(/available: 1, 2, 3/)
+      })
+
+      it("should keep only the last versions and drop them when the key is deleted", async () => {
+         for (let i = 1; i <= VAULT_HISTORY_LIMIT + 2; i++) {
+            await vaultSet("TOKEN", `t${i}`)
+         }
+         const versions = await vaultHistory("TOKEN")
+         expect(versions).toHaveLength(VAULT_HISTORY_LIMIT)
+         expect(versions[0].version).toBe(3)
+
+         await vaultDelete("TOKEN")
+         await vaultSet("TOKEN", "fresh")
+         expect((await vaultHistory("TOKEN")).map((entry) => entry.value)).toEqual(["fresh"])
+      })
+
+      it("should treat a value stored before history was kept as version 1", async () => {
+         fs.mkdirSync(path.dirname(getVaultPath()), { recursive: true })
+         const legacy = await encrypt([await getPublicKey(await loadIdentity())], '{"OLD_TOKEN":"abc"}')
+         fs.writeFileSync(getVaultPath(), legacy)
+
+         expect(await vaultHistory("OLD_TOKEN")).toEqual([{ version: 1, value: "abc", setAt: null }])
+         await vaultSet("OLD_TOKEN", "def")
+         expect((await vaultHistory("OLD_TOKEN")).map((entry) => entry.version)).toEqual([1, 2])
+      })
+   })
+
+   describe("shared vaults", () => {
+      const decryptWith = async (identity: string, name: string) =>
+         JSON.parse(await decryptString([identity], fs.readFileSync(getVaultPath(name), "utf-8")))
+
+      it("should re-encrypt the vault to every trusted recipient", async () => {
+         const teammate = await generateIdentity()
+         const ownKey = await getPublicKey(await loadIdentity())
+         await vaultSet("STRIPE_KEY", "sk_team", "team")
+
+         expect(await vaultTrust(await getPublicKey(teammate), "team")).toEqual([
+            ownKey,
+            await getPublicKey(teammate),
+         ])
+         expect(await vaultTrust(await getPublicKey(teammate), "team")).toBeNull()
+
+         // Later writes keep the teammate as a recipient
+         await vaultSet("SENTRY_DSN", "dsn", "team")
+         expect(await decryptWith(teammate, "team")).toMatchObject({
+            STRIPE_KEY: "sk_team",
+            SENTRY_DSN: "dsn",
+         })
+         expect(await listVaultKeys("team")).toEqual(["STRIPE_KEY", "SENTRY_DSN"])
+         expect(await listVaultRecipients("team")).toHaveLength(2)
+         expect(await listVaultRecipients()).toEqual([])
+      })
+
+      it("should stop encrypting to an untrusted recipient but keep the last one", async () => {
+         const teammate = await generateIdentity()
+         const ownKey = await getPublicKey(await loadIdentity())
+         await vaultTrust(await getPublicKey(teammate), "team")
+
+         expect(await vaultUntrust(await getPublicKey(teammate), "team")).toEqual([ownKey])
+         await expect(decryptWith(teammate, "team")).rejects.toThrow()
+         await expect(vaultUntrust(ownKey, "team")).rejects.toThrow(RecipientError)
+      })
+
+      it("should refuse to write to a recipient list nobody this machine trusts has signed", async () => {
+         const teammate = await getPublicKey(await generateIdentity())
+         const mallory = await generateIdentity()
+         const malloryKey = await getPublicKey(mallory)
+         await vaultTrust(teammate, "team")
+         const ownKey = await getPublicKey(await loadIdentity())
+
+         // Anyone who can replace the shared file can encrypt it to the team plus themselves
+         const recipients = [ownKey, teammate, malloryKey]
+         const signature = signRecipientList(deriveSigningKey(mallory), malloryKey, recipients)
+         const swapped = {
+            STRIPE_KEY: "sk_team",
+            _RECIPIENT: recipients.join("\n"),
+            _SIGNATURE: formatRecipientSignature(signature),
+         }
+         fs.writeFileSync(getVaultPath("team"), await encrypt(recipients, JSON.stringify(swapped)))
+         clearVaultCache()
+
+         await expect(vaultSet("SENTRY_DSN", "dsn", "team")).rejects.toThrow(
+            /who has not signed a list on this machine before/
+         )
+         await expect(vaultTrust(await getPublicKey(await generateIdentity()), "team")).rejects.toThrow(
+            RecipientError
+         )
+         expect(await decryptWith(mallory, "team")).not.toHaveProperty("SENTRY_DSN")
+
+         // Once someone reviews and signs the list, writes go through again
+         expect(await vaultSign("team")).toEqual(recipients)
+         expect(await readVaultSignature("team")).toMatchObject({ signer: ownKey })
+         await vaultSet("SENTRY_DSN", "dsn", "team")
+      })
+
+      it("should refuse a recipient list replaced by one holding only its outside signer's key", async () => {
+         const teammate = await generateIdentity()
+         const mallory = await generateIdentity()
+         const malloryKey = await getPublicKey(mallory)
+         await vaultTrust(await getPublicKey(teammate), "team")
+         const ownKey = await getPublicKey(await loadIdentity())
+
+         // Encrypted to this machine too, so the swapped file still opens here
+         const signature = signRecipientList(deriveSigningKey(mallory), malloryKey, [malloryKey])
+         const swapped = {
+            STRIPE_KEY: "sk_team",
+            _RECIPIENT: malloryKey,
+            _SIGNATURE: formatRecipientSignature(signature),
+         }
+         fs.writeFileSync(getVaultPath("team"), await encrypt([ownKey, malloryKey], JSON.stringify(swapped)))
+         clearVaultCache()
+
+         await expect(vaultSet("NEW_SECRET", "topsecret", "team")).rejects.toThrow(
+            /who has not signed a list on this machine before/
+         )
+         expect(await decryptWith(mallory, "team")).not.toHaveProperty("NEW_SECRET")
+      })
+
+      it("should refuse a list from a pinned signer who was not on the accepted one", async () => {
+         const mallory = await generateIdentity()
+         const malloryKey = await getPublicKey(mallory)
+         await vaultTrust(await getPublicKey(await generateIdentity()), "team")
+         const ownKey = await getPublicKey(await loadIdentity())
+
+         const recipients = [ownKey, malloryKey]
+         const signature = signRecipientList(deriveSigningKey(mallory), malloryKey, recipients)
+         // Mallory's signing key is pinned here, e.g. from a vault they share with this machine
+         rememberRecipientSigner(signature)
+         fs.writeFileSync(
+            getVaultPath("team"),
+            await encrypt(
+               recipients,
+               JSON.stringify({
+                  _RECIPIENT: recipients.join("\n"),
+                  _SIGNATURE: formatRecipientSignature(signature),
+               })
+            )
+         )
+         clearVaultCache()
+
+         await expect(vaultSet("NEW_SECRET", "topsecret", "team")).rejects.toThrow(
+            /was not a recipient of the version this machine accepted/
+         )
+      })
+
+      it("should refuse a list a teammate signed without this machine's key", async () => {
+         const teammate = await generateIdentity()
+         const teammateKey = await getPublicKey(teammate)
+         await vaultTrust(teammateKey, "team")
+
+         const signature = signRecipientList(deriveSigningKey(teammate), teammateKey, [teammateKey])
+         // The teammate's signing key was pinned when this machine reviewed a list they signed
+         rememberRecipientSigner(signature)
+         const ownKey = await getPublicKey(await loadIdentity())
+         fs.writeFileSync(
+            getVaultPath("team"),
+            await encrypt(
+               [ownKey, teammateKey],
+               JSON.stringify({ _RECIPIENT: teammateKey, _SIGNATURE: formatRecipientSignature(signature) })
+            )
+         )
+         clearVaultCache()
+
+         await expect(vaultSet("NEW_SECRET", "topsecret", "team")).rejects.toThrow(
+            /does not include your identity/
+         )
+      })
+
+      it("should keep the recipient list out of reach of vault set and delete", async () => {
+         await expect(vaultSet("_RECIPIENT", "age1attacker")).rejects.toThrow(ValidationError)
+         await expect(vaultDelete("_RECIPIENT")).rejects.toThrow(ValidationError)
+      })
+   })
+
+   describe("rekeying", () => {
+      it("should leave a vault the identities cannot open and throw on any other failure", async () => {
+         const identity = await loadIdentity()
+         const replacement = await generateIdentity()
+         const oldKey = await getPublicKey(identity)
+         const newKey = await getPublicKey(replacement)
+         await vaultSet("TOKEN", "t")
+         await vaultSet("TOKEN", "t", "foreign")
+         fs.writeFileSync(getVaultPath("foreign"), await encrypt([newKey], "{}"))
+
+         expect(await rekeyVault([identity], oldKey, replacement, "missing")).toBe("missing")
+         expect(await rekeyVault([identity], oldKey, replacement, "foreign")).toBe("not-recipient")
+         expect(await rekeyVault([identity], oldKey, replacement)).toBe("rekeyed")
+         expect(
+            JSON.parse(await decryptString([replacement], fs.readFileSync(getVaultPath(), "utf-8")))
+         ).toMatchObject({
+            TOKEN: "t",
+         })
+
+         fs.writeFileSync(getVaultPath(), "corrupted")
+         await expect(rekeyVault([replacement], newKey, identity)).rejects.toThrow(VaultError)
+      })
+   })
+
+   describe("importing", () => {
+      it("should merge keys and settle each conflict as chosen", async () => {
+         await vaultSet("API_URL", "https://api")
+         await vaultSet("STRIPE_KEY", "sk_local")
+         await vaultSet("SENTRY_DSN", "dsn_local")
+
+         const result = await vaultImport(
+            { API_URL: "https://api", STRIPE_KEY: "sk_new", SENTRY_DSN: "dsn_new", OPENAI_KEY: "ok" },
+            (key) => (key === "STRIPE_KEY" ? "incoming" : "local")
+         )
+         expect(result).toEqual({
+            added: ["OPENAI_KEY"],
+            replaced: ["STRIPE_KEY"],
+            kept: ["SENTRY_DSN"],
+            unchanged: ["API_URL"],
+         })
+
+         clearVaultCache()
+         expect(await vaultGet("STRIPE_KEY")).toBe("sk_new")
+         expect(await vaultGet("SENTRY_DSN")).toBe("dsn_local")
+         expect((await vaultHistory("STRIPE_KEY")).map((entry) => entry.value)).toEqual([
+            "sk_local",
+            "sk_new",
+         ])
+         expect(
+            readAuditLog(getVaultPath())
+               .filter((entry) => entry.action.startsWith("IMPORT"))
+               .map((entry) => `${entry.action} ${entry.key}`)
+         ).toEqual(["IMPORT OPENAI_KEY", "IMPORT_REPLACE STRIPE_KEY", "IMPORT_KEEP_LOCAL SENTRY_DSN"])
+      })
+
+      it("should reject metadata keys before writing anything", async () => {
+         await expect(vaultImport({ A_KEY: "a", _HISTORY: "{}" }, () => "incoming")).rejects.toThrow(
+            ValidationError
+         )
+         expect(listVaults()).toEqual([])
+      })
+   })
 })
 
 describe("Vault loadVault() Direct Tests", () => {
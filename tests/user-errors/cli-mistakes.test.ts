@@ -93,13 +93,14 @@ describe("User Blunder: CLI Mistakes", () => {
    })
 
    describe("Value validation errors", () => {
-      it("should reject multiline value without --base64 flag", async () => {
+      it("should reject both a VALUE and --file", async () => {
          await runCLI(["init"])
+         fs.writeFileSync(path.join(testDir, "key.pem"), "line1\nline2\n")
 
-         const { exitCode, stderr } = await runCLI(["set", "KEY", "line1\nline2"])
+         const { exitCode, stderr } = await runCLI(["set", "KEY", "value", "--file", "key.pem"])
 
          expect(exitCode).toBe(1)
-         expect(stderr).toContain("Multiline")
+         expect(stderr).toContain("not both")
       })
 
       it("should reject empty value", async () => {